@@ -8,8 +8,10 @@
  * @module
  */
 
+import type * as areasOfInterest from "../areasOfInterest.js";
 import type * as auth from "../auth.js";
 import type * as authUtils from "../authUtils.js";
+import type * as calibrations from "../calibrations.js";
 import type * as crons from "../crons.js";
 import type * as emailProvider from "../emailProvider.js";
 import type * as experiments from "../experiments.js";
@@ -17,9 +19,12 @@ import type * as http from "../http.js";
 import type * as imageClassification from "../imageClassification.js";
 import type * as mlpForward from "../mlpForward.js";
 import type * as pictures from "../pictures.js";
+import type * as shareLinks from "../shareLinks.js";
 import type * as stripe from "../stripe.js";
 import type * as stripeHelpers from "../stripeHelpers.js";
+import type * as studies from "../studies.js";
 import type * as users from "../users.js";
+import type * as validators from "../validators.js";
 
 import type {
   ApiFromModules,
@@ -36,8 +41,10 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  areasOfInterest: typeof areasOfInterest;
   auth: typeof auth;
   authUtils: typeof authUtils;
+  calibrations: typeof calibrations;
   crons: typeof crons;
   emailProvider: typeof emailProvider;
   experiments: typeof experiments;
@@ -45,9 +52,12 @@ declare const fullApi: ApiFromModules<{
   imageClassification: typeof imageClassification;
   mlpForward: typeof mlpForward;
   pictures: typeof pictures;
+  shareLinks: typeof shareLinks;
   stripe: typeof stripe;
   stripeHelpers: typeof stripeHelpers;
+  studies: typeof studies;
   users: typeof users;
+  validators: typeof validators;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
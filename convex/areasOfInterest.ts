@@ -0,0 +1,207 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+const pointValidator = v.object({
+  x: v.number(),
+  y: v.number(),
+});
+
+const shapeValidator = v.union(
+  v.literal("rectangle"),
+  v.literal("polygon")
+);
+
+// Get all areas of interest for a picture
+export const getPictureAreasOfInterest = query({
+  args: {
+    pictureId: v.id("pictures"),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("areasOfInterest"),
+      _creationTime: v.number(),
+      pictureId: v.id("pictures"),
+      userId: v.optional(v.id("users")),
+      name: v.string(),
+      shape: shapeValidator,
+      points: v.array(pointValidator),
+      color: v.optional(v.string()),
+      createdAt: v.number(),
+      updatedAt: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("areasOfInterest")
+      .withIndex("by_picture", (q) => q.eq("pictureId", args.pictureId))
+      .order("asc")
+      .collect();
+  },
+});
+
+// Create an area of interest on a picture (only the picture owner can edit AOIs)
+export const createAreaOfInterest = mutation({
+  args: {
+    pictureId: v.id("pictures"),
+    userId: v.optional(v.id("users")),
+    name: v.string(),
+    shape: shapeValidator,
+    points: v.array(pointValidator),
+    color: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    aoiId: v.optional(v.id("areasOfInterest")),
+  }),
+  handler: async (ctx, args) => {
+    const picture = await ctx.db.get(args.pictureId);
+    if (!picture) {
+      return {
+        success: false,
+        message: "Picture not found",
+      };
+    }
+
+    if (!args.userId || picture.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to edit areas of interest on this picture",
+      };
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      return {
+        success: false,
+        message: "Area of interest name is required",
+      };
+    }
+
+    const minPoints = args.shape === "rectangle" ? 4 : 3;
+    if (args.points.length < minPoints) {
+      return {
+        success: false,
+        message: `A ${args.shape} needs at least ${minPoints} points`,
+      };
+    }
+
+    const aoiId = await ctx.db.insert("areasOfInterest", {
+      pictureId: args.pictureId,
+      userId: args.userId,
+      name,
+      shape: args.shape,
+      points: args.points,
+      color: args.color,
+      createdAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      message: "Area of interest created",
+      aoiId,
+    };
+  },
+});
+
+// Rename or reshape an area of interest
+export const updateAreaOfInterest = mutation({
+  args: {
+    aoiId: v.id("areasOfInterest"),
+    userId: v.optional(v.id("users")),
+    name: v.optional(v.string()),
+    points: v.optional(v.array(pointValidator)),
+    color: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const aoi = await ctx.db.get(args.aoiId);
+    if (!aoi) {
+      return {
+        success: false,
+        message: "Area of interest not found",
+      };
+    }
+
+    const picture = await ctx.db.get(aoi.pictureId);
+    if (!picture || !args.userId || picture.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to edit areas of interest on this picture",
+      };
+    }
+
+    const updates: { name?: string; points?: { x: number; y: number }[]; color?: string; updatedAt: number } = {
+      updatedAt: Date.now(),
+    };
+    if (args.name !== undefined) {
+      const name = args.name.trim();
+      if (!name) {
+        return {
+          success: false,
+          message: "Area of interest name is required",
+        };
+      }
+      updates.name = name;
+    }
+    if (args.points !== undefined) {
+      const minPoints = aoi.shape === "rectangle" ? 4 : 3;
+      if (args.points.length < minPoints) {
+        return {
+          success: false,
+          message: `A ${aoi.shape} needs at least ${minPoints} points`,
+        };
+      }
+      updates.points = args.points;
+    }
+    if (args.color !== undefined) {
+      updates.color = args.color;
+    }
+
+    await ctx.db.patch(args.aoiId, updates);
+
+    return {
+      success: true,
+      message: "Area of interest updated",
+    };
+  },
+});
+
+// Delete an area of interest
+export const deleteAreaOfInterest = mutation({
+  args: {
+    aoiId: v.id("areasOfInterest"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const aoi = await ctx.db.get(args.aoiId);
+    if (!aoi) {
+      return {
+        success: false,
+        message: "Area of interest not found",
+      };
+    }
+
+    const picture = await ctx.db.get(aoi.pictureId);
+    if (!picture || !args.userId || picture.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to edit areas of interest on this picture",
+      };
+    }
+
+    await ctx.db.delete(args.aoiId);
+
+    return {
+      success: true,
+      message: "Area of interest deleted",
+    };
+  },
+});
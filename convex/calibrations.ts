@@ -0,0 +1,341 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+
+const MAX_NAME_LENGTH = 100;
+
+const coefficientsValidator = v.array(v.union(v.number(), v.array(v.number())));
+
+const gridValidator = v.object({
+  layout: v.union(v.literal("preset"), v.literal("custom")),
+  label: v.string(),
+  pointCount: v.number(),
+  points: v.array(v.object({ x: v.number(), y: v.number() })),
+  region: v.object({ x: v.number(), y: v.number(), width: v.number(), height: v.number() }),
+  viewportWidth: v.number(),
+  viewportHeight: v.number(),
+});
+
+const nullableNumber = v.union(v.number(), v.null());
+
+const validationValidator = v.object({
+  points: v.array(v.object({
+    target: v.object({ x: v.number(), y: v.number() }),
+    sampleCount: v.number(),
+    meanGaze: v.union(v.object({ x: v.number(), y: v.number() }), v.null()),
+    errorPx: nullableNumber,
+    errorDeg: nullableNumber,
+    precisionPx: nullableNumber,
+    precisionDeg: nullableNumber,
+  })),
+  meanErrorPx: nullableNumber,
+  meanErrorDeg: nullableNumber,
+  meanPrecisionPx: nullableNumber,
+  meanPrecisionDeg: nullableNumber,
+  passed: v.boolean(),
+  failureReason: v.optional(v.string()),
+  viewportWidth: v.number(),
+  viewportHeight: v.number(),
+  validatedAt: v.number(),
+});
+
+const headPoseValidator = v.object({
+  yaw: v.number(),
+  pitch: v.number(),
+  faceScale: v.number(),
+  sampleCount: v.number(),
+});
+
+const deviceValidator = v.object({
+  userAgent: v.string(),
+  platform: v.optional(v.string()),
+  devicePixelRatio: v.number(),
+  cameraLabel: v.optional(v.string()),
+});
+
+const screenValidator = v.object({
+  screenWidth: v.number(),
+  screenHeight: v.number(),
+  viewportWidth: v.number(),
+  viewportHeight: v.number(),
+});
+
+// Listing entry (without the regression model and training data)
+const calibrationSummaryValidator = v.object({
+  _id: v.id("calibrations"),
+  name: v.string(),
+  gridLabel: v.optional(v.string()),
+  gridPointCount: v.optional(v.number()),
+  isValid: v.boolean(),
+  averageConfidence: v.number(),
+  validationPassed: v.optional(v.boolean()),
+  meanErrorDeg: v.optional(nullableNumber),
+  meanPrecisionDeg: v.optional(nullableNumber),
+  device: deviceValidator,
+  screen: screenValidator,
+  experimentCount: v.number(),
+  createdAt: v.number(),
+  lastUsedAt: v.optional(v.number()),
+});
+
+/**
+ * Convert a stored calibration to the object `webgazerManager.restoreCalibrationData` expects
+ * (the same shape `extractCalibrationData` produces).
+ */
+export function toRestorableCalibrationData(calibration: Doc<"calibrations">) {
+  return {
+    ...(calibration.trainingData ?? {}),
+    regressionBeta: calibration.regressionBeta,
+    ...(calibration.regressionWeights ? { regressionWeights: calibration.regressionWeights } : {}),
+    ...(calibration.grid ? { grid: calibration.grid } : {}),
+    // Checked against the current setup before the model is restored
+    fingerprint: { ...calibration.device, ...calibration.screen },
+    result: {
+      isValid: calibration.isValid,
+      pointsCollected: calibration.pointsCollected,
+      averageConfidence: calibration.averageConfidence,
+      ...(calibration.validation ? { validation: calibration.validation } : {}),
+      ...(calibration.headPose ? { headPose: calibration.headPose } : {}),
+    },
+  };
+}
+
+// Save a calibration after the click calibration (and validation) finished
+export const saveCalibration = mutation({
+  args: {
+    userId: v.id("users"),
+    name: v.optional(v.string()),
+    regressionBeta: coefficientsValidator,
+    regressionWeights: v.optional(coefficientsValidator),
+    trainingData: v.optional(v.any()),
+    grid: v.optional(gridValidator),
+    isValid: v.boolean(),
+    pointsCollected: v.number(),
+    averageConfidence: v.number(),
+    validation: v.optional(validationValidator),
+    headPose: v.optional(headPoseValidator),
+    device: deviceValidator,
+    screen: screenValidator,
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    calibrationId: v.optional(v.id("calibrations")),
+  }),
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      return { success: false, message: "User not found" };
+    }
+
+    if (args.regressionBeta.length === 0) {
+      return { success: false, message: "Calibration has no regression coefficients" };
+    }
+
+    const name = args.name?.trim();
+    if (name && name.length > MAX_NAME_LENGTH) {
+      return { success: false, message: `Name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+
+    const existing = await ctx.db
+      .query("calibrations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    const now = Date.now();
+    const calibrationId = await ctx.db.insert("calibrations", {
+      userId: args.userId,
+      name: name || `Calibration ${existing.length + 1}`,
+      regressionBeta: args.regressionBeta,
+      regressionWeights: args.regressionWeights,
+      trainingData: args.trainingData,
+      grid: args.grid,
+      isValid: args.isValid,
+      pointsCollected: args.pointsCollected,
+      averageConfidence: args.averageConfidence,
+      validation: args.validation,
+      headPose: args.headPose,
+      device: args.device,
+      screen: args.screen,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+
+    return { success: true, message: "Calibration saved", calibrationId };
+  },
+});
+
+// List a user's saved calibrations, most recently used first
+export const getUserCalibrations = query({
+  args: {
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.array(calibrationSummaryValidator),
+  handler: async (ctx, args) => {
+    if (!args.userId) {
+      return [];
+    }
+
+    const calibrations = await ctx.db
+      .query("calibrations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId!))
+      .collect();
+
+    // Count sessions per calibration with one query - experiments can only reference
+    // calibrations of the user who owns them
+    const experiments = await ctx.db
+      .query("experiments")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId!))
+      .collect();
+    const experimentCounts = new Map<string, number>();
+    for (const experiment of experiments) {
+      if (experiment.calibrationId) {
+        experimentCounts.set(experiment.calibrationId, (experimentCounts.get(experiment.calibrationId) ?? 0) + 1);
+      }
+    }
+
+    const summaries = calibrations.map((calibration) => ({
+      _id: calibration._id,
+      name: calibration.name,
+      gridLabel: calibration.grid?.label,
+      gridPointCount: calibration.grid?.pointCount,
+      isValid: calibration.isValid,
+      averageConfidence: calibration.averageConfidence,
+      validationPassed: calibration.validation?.passed,
+      meanErrorDeg: calibration.validation?.meanErrorDeg,
+      meanPrecisionDeg: calibration.validation?.meanPrecisionDeg,
+      device: calibration.device,
+      screen: calibration.screen,
+      experimentCount: experimentCounts.get(calibration._id) ?? 0,
+      createdAt: calibration.createdAt,
+      lastUsedAt: calibration.lastUsedAt,
+    }));
+
+    return summaries.sort((a, b) => (b.lastUsedAt ?? b.createdAt) - (a.lastUsedAt ?? a.createdAt));
+  },
+});
+
+// Get a saved calibration in the format WebGazer restores from (owner only)
+export const getCalibration = query({
+  args: {
+    calibrationId: v.id("calibrations"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.union(
+    v.object({
+      calibrationId: v.id("calibrations"),
+      name: v.string(),
+      calibrationData: v.any(),
+      createdAt: v.number(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const calibration = await ctx.db.get(args.calibrationId);
+    if (!calibration || !args.userId || calibration.userId !== args.userId) {
+      return null;
+    }
+
+    return {
+      calibrationId: calibration._id,
+      name: calibration.name,
+      calibrationData: toRestorableCalibrationData(calibration),
+      createdAt: calibration.createdAt,
+    };
+  },
+});
+
+// Rename a saved calibration
+export const renameCalibration = mutation({
+  args: {
+    calibrationId: v.id("calibrations"),
+    userId: v.id("users"),
+    name: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const calibration = await ctx.db.get(args.calibrationId);
+    if (!calibration) {
+      return { success: false, message: "Calibration not found" };
+    }
+    if (calibration.userId !== args.userId) {
+      return { success: false, message: "Not authorized to rename this calibration" };
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      return { success: false, message: "Name is required" };
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return { success: false, message: `Name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+
+    await ctx.db.patch(args.calibrationId, { name });
+    return { success: true, message: "Calibration renamed" };
+  },
+});
+
+// Record that a saved calibration was picked for a new session
+export const markCalibrationUsed = mutation({
+  args: {
+    calibrationId: v.id("calibrations"),
+    userId: v.id("users"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const calibration = await ctx.db.get(args.calibrationId);
+    if (!calibration || calibration.userId !== args.userId) {
+      return { success: false, message: "Calibration not found" };
+    }
+
+    await ctx.db.patch(args.calibrationId, { lastUsedAt: Date.now() });
+    return { success: true, message: "Calibration selected" };
+  },
+});
+
+// Delete a saved calibration; experiments recorded with it keep a copy of it in their eye tracking data
+export const deleteCalibration = mutation({
+  args: {
+    calibrationId: v.id("calibrations"),
+    userId: v.id("users"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const calibration = await ctx.db.get(args.calibrationId);
+    if (!calibration) {
+      return { success: false, message: "Calibration not found" };
+    }
+    if (calibration.userId !== args.userId) {
+      return { success: false, message: "Not authorized to delete this calibration" };
+    }
+
+    const experiments = await ctx.db
+      .query("experiments")
+      .withIndex("by_calibration", (q) => q.eq("calibrationId", args.calibrationId))
+      .collect();
+
+    // Sessions that only referenced the calibration get a copy of it before the reference goes
+    const calibrationData = toRestorableCalibrationData(calibration);
+    for (const experiment of experiments) {
+      const eyeTrackingData = experiment.eyeTrackingData;
+      await ctx.db.patch(experiment._id, {
+        calibrationId: undefined,
+        ...(eyeTrackingData && !eyeTrackingData.calibrationData
+          ? { eyeTrackingData: { ...eyeTrackingData, calibrationData } }
+          : {}),
+      });
+    }
+
+    await ctx.db.delete(args.calibrationId);
+    return { success: true, message: "Calibration deleted" };
+  },
+});
@@ -1,6 +1,9 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { completeShareLinkParticipant, getShareLinkByToken, getShareLinkStatus } from "./shareLinks";
+import { toRestorableCalibrationData } from "./calibrations";
+import { eyeTrackingDataValidator } from "./validators";
 
 // Custom error class for rate limiting
 class RateLimitError extends Error {
@@ -29,6 +32,15 @@ const ANONYMOUS_CONFIG = {
 
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
+// Consent and questionnaire answers recorded with study sessions
+const participantInfoValidator = v.object({
+  consentGivenAt: v.optional(v.number()),
+  ageRange: v.optional(v.string()),
+  artTraining: v.optional(v.string()),
+  visionCorrection: v.optional(v.string()),
+  handedness: v.optional(v.string()),
+});
+
 /**
  * Calculate the refilled allotment based on time elapsed since last experiment.
  * Uses token bucket algorithm: allotment refills over time up to a maximum.
@@ -191,6 +203,14 @@ export const createExperiment = mutation({
     ipAddress: v.optional(v.string()), // For anonymous user rate limiting
     experimentType: v.string(),
     parameters: v.optional(v.any()),
+    studyId: v.optional(v.id("studies")),
+    // Share link token for remote participants recording on the owner's behalf
+    shareToken: v.optional(v.string()),
+    // Participant slot reserved through the share link when the session started
+    reservationId: v.optional(v.string()),
+    participantInfo: v.optional(participantInfoValidator),
+    // Saved calibration the session was recorded with
+    calibrationId: v.optional(v.id("calibrations")),
   },
   returns: v.object({
     experimentId: v.id("experiments"),
@@ -235,11 +255,53 @@ export const createExperiment = mutation({
         throw new Error("Picture has expired");
       }
 
+      // Sessions recorded through a share link belong to the link owner (and their study),
+      // so they use the owner's allotment instead of the participant's account or IP
+      const shareLink = args.shareToken ? await getShareLinkByToken(ctx, args.shareToken) : null;
+      if (args.shareToken) {
+        if (!shareLink || shareLink.pictureId !== args.pictureId) {
+          throw new Error("Share link not found for this picture");
+        }
+        const linkStatus = getShareLinkStatus(shareLink, Date.now(), args.reservationId);
+        if (linkStatus === "expired") {
+          throw new Error("This share link has expired");
+        }
+        if (linkStatus === "full") {
+          throw new Error("This study has reached its participant limit");
+        }
+        if (linkStatus === "revoked") {
+          throw new Error("This share link is no longer active");
+        }
+        if (!args.participantInfo?.consentGivenAt) {
+          throw new Error("Participant consent is required");
+        }
+      }
+      const userId = shareLink ? shareLink.userId : args.userId;
+      const studyId = shareLink ? shareLink.studyId : args.studyId;
+
       // Check ownership for registered users
-      if (args.userId && picture.userId !== args.userId) {
+      if (userId && picture.userId !== userId) {
         throw new Error("Not authorized to create experiments on this picture");
       }
 
+      // Sessions recorded for a study must be on the study's picture
+      if (studyId) {
+        const study = await ctx.db.get(studyId);
+        if (!study || study.pictureId !== args.pictureId) {
+          throw new Error("Study not found for this picture");
+        }
+      }
+
+      if (args.calibrationId) {
+        const calibration = await ctx.db.get(args.calibrationId);
+        if (!calibration) {
+          throw new Error("Calibration not found");
+        }
+        if (calibration.userId !== userId) {
+          throw new Error("Not authorized to use this calibration");
+        }
+      }
+
       // Check if this picture already has experiments (has been "used")
       // Limit applies per picture, not per experiment - once a picture has been used (has experiments),
       // users can run all experiments on that picture without additional limits
@@ -253,11 +315,11 @@ export const createExperiment = mutation({
       const pictureHasBeenUsed = existingExperimentsForPicture.length > 0;
       
       // Check membership limits for registered users using token bucket algorithm
-      if (args.userId) {
+      if (userId) {
         
         // Only check limit if this picture hasn't been used yet
         if (!pictureHasBeenUsed) {
-          const user = await ctx.db.get(args.userId);
+          const user = await ctx.db.get(userId);
           if (!user) {
             throw new Error("User not found");
           }
@@ -302,7 +364,7 @@ export const createExperiment = mutation({
       let anonymousRefilledAllotment = ANONYMOUS_CONFIG.maxAllotment;
       let anonymousPictureHasBeenUsed = false;
       
-      if (!args.userId && args.ipAddress) {
+      if (!userId && args.ipAddress) {
         // For anonymous users, picture is "used" if:
         // 1. It was uploaded by this IP (ownership check)
         // 2. It already has experiments (meaning the first experiment already ran)
@@ -356,20 +418,27 @@ export const createExperiment = mutation({
       // console.log(`📝 [${callId}] Inserting experiment into database...`)
       const experimentId = await ctx.db.insert("experiments", {
         pictureId: args.pictureId,
-        userId: args.userId,
+        userId,
         experimentType: args.experimentType,
         parameters: args.parameters,
         status: "pending",
         createdAt: Date.now(),
+        studyId,
+        participantInfo: args.participantInfo,
+        calibrationId: args.calibrationId,
       });
       
       // console.log(`✅ [${callId}] Experiment inserted with ID:`, experimentId)
 
+      if (shareLink) {
+        await ctx.db.patch(shareLink._id, completeShareLinkParticipant(shareLink, Date.now(), args.reservationId));
+      }
+
       // Update user's experiment count and allotment
       // Rate limiting is per-picture (1 picture = 1 study/experiment for rate limiting)
       // Only increment experimentCount and decrement allotment if this picture hasn't been used yet (first experiment on this picture)
-      if (args.userId) {
-        const user = await ctx.db.get(args.userId);
+      if (userId) {
+        const user = await ctx.db.get(userId);
         if (user) {
           // Only increment lifetime count and decrement allotment if this is the first experiment on this picture
           // This implements "1 picture = 1 study" for rate limiting purposes
@@ -395,7 +464,7 @@ export const createExperiment = mutation({
             //   afterDeduction: newAllotment.toFixed(2),
             // });
 
-            await ctx.db.patch(args.userId, {
+            await ctx.db.patch(userId, {
               experimentCount: currentExperimentCount,
               experimentAllotment: newAllotment,
               lastExperimentAt: Date.now(),
@@ -407,7 +476,7 @@ export const createExperiment = mutation({
 
       // Update anonymous user's allotment (tracked by IP)
       // Only decrement if this picture hasn't been used yet (first experiment on this picture)
-      if (!args.userId && args.ipAddress && !anonymousPictureHasBeenUsed) {
+      if (!userId && args.ipAddress && !anonymousPictureHasBeenUsed) {
         const newAllotment = Math.max(0, anonymousRefilledAllotment - 1);
 
         // console.log(`📊 [${callId}] Updating anonymous allotment:`, {
@@ -531,6 +600,9 @@ export const getPictureExperiments = query({
       ),
       createdAt: v.number(),
       completedAt: v.optional(v.number()),
+      studyId: v.optional(v.id("studies")),
+      participantInfo: v.optional(participantInfoValidator),
+      calibrationId: v.optional(v.id("calibrations")),
     })
   ),
   handler: async (ctx, args) => {
@@ -565,29 +637,7 @@ export const getUserExperiments = query({
       ),
       createdAt: v.number(),
       completedAt: v.optional(v.number()),
-      eyeTrackingData: v.optional(v.object({
-        gazePoints: v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          timestamp: v.number(),
-          confidence: v.optional(v.number())
-        })),
-        heatmapData: v.optional(v.any()),
-        fixationPoints: v.optional(v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          duration: v.number(),
-          startTime: v.number()
-        }))),
-        scanPath: v.optional(v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          timestamp: v.number(),
-          confidence: v.optional(v.number())
-        }))),
-        sessionDuration: v.optional(v.number()),
-        calibrationData: v.optional(v.any())
-      })),
+      eyeTrackingData: v.optional(eyeTrackingDataValidator),
       picture: v.optional(
         v.object({
           _id: v.id("pictures"),
@@ -673,29 +723,7 @@ export const updateExperimentResults = mutation({
 export const updateEyeTrackingResults = mutation({
   args: {
     experimentId: v.id("experiments"),
-    eyeTrackingData: v.object({
-      gazePoints: v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        timestamp: v.number(),
-        confidence: v.optional(v.number())
-      })),
-      fixationPoints: v.optional(v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        duration: v.number(),
-        startTime: v.number()
-      }))),
-      scanPath: v.optional(v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        timestamp: v.number(),
-        confidence: v.optional(v.number())
-      }))),
-      sessionDuration: v.optional(v.number()),
-      heatmapData: v.optional(v.any()),
-      calibrationData: v.optional(v.any())
-    }),
+    eyeTrackingData: eyeTrackingDataValidator,
     status: v.union(
       v.literal("completed"),
       v.literal("failed")
@@ -727,6 +755,7 @@ export const updateEyeTrackingResults = mutation({
       results: {
         gazePointCount: args.eyeTrackingData.gazePoints.length,
         fixationCount: args.eyeTrackingData.fixationPoints?.length || 0,
+        saccadeCount: args.eyeTrackingData.saccades?.length || 0,
         sessionDuration: args.eyeTrackingData.sessionDuration,
         averageConfidence: args.eyeTrackingData.gazePoints.length > 0 
           ? args.eyeTrackingData.gazePoints.reduce((sum, p) => sum + (p.confidence || 0.5), 0) / args.eyeTrackingData.gazePoints.length
@@ -928,29 +957,7 @@ export const getExperiment = query({
       experimentType: v.string(),
       parameters: v.optional(v.any()),
       results: v.optional(v.any()),
-      eyeTrackingData: v.optional(v.object({
-        gazePoints: v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          timestamp: v.number(),
-          confidence: v.optional(v.number())
-        })),
-        heatmapData: v.optional(v.any()),
-        fixationPoints: v.optional(v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          duration: v.number(),
-          startTime: v.number()
-        }))),
-        scanPath: v.optional(v.array(v.object({
-          x: v.number(),
-          y: v.number(),
-          timestamp: v.number(),
-          confidence: v.optional(v.number())
-        }))),
-        sessionDuration: v.optional(v.number()),
-        calibrationData: v.optional(v.any())
-      })),
+      eyeTrackingData: v.optional(eyeTrackingDataValidator),
       status: v.union(
         v.literal("pending"),
         v.literal("processing"),
@@ -959,6 +966,9 @@ export const getExperiment = query({
       ),
       createdAt: v.number(),
       completedAt: v.optional(v.number()),
+      studyId: v.optional(v.id("studies")),
+      participantInfo: v.optional(participantInfoValidator),
+      calibrationId: v.optional(v.id("calibrations")),
     }),
     v.null()
   ),
@@ -986,6 +996,9 @@ export const getExperiment = query({
       status: experiment.status,
       createdAt: experiment.createdAt,
       completedAt: experiment.completedAt,
+      studyId: experiment.studyId,
+      participantInfo: experiment.participantInfo,
+      calibrationId: experiment.calibrationId,
     };
   },
 });
@@ -1049,13 +1062,16 @@ export const getExistingExperiment = query({
 });
 
 // Get most recent calibration data for a user
+// Prefers the most recently used saved calibration; falls back to calibration data stored
+// with experiments recorded before calibrations had their own table
 export const getMostRecentCalibration = query({
   args: {
     userId: v.optional(v.id("users")),
   },
   returns: v.union(
     v.object({
-      experimentId: v.id("experiments"),
+      calibrationId: v.optional(v.id("calibrations")),
+      experimentId: v.optional(v.id("experiments")),
       calibrationData: v.any(),
       createdAt: v.number(),
     }),
@@ -1066,6 +1082,22 @@ export const getMostRecentCalibration = query({
       return null
     }
 
+    const calibrations = await ctx.db
+      .query("calibrations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId!))
+      .collect()
+
+    if (calibrations.length > 0) {
+      const latest = calibrations.reduce((best, calibration) =>
+        (calibration.lastUsedAt ?? calibration.createdAt) > (best.lastUsedAt ?? best.createdAt) ? calibration : best
+      )
+      return {
+        calibrationId: latest._id,
+        calibrationData: toRestorableCalibrationData(latest),
+        createdAt: latest.createdAt,
+      }
+    }
+
     // Find the most recent completed eye tracking experiment with calibration data
     const experiments = await ctx.db
       .query("experiments")
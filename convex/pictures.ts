@@ -333,6 +333,36 @@ export const deletePicture = mutation({
       await ctx.db.delete(experiment._id);
     }
 
+    // Delete areas of interest drawn on this picture
+    const areasOfInterest = await ctx.db
+      .query("areasOfInterest")
+      .withIndex("by_picture", (q) => q.eq("pictureId", args.pictureId))
+      .collect();
+
+    for (const aoi of areasOfInterest) {
+      await ctx.db.delete(aoi._id);
+    }
+
+    // Delete studies on this picture (their sessions were deleted above)
+    const studies = await ctx.db
+      .query("studies")
+      .withIndex("by_picture", (q) => q.eq("pictureId", args.pictureId))
+      .collect();
+
+    for (const study of studies) {
+      await ctx.db.delete(study._id);
+    }
+
+    // Delete share links to this picture
+    const shareLinks = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_picture", (q) => q.eq("pictureId", args.pictureId))
+      .collect();
+
+    for (const link of shareLinks) {
+      await ctx.db.delete(link._id);
+    }
+
     // Delete the picture
     await ctx.db.delete(args.pictureId);
 
@@ -415,6 +445,33 @@ export const cleanupExpiredPictures = internalMutation({
         await ctx.db.delete(experiment._id);
       }
 
+      const areasOfInterest = await ctx.db
+        .query("areasOfInterest")
+        .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+        .collect();
+
+      for (const aoi of areasOfInterest) {
+        await ctx.db.delete(aoi._id);
+      }
+
+      const studies = await ctx.db
+        .query("studies")
+        .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+        .collect();
+
+      for (const study of studies) {
+        await ctx.db.delete(study._id);
+      }
+
+      const shareLinks = await ctx.db
+        .query("shareLinks")
+        .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+        .collect();
+
+      for (const link of shareLinks) {
+        await ctx.db.delete(link._id);
+      }
+
       // Delete the file from storage
       try {
         await ctx.storage.delete(picture.fileId);
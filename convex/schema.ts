@@ -1,6 +1,7 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { eyeTrackingDataValidator } from "./validators";
 
 export default defineSchema({
   // Include Convex Auth tables
@@ -79,34 +80,149 @@ export default defineSchema({
     ),
     createdAt: v.number(),
     completedAt: v.optional(v.number()),
-    // Eye tracking specific data
-    eyeTrackingData: v.optional(v.object({
-      gazePoints: v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        timestamp: v.number(),
-        confidence: v.optional(v.number())
-      })),
-      heatmapData: v.optional(v.any()),
-      fixationPoints: v.optional(v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        duration: v.number(),
-        startTime: v.number()
-      }))),
-      scanPath: v.optional(v.array(v.object({
-        x: v.number(),
-        y: v.number(),
-        timestamp: v.number(),
-        confidence: v.optional(v.number())
-      }))),
-      sessionDuration: v.optional(v.number()),
-      calibrationData: v.optional(v.any())
+    // Study this session belongs to (multi-participant studies)
+    studyId: v.optional(v.id("studies")),
+    // Consent and questionnaire answers collected before a study session
+    participantInfo: v.optional(v.object({
+      consentGivenAt: v.optional(v.number()),
+      ageRange: v.optional(v.string()),
+      artTraining: v.optional(v.string()),
+      visionCorrection: v.optional(v.string()),
+      handedness: v.optional(v.string())
     })),
+    // Calibration the session was recorded with
+    calibrationId: v.optional(v.id("calibrations")),
+    // Eye tracking specific data
+    eyeTrackingData: v.optional(eyeTrackingDataValidator),
   }).index("by_picture", ["pictureId"])
     .index("by_user", ["userId"])
     .index("by_status", ["status"])
-    .index("by_experiment_type", ["experimentType"]),
+    .index("by_experiment_type", ["experimentType"])
+    .index("by_study", ["studyId"])
+    .index("by_calibration", ["calibrationId"]),
+
+  // Areas of interest drawn on a picture (shared by every experiment on that picture)
+  areasOfInterest: defineTable({
+    pictureId: v.id("pictures"),
+    userId: v.optional(v.id("users")),
+    name: v.string(),
+    shape: v.union(
+      v.literal("rectangle"),
+      v.literal("polygon")
+    ),
+    // Vertices in natural image coordinates (rectangles store their 4 corners)
+    points: v.array(v.object({
+      x: v.number(),
+      y: v.number()
+    })),
+    color: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  }).index("by_picture", ["pictureId"]),
+
+  // Studies group eye tracking sessions from many participants on one picture
+  studies: defineTable({
+    pictureId: v.id("pictures"),
+    userId: v.optional(v.id("users")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    // Consent text shown to participants (a default text is used when empty)
+    consentText: v.optional(v.string()),
+    // Questionnaire fields asked before tracking: ageRange, artTraining, visionCorrection, handedness
+    questionnaireFields: v.optional(v.array(v.string())),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  }).index("by_picture", ["pictureId"])
+    .index("by_user", ["userId"]),
+
+  // Tokenized links that let remote participants record sessions on someone else's picture
+  shareLinks: defineTable({
+    token: v.string(),
+    pictureId: v.id("pictures"),
+    studyId: v.optional(v.id("studies")),
+    // Owner who created the link - sessions are recorded on their behalf
+    userId: v.id("users"),
+    label: v.optional(v.string()),
+    maxParticipants: v.optional(v.number()),
+    participantCount: v.number(),
+    // Slots held by participants who have started but not yet finished a session
+    reservations: v.optional(v.array(v.object({
+      reservationId: v.string(),
+      expiresAt: v.number()
+    }))),
+    expiresAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_token", ["token"])
+    .index("by_picture", ["pictureId"])
+    .index("by_study", ["studyId"]),
+
+  // Saved WebGazer calibrations, reusable across sessions
+  calibrations: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    // Ridge regression model trained by the click calibration
+    regressionBeta: v.array(v.union(v.number(), v.array(v.number()))),
+    regressionWeights: v.optional(v.array(v.union(v.number(), v.array(v.number())))),
+    // WebGazer's raw training samples (eye features and screen positions), needed to retrain
+    trainingData: v.optional(v.any()),
+    // Layout of the calibration points
+    grid: v.optional(v.object({
+      layout: v.union(v.literal("preset"), v.literal("custom")),
+      label: v.string(),
+      pointCount: v.number(),
+      points: v.array(v.object({ x: v.number(), y: v.number() })),
+      region: v.object({ x: v.number(), y: v.number(), width: v.number(), height: v.number() }),
+      viewportWidth: v.number(),
+      viewportHeight: v.number()
+    })),
+    // Quality reported by the click calibration
+    isValid: v.boolean(),
+    pointsCollected: v.number(),
+    averageConfidence: v.number(),
+    // Accuracy measured on validation targets
+    validation: v.optional(v.object({
+      points: v.array(v.object({
+        target: v.object({ x: v.number(), y: v.number() }),
+        sampleCount: v.number(),
+        meanGaze: v.union(v.object({ x: v.number(), y: v.number() }), v.null()),
+        errorPx: v.union(v.number(), v.null()),
+        errorDeg: v.union(v.number(), v.null()),
+        precisionPx: v.union(v.number(), v.null()),
+        precisionDeg: v.union(v.number(), v.null())
+      })),
+      meanErrorPx: v.union(v.number(), v.null()),
+      meanErrorDeg: v.union(v.number(), v.null()),
+      meanPrecisionPx: v.union(v.number(), v.null()),
+      meanPrecisionDeg: v.union(v.number(), v.null()),
+      passed: v.boolean(),
+      failureReason: v.optional(v.string()),
+      viewportWidth: v.number(),
+      viewportHeight: v.number(),
+      validatedAt: v.number()
+    })),
+    // Mean head pose during calibration (degrees; face scale = eye distance / video width)
+    headPose: v.optional(v.object({
+      yaw: v.number(),
+      pitch: v.number(),
+      faceScale: v.number(),
+      sampleCount: v.number()
+    })),
+    device: v.object({
+      userAgent: v.string(),
+      platform: v.optional(v.string()),
+      devicePixelRatio: v.number(),
+      cameraLabel: v.optional(v.string())
+    }),
+    screen: v.object({
+      screenWidth: v.number(),
+      screenHeight: v.number(),
+      viewportWidth: v.number(),
+      viewportHeight: v.number()
+    }),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+  }).index("by_user", ["userId"]),
 
   // Rate limiting for IP addresses (1 minute cooldown for uploads)
   rateLimits: defineTable({
@@ -0,0 +1,335 @@
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+
+const TOKEN_LENGTH = 24;
+const TOKEN_ALPHABET = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+const shareLinkStatusValidator = v.union(
+  v.literal("active"),
+  v.literal("expired"),
+  v.literal("full"),
+  v.literal("revoked")
+);
+
+// How long a participant slot stays reserved while calibration and the session run
+const RESERVATION_DURATION_MS = 60 * 60 * 1000;
+
+// Generate an unguessable URL-safe token
+function generateToken(): string {
+  // Largest multiple of the alphabet size that fits in a byte - bytes at or above it are
+  // rejected so every character is equally likely
+  const limit = 256 - (256 % TOKEN_ALPHABET.length);
+  let token = "";
+  while (token.length < TOKEN_LENGTH) {
+    const bytes = new Uint8Array(TOKEN_LENGTH);
+    crypto.getRandomValues(bytes);
+    for (const byte of bytes) {
+      if (byte < limit && token.length < TOKEN_LENGTH) {
+        token += TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length];
+      }
+    }
+  }
+  return token;
+}
+
+// Reservations of participants whose session is still running
+function activeReservations(link: Doc<"shareLinks">, now: number) {
+  return (link.reservations ?? []).filter((reservation) => reservation.expiresAt > now);
+}
+
+// Whether a share link can still accept participants. A participant's own reservation
+// does not count against the cap when they finish their session.
+export function getShareLinkStatus(
+  link: Doc<"shareLinks">,
+  now: number,
+  reservationId?: string
+): "active" | "expired" | "full" | "revoked" {
+  if (link.revokedAt) {
+    return "revoked";
+  }
+  if (link.expiresAt !== undefined && now >= link.expiresAt) {
+    return "expired";
+  }
+  if (link.maxParticipants !== undefined) {
+    const reserved = activeReservations(link, now).filter((reservation) => reservation.reservationId !== reservationId);
+    if (link.participantCount + reserved.length >= link.maxParticipants) {
+      return "full";
+    }
+  }
+  return "active";
+}
+
+// Participant count after a session recorded through the link, releasing its reservation
+export function completeShareLinkParticipant(link: Doc<"shareLinks">, now: number, reservationId?: string) {
+  return {
+    participantCount: link.participantCount + 1,
+    reservations: activeReservations(link, now).filter((reservation) => reservation.reservationId !== reservationId),
+  };
+}
+
+// Look up a share link by its token
+export async function getShareLinkByToken(ctx: QueryCtx, token: string) {
+  return await ctx.db
+    .query("shareLinks")
+    .withIndex("by_token", (q) => q.eq("token", token))
+    .first();
+}
+
+// Get a share link for the participant landing page
+export const getShareLink = query({
+  args: {
+    token: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      pictureId: v.id("pictures"),
+      studyId: v.optional(v.id("studies")),
+      studyName: v.optional(v.string()),
+      pictureName: v.optional(v.string()),
+      consentText: v.optional(v.string()),
+      questionnaireFields: v.optional(v.array(v.string())),
+      status: shareLinkStatusValidator,
+      expiresAt: v.optional(v.number()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const link = await getShareLinkByToken(ctx, args.token);
+    if (!link) {
+      return null;
+    }
+
+    const picture = await ctx.db.get(link.pictureId);
+    const study = link.studyId ? await ctx.db.get(link.studyId) : null;
+
+    return {
+      pictureId: link.pictureId,
+      studyId: link.studyId,
+      studyName: study?.name,
+      pictureName: picture?.fileName,
+      consentText: study?.consentText,
+      questionnaireFields: study?.questionnaireFields,
+      // An expired or deleted picture can no longer be shown to participants
+      status: !picture || picture.isExpired ? "expired" as const : getShareLinkStatus(link, Date.now()),
+      expiresAt: link.expiresAt,
+    };
+  },
+});
+
+// Hold a participant slot before calibration starts, so a capped link cannot take more
+// participants than it allows while several sessions run at once
+export const reserveShareLinkSlot = mutation({
+  args: {
+    token: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    reservationId: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const link = await getShareLinkByToken(ctx, args.token);
+    if (!link) {
+      return {
+        success: false,
+        message: "Share link not found",
+      };
+    }
+
+    const now = Date.now();
+    const status = getShareLinkStatus(link, now);
+    if (status === "expired") {
+      return {
+        success: false,
+        message: "This share link has expired",
+      };
+    }
+    if (status === "full") {
+      return {
+        success: false,
+        message: "This study has reached its participant limit",
+      };
+    }
+    if (status === "revoked") {
+      return {
+        success: false,
+        message: "This share link is no longer active",
+      };
+    }
+
+    // Links without a cap have nothing to reserve
+    if (link.maxParticipants === undefined) {
+      return {
+        success: true,
+        message: "No participant limit",
+      };
+    }
+
+    const reservationId = generateToken();
+    await ctx.db.patch(link._id, {
+      reservations: [...activeReservations(link, now), { reservationId, expiresAt: now + RESERVATION_DURATION_MS }],
+    });
+
+    return {
+      success: true,
+      message: "Participant slot reserved",
+      reservationId,
+    };
+  },
+});
+
+// Get the share links for a study
+export const getStudyShareLinks = query({
+  args: {
+    studyId: v.id("studies"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("shareLinks"),
+      token: v.string(),
+      label: v.optional(v.string()),
+      maxParticipants: v.optional(v.number()),
+      participantCount: v.number(),
+      expiresAt: v.optional(v.number()),
+      status: shareLinkStatusValidator,
+      createdAt: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const study = await ctx.db.get(args.studyId);
+    if (!study || !args.userId || study.userId !== args.userId) {
+      return [];
+    }
+
+    const links = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_study", (q) => q.eq("studyId", args.studyId))
+      .order("desc")
+      .collect();
+
+    const now = Date.now();
+    return links.map((link) => ({
+      _id: link._id,
+      token: link.token,
+      label: link.label,
+      maxParticipants: link.maxParticipants,
+      participantCount: link.participantCount,
+      expiresAt: link.expiresAt,
+      status: getShareLinkStatus(link, now),
+      createdAt: link.createdAt,
+    }));
+  },
+});
+
+// Create a share link that lets anonymous participants record sessions for a study
+export const createShareLink = mutation({
+  args: {
+    pictureId: v.id("pictures"),
+    studyId: v.optional(v.id("studies")),
+    userId: v.id("users"),
+    label: v.optional(v.string()),
+    maxParticipants: v.optional(v.number()),
+    expiresAt: v.optional(v.number()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    token: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const picture = await ctx.db.get(args.pictureId);
+    if (!picture) {
+      return {
+        success: false,
+        message: "Picture not found",
+      };
+    }
+
+    if (picture.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to share this picture",
+      };
+    }
+
+    if (args.studyId) {
+      const study = await ctx.db.get(args.studyId);
+      if (!study || study.pictureId !== args.pictureId) {
+        return {
+          success: false,
+          message: "Study not found for this picture",
+        };
+      }
+    }
+
+    if (args.maxParticipants !== undefined && (!Number.isInteger(args.maxParticipants) || args.maxParticipants < 1)) {
+      return {
+        success: false,
+        message: "Participant cap must be a whole number of at least 1",
+      };
+    }
+
+    if (args.expiresAt !== undefined && args.expiresAt <= Date.now()) {
+      return {
+        success: false,
+        message: "Expiry date must be in the future",
+      };
+    }
+
+    const token = generateToken();
+    await ctx.db.insert("shareLinks", {
+      token,
+      pictureId: args.pictureId,
+      studyId: args.studyId,
+      userId: args.userId,
+      label: args.label?.trim() || undefined,
+      maxParticipants: args.maxParticipants,
+      participantCount: 0,
+      expiresAt: args.expiresAt,
+      createdAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      message: "Share link created",
+      token,
+    };
+  },
+});
+
+// Revoke a share link so it no longer accepts participants
+export const revokeShareLink = mutation({
+  args: {
+    shareLinkId: v.id("shareLinks"),
+    userId: v.id("users"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const link = await ctx.db.get(args.shareLinkId);
+    if (!link) {
+      return {
+        success: false,
+        message: "Share link not found",
+      };
+    }
+
+    if (link.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to revoke this share link",
+      };
+    }
+
+    await ctx.db.patch(args.shareLinkId, { revokedAt: Date.now() });
+
+    return {
+      success: true,
+      message: "Share link revoked",
+    };
+  },
+});
@@ -0,0 +1,422 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+// Questionnaire fields participants can be asked before a study session
+const QUESTIONNAIRE_FIELDS = ["ageRange", "artTraining", "visionCorrection", "handedness"];
+
+const studyValidator = v.object({
+  _id: v.id("studies"),
+  _creationTime: v.number(),
+  pictureId: v.id("pictures"),
+  userId: v.optional(v.id("users")),
+  name: v.string(),
+  description: v.optional(v.string()),
+  consentText: v.optional(v.string()),
+  questionnaireFields: v.optional(v.array(v.string())),
+  createdAt: v.number(),
+  updatedAt: v.optional(v.number()),
+  sessionCount: v.number(),
+});
+
+// Get all studies on a picture
+export const getPictureStudies = query({
+  args: {
+    pictureId: v.id("pictures"),
+  },
+  returns: v.array(studyValidator),
+  handler: async (ctx, args) => {
+    const studies = await ctx.db
+      .query("studies")
+      .withIndex("by_picture", (q) => q.eq("pictureId", args.pictureId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      studies.map(async (study) => {
+        const sessions = await ctx.db
+          .query("experiments")
+          .withIndex("by_study", (q) => q.eq("studyId", study._id))
+          .collect();
+        return { ...study, sessionCount: sessions.length };
+      })
+    );
+  },
+});
+
+// Get all studies created by a user
+export const getUserStudies = query({
+  args: {
+    userId: v.id("users"),
+  },
+  returns: v.array(studyValidator),
+  handler: async (ctx, args) => {
+    const studies = await ctx.db
+      .query("studies")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      studies.map(async (study) => {
+        const sessions = await ctx.db
+          .query("experiments")
+          .withIndex("by_study", (q) => q.eq("studyId", study._id))
+          .collect();
+        return { ...study, sessionCount: sessions.length };
+      })
+    );
+  },
+});
+
+// Get a single study
+export const getStudy = query({
+  args: {
+    studyId: v.id("studies"),
+  },
+  returns: v.union(studyValidator, v.null()),
+  handler: async (ctx, args) => {
+    const study = await ctx.db.get(args.studyId);
+    if (!study) {
+      return null;
+    }
+
+    const sessions = await ctx.db
+      .query("experiments")
+      .withIndex("by_study", (q) => q.eq("studyId", study._id))
+      .collect();
+
+    return { ...study, sessionCount: sessions.length };
+  },
+});
+
+// Get the eye tracking sessions recorded for a study
+export const getStudyExperiments = query({
+  args: {
+    studyId: v.id("studies"),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("experiments"),
+      _creationTime: v.number(),
+      pictureId: v.id("pictures"),
+      userId: v.optional(v.id("users")),
+      experimentType: v.string(),
+      parameters: v.optional(v.any()),
+      eyeTrackingData: v.optional(v.any()),
+      status: v.union(
+        v.literal("pending"),
+        v.literal("processing"),
+        v.literal("completed"),
+        v.literal("failed")
+      ),
+      createdAt: v.number(),
+      completedAt: v.optional(v.number()),
+      participantInfo: v.optional(v.object({
+        consentGivenAt: v.optional(v.number()),
+        ageRange: v.optional(v.string()),
+        artTraining: v.optional(v.string()),
+        visionCorrection: v.optional(v.string()),
+        handedness: v.optional(v.string()),
+      })),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const experiments = await ctx.db
+      .query("experiments")
+      .withIndex("by_study", (q) => q.eq("studyId", args.studyId))
+      .order("asc")
+      .collect();
+
+    return experiments.map((experiment) => ({
+      _id: experiment._id,
+      _creationTime: experiment._creationTime,
+      pictureId: experiment.pictureId,
+      userId: experiment.userId,
+      experimentType: experiment.experimentType,
+      parameters: experiment.parameters,
+      eyeTrackingData: experiment.eyeTrackingData,
+      status: experiment.status,
+      createdAt: experiment.createdAt,
+      completedAt: experiment.completedAt,
+      participantInfo: experiment.participantInfo,
+    }));
+  },
+});
+
+// Create a study on a picture (only the picture owner can create studies)
+export const createStudy = mutation({
+  args: {
+    pictureId: v.id("pictures"),
+    userId: v.optional(v.id("users")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    // Existing eye tracking sessions on the picture to include
+    experimentIds: v.optional(v.array(v.id("experiments"))),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    studyId: v.optional(v.id("studies")),
+  }),
+  handler: async (ctx, args) => {
+    const picture = await ctx.db.get(args.pictureId);
+    if (!picture) {
+      return {
+        success: false,
+        message: "Picture not found",
+      };
+    }
+
+    if (!args.userId || picture.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to create studies on this picture",
+      };
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      return {
+        success: false,
+        message: "Study name is required",
+      };
+    }
+
+    const studyId = await ctx.db.insert("studies", {
+      pictureId: args.pictureId,
+      userId: args.userId,
+      name,
+      description: args.description?.trim() || undefined,
+      createdAt: Date.now(),
+    });
+
+    for (const experimentId of args.experimentIds ?? []) {
+      const experiment = await ctx.db.get(experimentId);
+      if (experiment && experiment.pictureId === args.pictureId && experiment.experimentType === "Eye Tracking") {
+        await ctx.db.patch(experimentId, { studyId });
+      }
+    }
+
+    return {
+      success: true,
+      message: "Study created",
+      studyId,
+    };
+  },
+});
+
+// Rename a study or change its description and participant setup
+export const updateStudy = mutation({
+  args: {
+    studyId: v.id("studies"),
+    userId: v.optional(v.id("users")),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    consentText: v.optional(v.string()),
+    questionnaireFields: v.optional(v.array(v.string())),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const study = await ctx.db.get(args.studyId);
+    if (!study) {
+      return {
+        success: false,
+        message: "Study not found",
+      };
+    }
+
+    if (!args.userId || study.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to edit this study",
+      };
+    }
+
+    const updates: {
+      name?: string;
+      description?: string;
+      consentText?: string;
+      questionnaireFields?: string[];
+      updatedAt: number;
+    } = {
+      updatedAt: Date.now(),
+    };
+    if (args.name !== undefined) {
+      const name = args.name.trim();
+      if (!name) {
+        return {
+          success: false,
+          message: "Study name is required",
+        };
+      }
+      updates.name = name;
+    }
+    if (args.description !== undefined) {
+      updates.description = args.description.trim();
+    }
+    if (args.consentText !== undefined) {
+      updates.consentText = args.consentText.trim();
+    }
+    if (args.questionnaireFields !== undefined) {
+      const unknownField = args.questionnaireFields.find((field) => !QUESTIONNAIRE_FIELDS.includes(field));
+      if (unknownField) {
+        return {
+          success: false,
+          message: `Unknown questionnaire field: ${unknownField}`,
+        };
+      }
+      updates.questionnaireFields = args.questionnaireFields;
+    }
+
+    await ctx.db.patch(args.studyId, updates);
+
+    return {
+      success: true,
+      message: "Study updated",
+    };
+  },
+});
+
+// Add an existing eye tracking session on the study's picture to the study
+export const addExperimentToStudy = mutation({
+  args: {
+    studyId: v.id("studies"),
+    experimentId: v.id("experiments"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const study = await ctx.db.get(args.studyId);
+    if (!study) {
+      return {
+        success: false,
+        message: "Study not found",
+      };
+    }
+
+    if (!args.userId || study.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to edit this study",
+      };
+    }
+
+    const experiment = await ctx.db.get(args.experimentId);
+    if (!experiment || experiment.pictureId !== study.pictureId) {
+      return {
+        success: false,
+        message: "Experiment not found on this study's picture",
+      };
+    }
+
+    if (experiment.experimentType !== "Eye Tracking") {
+      return {
+        success: false,
+        message: "Only eye tracking sessions can be added to a study",
+      };
+    }
+
+    await ctx.db.patch(args.experimentId, { studyId: args.studyId });
+
+    return {
+      success: true,
+      message: "Session added to study",
+    };
+  },
+});
+
+// Remove a session from its study (the experiment itself is kept)
+export const removeExperimentFromStudy = mutation({
+  args: {
+    experimentId: v.id("experiments"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const experiment = await ctx.db.get(args.experimentId);
+    if (!experiment || !experiment.studyId) {
+      return {
+        success: false,
+        message: "Session is not part of a study",
+      };
+    }
+
+    const study = await ctx.db.get(experiment.studyId);
+    if (study && (!args.userId || study.userId !== args.userId)) {
+      return {
+        success: false,
+        message: "Not authorized to edit this study",
+      };
+    }
+
+    await ctx.db.patch(args.experimentId, { studyId: undefined });
+
+    return {
+      success: true,
+      message: "Session removed from study",
+    };
+  },
+});
+
+// Delete a study and its share links. Its sessions are unlinked but not deleted.
+export const deleteStudy = mutation({
+  args: {
+    studyId: v.id("studies"),
+    userId: v.optional(v.id("users")),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const study = await ctx.db.get(args.studyId);
+    if (!study) {
+      return {
+        success: false,
+        message: "Study not found",
+      };
+    }
+
+    if (!args.userId || study.userId !== args.userId) {
+      return {
+        success: false,
+        message: "Not authorized to delete this study",
+      };
+    }
+
+    const sessions = await ctx.db
+      .query("experiments")
+      .withIndex("by_study", (q) => q.eq("studyId", args.studyId))
+      .collect();
+
+    for (const session of sessions) {
+      await ctx.db.patch(session._id, { studyId: undefined });
+    }
+
+    // Share links for the study stop working with it
+    const shareLinks = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_study", (q) => q.eq("studyId", args.studyId))
+      .collect();
+
+    for (const link of shareLinks) {
+      await ctx.db.delete(link._id);
+    }
+
+    await ctx.db.delete(args.studyId);
+
+    return {
+      success: true,
+      message: "Study deleted",
+    };
+  },
+});
@@ -295,6 +295,22 @@ export const deleteAccount = mutation({
       errors.push(errorMsg);
     }
 
+    // Delete saved calibrations
+    try {
+      const calibrations = await ctx.db
+        .query("calibrations")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .collect();
+
+      for (const calibration of calibrations) {
+        await ctx.db.delete(calibration._id);
+      }
+    } catch (e) {
+      const errorMsg = `Error deleting calibrations: ${e}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+    }
+
     // 2. Handle pictures
     try {
       let pictures;
@@ -334,6 +350,36 @@ export const deleteAccount = mutation({
             console.log(`Error deleting experiments for picture ${picture._id}:`, e);
           }
 
+          // Delete areas of interest drawn on the picture
+          const pictureAreasOfInterest = await ctx.db
+            .query("areasOfInterest")
+            .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+            .collect();
+
+          for (const aoi of pictureAreasOfInterest) {
+            await ctx.db.delete(aoi._id);
+          }
+
+          // Delete studies on the picture
+          const pictureStudies = await ctx.db
+            .query("studies")
+            .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+            .collect();
+
+          for (const study of pictureStudies) {
+            await ctx.db.delete(study._id);
+          }
+
+          // Delete share links to the picture
+          const pictureShareLinks = await ctx.db
+            .query("shareLinks")
+            .withIndex("by_picture", (q) => q.eq("pictureId", picture._id))
+            .collect();
+
+          for (const link of pictureShareLinks) {
+            await ctx.db.delete(link._id);
+          }
+
           // Delete the file from storage
           try {
             await ctx.storage.delete(picture.fileId);
@@ -0,0 +1,126 @@
+import { v } from "convex/values";
+
+// Validators for eye tracking data, shared by the schema and the functions that read and
+// write it so the stored shape is defined once
+
+// Head pose quality flag of a gaze sample (see src/utils/headPose.ts)
+export const trackingQualityValidator = v.union(
+  v.literal("good"),
+  v.literal("no-face"),
+  v.literal("face-edge"),
+  v.literal("head-turned"),
+  v.literal("too-close"),
+  v.literal("too-far")
+);
+
+// Saccade between two fixations (see src/utils/saccadeDetection.ts)
+export const saccadeValidator = v.object({
+  startX: v.number(),
+  startY: v.number(),
+  endX: v.number(),
+  endY: v.number(),
+  startTime: v.number(),
+  duration: v.number(),
+  amplitude: v.number(),
+  amplitudeDeg: v.optional(v.number()),
+  direction: v.number(),
+  peakVelocity: v.number(),
+});
+
+// Drift check logged during an eye tracking session (offsets in viewport pixels)
+export const driftCorrectionValidator = v.object({
+  timestamp: v.number(),
+  targetX: v.number(),
+  targetY: v.number(),
+  offsetX: v.number(),
+  offsetY: v.number(),
+  errorDeg: v.number(),
+  sampleCount: v.number(),
+  action: v.union(v.literal("none"), v.literal("corrected"), v.literal("recalibrated"), v.literal("skipped")),
+  correctionX: v.number(),
+  correctionY: v.number(),
+});
+
+// Blink or track loss: an interval without usable gaze samples (see src/utils/gazeGaps.ts)
+export const gazeGapValidator = v.object({
+  startTime: v.number(),
+  endTime: v.number(),
+  duration: v.number(),
+  type: v.union(v.literal("blink"), v.literal("track-loss")),
+});
+
+// Gaze sample in viewport pixels, before smoothing and mapping to the image
+export const rawGazePointValidator = v.object({
+  x: v.number(),
+  y: v.number(),
+  timestamp: v.number(),
+  confidence: v.optional(v.number()),
+  quality: v.optional(trackingQualityValidator),
+});
+
+// Layout the raw gaze stream was mapped with, so it can be mapped again later
+export const gazeMappingContextValidator = v.object({
+  imageBounds: v.object({
+    x: v.number(),
+    y: v.number(),
+    width: v.number(),
+    height: v.number(),
+    naturalWidth: v.number(),
+    naturalHeight: v.number(),
+  }),
+  viewportWidth: v.number(),
+  viewportHeight: v.number(),
+  scrollX: v.number(),
+  scrollY: v.number(),
+  devicePixelRatio: v.number(),
+  calibrationDomain: v.optional(v.object({
+    minX: v.number(),
+    maxX: v.number(),
+    minY: v.number(),
+    maxY: v.number(),
+  })),
+  gazeFilter: v.optional(v.object({
+    mode: v.union(v.literal("none"), v.literal("kalman"), v.literal("ema"), v.literal("one-euro")),
+    emaAlpha: v.number(),
+    oneEuroMinCutoff: v.number(),
+    oneEuroBeta: v.number(),
+    oneEuroDCutoff: v.number(),
+  })),
+});
+
+// Eye tracking results of one session; points are in natural image pixels unless noted
+export const eyeTrackingDataValidator = v.object({
+  gazePoints: v.array(v.object({
+    x: v.number(),
+    y: v.number(),
+    timestamp: v.number(),
+    confidence: v.optional(v.number()),
+    quality: v.optional(trackingQualityValidator),
+  })),
+  heatmapData: v.optional(v.any()),
+  fixationPoints: v.optional(v.array(v.object({
+    x: v.number(),
+    y: v.number(),
+    duration: v.number(),
+    startTime: v.number(),
+  }))),
+  saccades: v.optional(v.array(saccadeValidator)),
+  scanPath: v.optional(v.array(v.object({
+    x: v.number(),
+    y: v.number(),
+    timestamp: v.number(),
+    confidence: v.optional(v.number()),
+    quality: v.optional(trackingQualityValidator),
+  }))),
+  sessionDuration: v.optional(v.number()),
+  // Drift checks during the session: measured offset and what was done about it
+  driftCorrections: v.optional(v.array(driftCorrectionValidator)),
+  // Blinks and track loss: intervals without usable gaze samples
+  gaps: v.optional(v.array(gazeGapValidator)),
+  // Gaze stream in viewport pixels before smoothing, drift correction, mapping and validation
+  // (WebGazer's own Kalman filter has run when it was the selected filter), with the layout and
+  // filter it was processed with, so old sessions can be analysed again
+  rawGazePoints: v.optional(v.array(rawGazePointValidator)),
+  mappingContext: v.optional(gazeMappingContextValidator),
+  calibrationData: v.optional(v.any()),
+});
@@ -13,6 +13,9 @@ import { Dashboard } from './pages/Dashboard'
 import { Upload } from './pages/Upload'
 import { ExperimentDetails } from './pages/ExperimentDetails'
 import { PictureExperiments } from './pages/PictureExperiments'
+import { StudyDetails } from './pages/StudyDetails'
+import { HeatmapComparison } from './pages/HeatmapComparison'
+import { ParticipateStudy } from './pages/ParticipateStudy'
 import { EyeTrackingExperiment } from './pages/EyeTrackingExperiment'
 import { CalibrationLab } from './pages/CalibrationLab'
 import { MyPictures } from './pages/MyPictures'
@@ -76,6 +79,21 @@ function App() {
               <PictureExperiments />
             </ErrorBoundary>
           } />
+          <Route path="/studies/:studyId" element={
+            <ErrorBoundary>
+              <StudyDetails />
+            </ErrorBoundary>
+          } />
+          <Route path="/compare-heatmaps" element={
+            <ErrorBoundary>
+              <HeatmapComparison />
+            </ErrorBoundary>
+          } />
+          <Route path="/participate/:token" element={
+            <ErrorBoundary>
+              <ParticipateStudy />
+            </ErrorBoundary>
+          } />
           <Route path="/eye-tracking-experiment" element={<EyeTrackingExperiment />} />
           <Route path="/calibration-lab" element={<CalibrationLab />} />
           <Route path="/tips" element={<EyeTrackingTips />} />
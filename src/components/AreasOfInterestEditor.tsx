@@ -0,0 +1,369 @@
+import { useState, useRef, useMemo } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Square, Hexagon, Trash2, Pencil, Check, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  AOIPoint,
+  AOIShape,
+  AreaOfInterest,
+  AOISessionData,
+  computeAOIMetrics,
+  rectangleFromCorners
+} from '../utils/aoiMetrics'
+
+// Colors cycled through as new AOIs are added
+const AOI_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
+
+interface AreasOfInterestEditorProps {
+  pictureId: string
+  imageUrl: string
+  // Completed eye tracking experiments on this picture
+  experiments: Array<{ _id: string; eyeTrackingData?: AOISessionData }>
+  // Only the picture owner can add, rename or delete AOIs
+  canEdit: boolean
+  userId?: string | null
+}
+
+export function AreasOfInterestEditor({ pictureId, imageUrl, experiments, canEdit, userId }: AreasOfInterestEditorProps) {
+  const areasOfInterest = useQuery(api.areasOfInterest.getPictureAreasOfInterest, { pictureId: pictureId as any })
+  const createAreaOfInterest = useMutation(api.areasOfInterest.createAreaOfInterest)
+  const updateAreaOfInterest = useMutation(api.areasOfInterest.updateAreaOfInterest)
+  const deleteAreaOfInterest = useMutation(api.areasOfInterest.deleteAreaOfInterest)
+
+  const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null)
+  const [drawMode, setDrawMode] = useState<AOIShape | null>(null)
+  const [draftPoints, setDraftPoints] = useState<AOIPoint[]>([])
+  const [dragStart, setDragStart] = useState<AOIPoint | null>(null)
+  const [pendingShape, setPendingShape] = useState<{ shape: AOIShape, points: AOIPoint[] } | null>(null)
+  const [pendingName, setPendingName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const aois: AreaOfInterest[] = useMemo(() => (areasOfInterest || []).map((aoi: any) => ({
+    _id: aoi._id,
+    name: aoi.name,
+    shape: aoi.shape,
+    points: aoi.points,
+    color: aoi.color
+  })), [areasOfInterest])
+
+  const sessions = useMemo(() => experiments
+    .map(exp => exp.eyeTrackingData)
+    .filter((data): data is AOISessionData => !!data && Array.isArray(data.gazePoints)),
+  [experiments])
+
+  const metrics = useMemo(() => computeAOIMetrics(aois, sessions), [aois, sessions])
+
+  // Convert a mouse event to natural image coordinates
+  const toImagePoint = (event: React.MouseEvent): AOIPoint | null => {
+    if (!svgRef.current || !naturalSize) return null
+    const rect = svgRef.current.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * naturalSize.width,
+      y: ((event.clientY - rect.top) / rect.height) * naturalSize.height
+    }
+  }
+
+  const resetDrawing = () => {
+    setDrawMode(null)
+    setDraftPoints([])
+    setDragStart(null)
+    setPendingShape(null)
+    setPendingName('')
+  }
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (drawMode !== 'rectangle' || pendingShape) return
+    const point = toImagePoint(event)
+    if (!point) return
+    setDragStart(point)
+    setDraftPoints(rectangleFromCorners(point, point))
+  }
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (drawMode !== 'rectangle' || !dragStart) return
+    const point = toImagePoint(event)
+    if (!point) return
+    setDraftPoints(rectangleFromCorners(dragStart, point))
+  }
+
+  const handleMouseUp = (event: React.MouseEvent) => {
+    if (drawMode !== 'rectangle' || !dragStart) return
+    const point = toImagePoint(event)
+    setDragStart(null)
+    if (!point) return
+    const corners = rectangleFromCorners(dragStart, point)
+    // Ignore accidental clicks that don't span an area
+    if (Math.abs(point.x - dragStart.x) < 5 || Math.abs(point.y - dragStart.y) < 5) {
+      setDraftPoints([])
+      return
+    }
+    setPendingShape({ shape: 'rectangle', points: corners })
+  }
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (drawMode !== 'polygon' || pendingShape) return
+    const point = toImagePoint(event)
+    if (!point) return
+    setDraftPoints(prev => [...prev, point])
+  }
+
+  const finishPolygon = () => {
+    if (draftPoints.length < 3) {
+      toast.error('A polygon needs at least 3 points')
+      return
+    }
+    setPendingShape({ shape: 'polygon', points: draftPoints })
+  }
+
+  const handleSave = async () => {
+    if (!pendingShape) return
+    if (!pendingName.trim()) {
+      toast.error('Please name this area of interest')
+      return
+    }
+    setIsSaving(true)
+    try {
+      const result = await createAreaOfInterest({
+        pictureId: pictureId as any,
+        userId: (userId || undefined) as any,
+        name: pendingName,
+        shape: pendingShape.shape,
+        points: pendingShape.points,
+        color: AOI_COLORS[aois.length % AOI_COLORS.length]
+      })
+      if (result.success) {
+        toast.success(`Added "${pendingName.trim()}"`)
+        resetDrawing()
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to save area of interest: ${error.message || 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRename = async (aoi: AreaOfInterest) => {
+    const name = window.prompt('Rename area of interest', aoi.name)
+    if (name === null || name.trim() === aoi.name) return
+    try {
+      const result = await updateAreaOfInterest({
+        aoiId: aoi._id as any,
+        userId: (userId || undefined) as any,
+        name
+      })
+      if (!result.success) toast.error(result.message)
+    } catch (error: any) {
+      toast.error(`Failed to rename area of interest: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDelete = async (aoi: AreaOfInterest) => {
+    if (!window.confirm(`Delete "${aoi.name}"? This action cannot be undone.`)) return
+    try {
+      const result = await deleteAreaOfInterest({
+        aoiId: aoi._id as any,
+        userId: (userId || undefined) as any
+      })
+      if (!result.success) toast.error(result.message)
+    } catch (error: any) {
+      toast.error(`Failed to delete area of interest: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const toPolygonPoints = (points: AOIPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ')
+  const formatMs = (value: number | null) => value === null ? '—' : `${Math.round(value)}ms`
+  // Stroke width in natural pixels that renders at roughly 2 screen pixels
+  const strokeWidth = naturalSize ? Math.max(2, naturalSize.width / 400) : 2
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => { resetDrawing(); setDrawMode('rectangle') }}
+            className={`btn btn-sm ${drawMode === 'rectangle' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <Square className="h-4 w-4 mr-2" />
+            Rectangle
+          </button>
+          <button
+            onClick={() => { resetDrawing(); setDrawMode('polygon') }}
+            className={`btn btn-sm ${drawMode === 'polygon' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <Hexagon className="h-4 w-4 mr-2" />
+            Polygon
+          </button>
+          {drawMode === 'polygon' && !pendingShape && (
+            <button onClick={finishPolygon} className="btn btn-sm btn-outline" disabled={draftPoints.length < 3}>
+              <Check className="h-4 w-4 mr-2" />
+              Finish Polygon
+            </button>
+          )}
+          {drawMode && (
+            <button onClick={resetDrawing} className="btn btn-sm btn-outline">
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </button>
+          )}
+          <span className="text-xs text-gray-500">
+            {drawMode === 'rectangle' && !pendingShape && 'Drag on the image to draw a rectangle'}
+            {drawMode === 'polygon' && !pendingShape && 'Click on the image to add vertices'}
+          </span>
+        </div>
+      )}
+
+      {pendingShape && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={pendingName}
+            onChange={(e) => setPendingName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave() }}
+            placeholder='Name, e.g. "face" or "horizon"'
+            className="input flex-1"
+            autoFocus
+          />
+          <button onClick={handleSave} className="btn btn-sm btn-primary" disabled={isSaving}>
+            Save
+          </button>
+        </div>
+      )}
+
+      <div className="relative">
+        <img
+          src={imageUrl}
+          alt="Areas of interest"
+          className="w-full h-auto rounded-lg select-none"
+          draggable={false}
+          onLoad={(e) => setNaturalSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight
+          })}
+        />
+        {naturalSize && (
+          <svg
+            ref={svgRef}
+            className={`absolute inset-0 w-full h-full ${drawMode && !pendingShape ? 'cursor-crosshair' : ''}`}
+            viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+            preserveAspectRatio="none"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onClick={handleClick}
+          >
+            {aois.map((aoi, index) => {
+              const color = aoi.color || AOI_COLORS[index % AOI_COLORS.length]
+              return (
+                <g key={aoi._id}>
+                  <polygon
+                    points={toPolygonPoints(aoi.points)}
+                    fill={color}
+                    fillOpacity={0.2}
+                    stroke={color}
+                    strokeWidth={strokeWidth}
+                  />
+                  <text
+                    x={aoi.points[0].x + strokeWidth * 2}
+                    y={aoi.points[0].y + strokeWidth * 8}
+                    fill={color}
+                    fontSize={strokeWidth * 8}
+                    fontWeight="bold"
+                  >
+                    {aoi.name}
+                  </text>
+                </g>
+              )
+            })}
+            {draftPoints.length > 0 && (
+              <polygon
+                points={toPolygonPoints(draftPoints)}
+                fill="#ffffff"
+                fillOpacity={0.15}
+                stroke="#ffffff"
+                strokeWidth={strokeWidth}
+                strokeDasharray={`${strokeWidth * 3} ${strokeWidth * 2}`}
+              />
+            )}
+          </svg>
+        )}
+      </div>
+
+      {aois.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Area</th>
+                <th className="py-2 pr-2">Hit Ratio</th>
+                <th className="py-2 pr-2">Time to First Fixation</th>
+                <th className="py-2 pr-2">Dwell Time</th>
+                <th className="py-2 pr-2">Fixations</th>
+                <th className="py-2 pr-2">Revisits</th>
+                {canEdit && <th className="py-2"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {aois.map((aoi, index) => {
+                const aoiMetrics = metrics[index]
+                return (
+                  <tr key={aoi._id} className="border-b border-gray-100">
+                    <td className="py-2 pr-2">
+                      <span className="inline-flex items-center space-x-2">
+                        <span
+                          className="inline-block w-3 h-3 rounded-sm"
+                          style={{ backgroundColor: aoi.color || AOI_COLORS[index % AOI_COLORS.length] }}
+                        />
+                        <span className="font-medium text-gray-900">{aoi.name}</span>
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      {aoiMetrics.sessionCount > 0
+                        ? `${Math.round(aoiMetrics.hitRatio * 100)}% (${aoiMetrics.hitCount}/${aoiMetrics.sessionCount})`
+                        : '—'}
+                    </td>
+                    <td className="py-2 pr-2 font-mono">{formatMs(aoiMetrics.averageTimeToFirstFixation)}</td>
+                    <td className="py-2 pr-2 font-mono">{formatMs(aoiMetrics.sessionCount > 0 ? aoiMetrics.averageDwellTime : null)}</td>
+                    <td className="py-2 pr-2 font-mono">{aoiMetrics.averageFixationCount.toFixed(1)}</td>
+                    <td className="py-2 pr-2 font-mono">{aoiMetrics.averageRevisits.toFixed(1)}</td>
+                    {canEdit && (
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleRename(aoi)}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Rename"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(aoi)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">
+            Averages across {sessions.length} eye tracking session{sessions.length !== 1 ? 's' : ''}.
+            Time to first fixation is averaged over sessions that fixated the area.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 text-center py-4">
+          {canEdit
+            ? 'No areas of interest yet. Draw a rectangle or polygon on the image to define one.'
+            : 'No areas of interest have been defined for this picture.'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { webgazerManager } from '../utils/webgazerManager'
+import {
+  CalibrationValidation,
+  ValidationPointResult,
+  generateValidationTargets,
+  summarizeValidation
+} from '../utils/calibrationValidation'
+
+interface CalibrationValidationOverlayProps {
+  onComplete: (validation: CalibrationValidation) => void
+}
+
+// Full-screen validation step shown after the click calibration: one target at a time,
+// the participant only looks at it (no clicks, so the model is not trained on these points)
+export function CalibrationValidationOverlay({ onComplete }: CalibrationValidationOverlayProps) {
+  // Targets lie inside the region the calibration points covered (the picture for an image-focused grid)
+  const [targets] = useState(() => generateValidationTargets(
+    webgazerManager.getCalibrationGrid()?.region ?? { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight }
+  ))
+  const [currentIndex, setCurrentIndex] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const run = async () => {
+      const results: ValidationPointResult[] = []
+      for (let i = 0; i < targets.length; i++) {
+        if (cancelled) return
+        setCurrentIndex(i)
+        results.push(await webgazerManager.measureValidationTarget(targets[i]))
+      }
+      if (!cancelled) {
+        onComplete(summarizeValidation(results, { width: window.innerWidth, height: window.innerHeight }))
+      }
+    }
+
+    run()
+    return () => {
+      cancelled = true
+    }
+    // Runs once per mount; onComplete is read when the sequence finishes
+  }, [targets])
+
+  const target = targets[currentIndex]
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-90 pointer-events-none">
+      <div className="absolute top-8 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg text-center">
+        <div className="text-lg font-semibold">Checking accuracy</div>
+        <div className="text-sm">
+          Look at the center of the dot without clicking ({currentIndex + 1}/{targets.length})
+        </div>
+      </div>
+      {target && (
+        <div
+          key={currentIndex}
+          className="absolute"
+          style={{ left: `${target.x}px`, top: `${target.y}px`, transform: 'translate(-50%, -50%)' }}
+        >
+          <div className="h-10 w-10 rounded-full bg-yellow-400 animate-pulse flex items-center justify-center">
+            <div className="h-2 w-2 rounded-full bg-gray-900" />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
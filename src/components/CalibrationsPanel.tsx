@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Crosshair, Pencil, Trash2, Check, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface CalibrationsPanelProps {
+  userId: string
+}
+
+// Short browser name for the device column, e.g. "Chrome on MacIntel"
+function describeDevice(device: { userAgent: string; platform?: string }) {
+  const browser = /Edg\//.test(device.userAgent) ? 'Edge'
+    : /Firefox\//.test(device.userAgent) ? 'Firefox'
+    : /Chrome\//.test(device.userAgent) ? 'Chrome'
+    : /Safari\//.test(device.userAgent) ? 'Safari'
+    : 'Browser'
+  return device.platform ? `${browser} on ${device.platform}` : browser
+}
+
+export function CalibrationsPanel({ userId }: CalibrationsPanelProps) {
+  const calibrations = useQuery(api.calibrations.getUserCalibrations, { userId: userId as any })
+  const renameCalibration = useMutation(api.calibrations.renameCalibration)
+  const deleteCalibration = useMutation(api.calibrations.deleteCalibration)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+
+  const startEditing = (calibrationId: string, name: string) => {
+    setEditingId(calibrationId)
+    setEditName(name)
+  }
+
+  const handleRename = async (calibrationId: string) => {
+    try {
+      const result = await renameCalibration({ calibrationId: calibrationId as any, userId: userId as any, name: editName })
+      if (result.success) {
+        setEditingId(null)
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to rename calibration: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDelete = async (calibrationId: string, experimentCount: number) => {
+    const warning = experimentCount > 0
+      ? ` ${experimentCount} experiment${experimentCount === 1 ? '' : 's'} recorded with it will keep their gaze data.`
+      : ''
+    if (!window.confirm(`Delete this calibration?${warning}`)) return
+    try {
+      const result = await deleteCalibration({ calibrationId: calibrationId as any, userId: userId as any })
+      if (result.success) {
+        toast.success('Calibration deleted')
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to delete calibration: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title flex items-center">
+          <Crosshair className="h-5 w-5 mr-2" />
+          Saved Calibrations
+        </h2>
+        <p className="card-description">
+          Calibrations are saved after validation and can be picked again before a session. They work best on the
+          same device, camera and screen they were recorded with.
+        </p>
+      </div>
+      <div className="card-content">
+        {calibrations === undefined ? (
+          <div className="text-sm text-gray-600">Loading calibrations...</div>
+        ) : calibrations.length === 0 ? (
+          <p className="text-sm text-gray-600">No saved calibrations yet. Complete a calibration while logged in to save one.</p>
+        ) : (
+          <div className="space-y-2">
+            {calibrations.map((calibration: any) => (
+              <div key={calibration._id} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center justify-between">
+                  {editingId === calibration._id ? (
+                    <div className="flex items-center space-x-2 flex-1 mr-2">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename(calibration._id)}
+                        className="input flex-1"
+                        autoFocus
+                      />
+                      <button onClick={() => handleRename(calibration._id)} className="btn btn-outline btn-sm">
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="btn btn-outline btn-sm">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{calibration.name}</span>
+                      {calibration.validationPassed !== undefined && (
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          calibration.validationPassed ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {calibration.validationPassed ? 'Validated' : 'Low accuracy'}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {editingId !== calibration._id && (
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => startEditing(calibration._id, calibration.name)} className="btn btn-outline btn-sm">
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Rename
+                      </button>
+                      <button onClick={() => handleDelete(calibration._id, calibration.experimentCount)} className="btn btn-outline btn-sm">
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {calibration.gridLabel ?? `${calibration.gridPointCount ?? '?'} points`}
+                  {typeof calibration.meanErrorDeg === 'number' && ` • ${calibration.meanErrorDeg.toFixed(1)}° mean error`}
+                  {typeof calibration.meanPrecisionDeg === 'number' && ` • ${calibration.meanPrecisionDeg.toFixed(2)}° precision`}
+                  {` • ${calibration.experimentCount} experiment${calibration.experimentCount === 1 ? '' : 's'}`}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeDevice(calibration.device)} • {calibration.screen.viewportWidth}×{calibration.screen.viewportHeight} viewport
+                  {` • Created ${new Date(calibration.createdAt).toLocaleDateString()}`}
+                  {calibration.lastUsedAt && ` • Last used ${new Date(calibration.lastUsedAt).toLocaleDateString()}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
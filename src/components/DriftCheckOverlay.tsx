@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react'
+import { Crosshair, RefreshCw } from 'lucide-react'
+import { webgazerManager } from '../utils/webgazerManager'
+import { ValidationPointResult, ValidationTarget } from '../utils/calibrationValidation'
+import { generateCalibrationPoints } from '../utils/calibrationGrids'
+import { createDriftEvent, evaluateDrift, DriftCorrectionEvent } from '../utils/driftCorrection'
+
+interface DriftCheckOverlayProps {
+  target: ValidationTarget
+  onComplete: (event: DriftCorrectionEvent) => void
+}
+
+type DriftCheckPhase = 'measuring' | 'prompt' | 'recalibrating'
+
+// Mid-session drift check: the participant looks at one target; small offsets are corrected
+// automatically, large ones offer a quick 5-point recalibration
+export function DriftCheckOverlay({ target, onComplete }: DriftCheckOverlayProps) {
+  const [phase, setPhase] = useState<DriftCheckPhase>('measuring')
+  const [measurement, setMeasurement] = useState<ValidationPointResult | null>(null)
+  const [recalibrationPoints] = useState(() =>
+    generateCalibrationPoints({ type: 'preset', pointCount: 5 }, { width: window.innerWidth, height: window.innerHeight }).points
+  )
+  const [clickedPoints, setClickedPoints] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    let cancelled = false
+
+    webgazerManager.measureValidationTarget(target).then(result => {
+      if (cancelled) return
+      const decision = evaluateDrift(result)
+      const correction = webgazerManager.getDriftCorrection()
+
+      if (decision === 'recalibrate') {
+        setMeasurement(result)
+        setPhase('prompt')
+      } else {
+        onComplete(createDriftEvent(result, decision === 'correct' ? 'corrected' : decision, correction))
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+    // Measures once per mount; onComplete is read when the measurement finishes
+  }, [target])
+
+  const handleRecalibrationClick = (index: number, point: { x: number; y: number }) => {
+    if (clickedPoints.has(index) || !measurement) return
+    webgazerManager.recordCalibrationClick(point.x, point.y)
+    const next = new Set(clickedPoints).add(index)
+    setClickedPoints(next)
+    if (next.size === recalibrationPoints.length) {
+      onComplete(createDriftEvent(measurement, 'recalibrated', webgazerManager.getDriftCorrection()))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-90">
+      {phase === 'measuring' && (
+        <>
+          <div className="absolute top-8 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg text-center">
+            <div className="text-lg font-semibold">Quick check</div>
+            <div className="text-sm">Look at the center of the dot</div>
+          </div>
+          <div
+            className="absolute"
+            style={{ left: `${target.x}px`, top: `${target.y}px`, transform: 'translate(-50%, -50%)' }}
+          >
+            <div className="h-10 w-10 rounded-full bg-yellow-400 animate-pulse flex items-center justify-center">
+              <div className="h-2 w-2 rounded-full bg-gray-900" />
+            </div>
+          </div>
+        </>
+      )}
+
+      {phase === 'prompt' && measurement && (
+        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-lg p-6 max-w-md text-center space-y-4">
+          <Crosshair className="h-8 w-8 mx-auto text-orange-500" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Tracking has drifted</h3>
+            <p className="text-sm text-gray-600">
+              Your gaze is off by about {measurement.errorDeg?.toFixed(1)}°, probably because your head moved.
+              A quick recalibration takes five clicks.
+            </p>
+          </div>
+          <div className="flex items-center justify-center space-x-3">
+            <button
+              onClick={() => onComplete(createDriftEvent(measurement, 'corrected', webgazerManager.getDriftCorrection()))}
+              className="btn btn-outline btn-sm"
+            >
+              Correct and continue
+            </button>
+            <button onClick={() => setPhase('recalibrating')} className="btn btn-primary btn-sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Quick recalibration
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase === 'recalibrating' && (
+        <>
+          <div className="absolute top-8 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg text-center pointer-events-none">
+            <div className="text-lg font-semibold">Look at each red dot and click it once</div>
+            <div className="text-sm">{clickedPoints.size} of {recalibrationPoints.length} done</div>
+          </div>
+          {recalibrationPoints.map((point, index) => (
+            <button
+              key={index}
+              onClick={() => handleRecalibrationClick(index, point)}
+              className={`absolute h-10 w-10 rounded-full ${clickedPoints.has(index) ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}
+              style={{ left: `${point.x}px`, top: `${point.y}px`, transform: 'translate(-50%, -50%)' }}
+              disabled={clickedPoints.has(index)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,49 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
-import { Eye, BarChart3, Map, Activity, Download } from 'lucide-react'
-import { APP_CONFIG } from '../constants'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Eye, BarChart3, Map, Activity, Download, Zap, PlayCircle, Palette, Workflow } from 'lucide-react'
+import { APP_CONFIG, EYE_TRACKING_EXPERIMENT } from '../constants'
+import { GazeReplay } from './GazeReplay'
+import {
+  detectFixations,
+  describeFixationParams,
+  resolveFixationParams,
+  FixationAlgorithm,
+  FixationDetectionParams,
+  FIXATION_ALGORITHM_LABELS
+} from '../utils/fixationDetection'
+import { detectSaccades, summarizeSaccades, directionLabel, Saccade } from '../utils/saccadeDetection'
+import { summarizeGaps, GazeGap } from '../utils/gazeGaps'
+import { DriftCorrectionEvent } from '../utils/driftCorrection'
+import { GazeMappingContext, GazePoint as ViewportGazePoint } from '../utils/webgazerManager'
+import { reprocessRawGazePoints } from '../utils/sessionResults'
+import {
+  applyGazeFilter,
+  describeGazeFilter,
+  DEFAULT_GAZE_FILTER_SETTINGS,
+  GAZE_FILTER_LABELS,
+  GazeFilterMode,
+  GazeFilterSettings
+} from '../utils/gazeFilters'
+import { analyzeComposition, formatCompositionName } from '../utils/compositionAnalysis'
+import {
+  COMPOSITION_GUIDES,
+  fixationsOnGuides,
+  guideBandWidth,
+  scoreCompositionAlignment
+} from '../utils/compositionGuides'
+import { computeAttentionFlow, createThirdsGrid, FlowRegion } from '../utils/attentionFlow'
+import { AreaOfInterest } from '../utils/aoiMetrics'
+import { computeGazeStatistics, describeDispersion, DISPERSION_LABELS } from '../utils/gazeStatistics'
+import {
+  computeHeatmap,
+  renderHeatmap,
+  isHeatmapGrid,
+  colormapGradient,
+  HeatmapGrid,
+  HeatmapColormap,
+  HeatmapMode,
+  HeatmapWeighting,
+  HEATMAP_COLORMAP_LABELS
+} from '../utils/heatmap'
 
 interface GazePoint {
   x: number
@@ -19,9 +62,16 @@ interface FixationPoint {
 interface EyeTrackingData {
   gazePoints: GazePoint[]
   fixationPoints: FixationPoint[]
+  saccades?: Saccade[]
   scanPath: GazePoint[]
   sessionDuration: number
-  heatmapData?: number[][]
+  heatmapData?: HeatmapGrid | null
+  // Blinks and track loss (absent for older experiments)
+  gaps?: GazeGap[]
+  driftCorrections?: DriftCorrectionEvent[]
+  // Unsmoothed viewport stream and the layout it was mapped with (absent for older experiments)
+  rawGazePoints?: ViewportGazePoint[]
+  mappingContext?: GazeMappingContext
 }
 
 interface EyeTrackingResultsProps {
@@ -29,15 +79,48 @@ interface EyeTrackingResultsProps {
   imageUrl: string
   imageWidth: number
   imageHeight: number
+  // Fixation detection parameters recorded with the experiment (absent for older experiments)
+  fixationDetection?: FixationDetectionParams
+  // Smoothing applied while recording (absent for older experiments)
+  gazeFilter?: GazeFilterSettings
+  // Composition classifier output for the picture (absent until it has been classified)
+  compositionProbabilities?: Record<string, number>
+  // Areas of interest defined on the picture, offered as regions in the flow tab
+  areasOfInterest?: AreaOfInterest[]
 }
 
 export function EyeTrackingResults({ 
   data, 
   imageUrl, 
   imageWidth, 
-  imageHeight 
+  imageHeight,
+  fixationDetection,
+  gazeFilter,
+  compositionProbabilities,
+  areasOfInterest
 }: EyeTrackingResultsProps) {
-  const [activeTab, setActiveTab] = useState<'heatmap' | 'scanpath' | 'fixations' | 'stats'>('heatmap')
+  const [activeTab, setActiveTab] = useState<'heatmap' | 'scanpath' | 'fixations' | 'saccades' | 'composition' | 'flow' | 'replay' | 'stats'>('heatmap')
+  // 'recorded' shows the fixations saved with the experiment; any other value re-runs detection
+  const [fixationAlgorithm, setFixationAlgorithm] = useState<'recorded' | FixationAlgorithm>('recorded')
+  // 'recorded' uses the gaze points as stored; any other mode smooths the unsmoothed stream
+  // post-hoc before detection (or, for older experiments, the stored points)
+  const [smoothingMode, setSmoothingMode] = useState<'recorded' | GazeFilterMode>('recorded')
+  // Composition whose guides are drawn; null follows the classifier
+  const [guideComposition, setGuideComposition] = useState<string | null>(null)
+  // Regions for the flow tab: the rule-of-thirds grid or the picture's areas of interest
+  const [flowRegionSource, setFlowRegionSource] = useState<'thirds' | 'aoi'>('thirds')
+  // Heatmap display settings - start from the stored grid's settings when there is one
+  const [heatmapColormap, setHeatmapColormap] = useState<HeatmapColormap>('jet')
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>('color')
+  const [heatmapOpacity, setHeatmapOpacity] = useState(0.6)
+  const [heatmapWeighting, setHeatmapWeighting] = useState<HeatmapWeighting>(
+    isHeatmapGrid(data.heatmapData) ? data.heatmapData.weighting : 'gaze'
+  )
+  const [bandwidthPercent, setBandwidthPercent] = useState<number>(
+    isHeatmapGrid(data.heatmapData)
+      ? Math.round((data.heatmapData.bandwidth / data.heatmapData.imageWidth) * 1000) / 10
+      : EYE_TRACKING_EXPERIMENT.HEATMAP_BANDWIDTH_PERCENT
+  )
   const [showOverlay] = useState(true)
   const [imageLoaded, setImageLoaded] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -96,6 +179,109 @@ export function EyeTrackingResults({
   }, [])
 
 
+  // Fixations to display - either the recorded ones or recomputed with another algorithm
+  const comparisonParams = useMemo(() => {
+    if (fixationAlgorithm === 'recorded') return null
+    // Reuse the recorded pixels-per-degree estimate so degree thresholds stay comparable
+    return resolveFixationParams({
+      algorithm: fixationAlgorithm,
+      pixelsPerDegree: fixationDetection?.pixelsPerDegree
+    })
+  }, [fixationAlgorithm, fixationDetection])
+
+  // Older experiments only stored gaze points that were already smoothed while recording
+  const hasRawStream = (data.rawGazePoints?.length ?? 0) > 0 && !!data.mappingContext
+  const recordedGazeFilter = data.mappingContext?.gazeFilter ?? gazeFilter
+
+  const smoothedGazePoints = useMemo(() => {
+    if (smoothingMode === 'recorded') return data.gazePoints || []
+    const settings = { ...DEFAULT_GAZE_FILTER_SETTINGS, mode: smoothingMode }
+    if (data.rawGazePoints && data.rawGazePoints.length > 0 && data.mappingContext) {
+      return reprocessRawGazePoints(data.rawGazePoints, data.mappingContext, settings, {
+        gaps: data.gaps,
+        driftCorrections: data.driftCorrections
+      })
+    }
+    return applyGazeFilter(data.gazePoints || [], settings, data.gaps)
+  }, [smoothingMode, data.gazePoints, data.rawGazePoints, data.mappingContext, data.driftCorrections, data.gaps])
+
+  const isRedetected = comparisonParams !== null || smoothingMode !== 'recorded'
+
+  const displayedFixations = useMemo(() => {
+    if (!comparisonParams && smoothingMode === 'recorded') return data.fixationPoints || []
+    return detectFixations(smoothedGazePoints, comparisonParams ?? fixationDetection ?? {}, data.gaps)
+  }, [comparisonParams, smoothingMode, smoothedGazePoints, fixationDetection, data.fixationPoints, data.gaps])
+
+  // Saccades stored with the experiment, or derived from the recorded fixations for older experiments
+  const saccades = useMemo(() => {
+    if (data.saccades) return data.saccades
+    return detectSaccades(data.gazePoints || [], data.fixationPoints || [], fixationDetection?.pixelsPerDegree, data.gaps)
+  }, [data.saccades, data.gazePoints, data.fixationPoints, fixationDetection, data.gaps])
+
+  const saccadeSummary = useMemo(() => summarizeSaccades(saccades), [saccades])
+
+  const gazeStatistics = useMemo(
+    () => computeGazeStatistics(displayedFixations, { imageWidth, imageHeight }),
+    [displayedFixations, imageWidth, imageHeight]
+  )
+
+  // Composition the classifier found, or its most likely class that has guide lines
+  const detectedComposition = useMemo(() => {
+    if (!compositionProbabilities) return null
+    const highlighted = analyzeComposition(compositionProbabilities).highlightedCompositions
+      .find(name => name in COMPOSITION_GUIDES)
+    if (highlighted) return highlighted
+    const ranked = Object.entries(compositionProbabilities)
+      .filter(([name]) => name in COMPOSITION_GUIDES)
+      .sort((a, b) => b[1] - a[1])
+    return ranked[0]?.[0] ?? null
+  }, [compositionProbabilities])
+
+  const selectedComposition = guideComposition ?? detectedComposition ?? 'diagonal'
+
+  const compositionAlignment = useMemo(
+    () => scoreCompositionAlignment(displayedFixations, selectedComposition, imageWidth, imageHeight),
+    [displayedFixations, selectedComposition, imageWidth, imageHeight]
+  )
+
+  const hasAreasOfInterest = (areasOfInterest?.length ?? 0) > 0
+  const effectiveFlowRegionSource = flowRegionSource === 'aoi' && hasAreasOfInterest ? 'aoi' : 'thirds'
+
+  const flowRegions: FlowRegion[] = useMemo(
+    () => effectiveFlowRegionSource === 'aoi' && areasOfInterest
+      ? areasOfInterest
+      : createThirdsGrid(imageWidth, imageHeight),
+    [effectiveFlowRegionSource, areasOfInterest, imageWidth, imageHeight]
+  )
+
+  const attentionFlow = useMemo(
+    () => computeAttentionFlow(displayedFixations, flowRegions),
+    [displayedFixations, flowRegions]
+  )
+
+  const flowRegionName = (regionId: string | null) =>
+    flowRegions.find(region => region._id === regionId)?.name ?? 'Outside all regions'
+
+  // Use the stored heatmap grid when it matches the current settings, otherwise recompute
+  const heatmapGrid = useMemo(() => {
+    const bandwidth = (imageWidth * bandwidthPercent) / 100
+    const stored = data.heatmapData
+    if (
+      isHeatmapGrid(stored) &&
+      stored.weighting === heatmapWeighting &&
+      stored.imageWidth === imageWidth &&
+      Math.abs(stored.bandwidth - bandwidth) < 1
+    ) {
+      return stored
+    }
+    return computeHeatmap(data.gazePoints || [], data.fixationPoints || [], {
+      imageWidth,
+      imageHeight,
+      bandwidth,
+      weighting: heatmapWeighting
+    })
+  }, [data.heatmapData, data.gazePoints, data.fixationPoints, imageWidth, imageHeight, bandwidthPercent, heatmapWeighting])
+
   // Draw heatmap overlay - memoized to prevent stale closures
   const drawHeatmap = useCallback(() => {
     const canvas = canvasRef.current
@@ -115,50 +301,17 @@ export function EyeTrackingResults({
       return
     }
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
     console.log('Drawing heatmap with', data.gazePoints.length, 'points')
 
-    // Coordinates are in natural image dimensions
-    // Scale based on the ratio between displayed image size and natural size
-    // This accounts for the image being displayed smaller in results view vs experiment view
-    data.gazePoints.forEach((point, index) => {
-      // Scale coordinates from natural image space to displayed image space
-      // point.x/y are in natural image coordinates (0 to imageWidth/Height)
-      // canvas.width/height match the displayed image size
-      // Simple proportional scaling: (point.x / naturalWidth) * displayedWidth
-      const x = (point.x / imageWidth) * canvas.width
-      const y = (point.y / imageHeight) * canvas.height
-      
-      // Debug: Log first few points to see actual coordinates
-      // if (index < 3) {
-      //   console.log(`🔍 [Heatmap] Point ${index}:`, {
-      //     originalNaturalCoords: { x: point.x, y: point.y },
-      //     naturalDimensions: { width: imageWidth, height: imageHeight },
-      //     displayedDimensions: { width: imageRef.current!.offsetWidth, height: imageRef.current!.offsetHeight },
-      //     canvasDimensions: { width: canvas.width, height: canvas.height },
-      //     finalCanvasCoords: { x, y },
-      //     xRatio: point.x / imageWidth,
-      //     yRatio: point.y / imageHeight
-      //   })
-      // }
-      
-      // Draw point - even if outside canvas bounds (canvas will clip automatically)
-      ctx.beginPath()
-      ctx.arc(x, y, 15, 0, 2 * Math.PI)
-      ctx.fillStyle = `rgba(255, 0, 0, ${Math.min(0.8, point.confidence || 0.5)})`
-      ctx.fill()
-      
-      // Add subtle glow effect
-      ctx.beginPath()
-      ctx.arc(x, y, 25, 0, 2 * Math.PI)
-      ctx.fillStyle = `rgba(255, 0, 0, ${Math.min(0.3, (point.confidence || 0.5) * 0.3)})`
-      ctx.fill()
+    // The grid covers the natural image, so it is simply stretched over the displayed image
+    renderHeatmap(canvas, heatmapGrid, {
+      colormap: heatmapColormap,
+      mode: heatmapMode,
+      opacity: heatmapOpacity
     })
     
     console.log('Heatmap drawing completed')
-  }, [data.gazePoints, imageWidth, imageHeight])
+  }, [data.gazePoints, heatmapGrid, heatmapColormap, heatmapMode, heatmapOpacity])
 
   // Draw scan path - memoized to prevent stale closures
   const drawScanPath = useCallback(() => {
@@ -280,13 +433,15 @@ export function EyeTrackingResults({
   // Draw fixations - memoized to prevent stale closures
   const drawFixations = useCallback(() => {
     const canvas = canvasRef.current
-    if (!canvas || !imageRef.current || !data.fixationPoints || data.fixationPoints.length === 0) {
+    if (!canvas || !imageRef.current || displayedFixations.length === 0) {
       console.log('Canvas, image, or data not ready for fixations', {
         hasCanvas: !!canvas,
         hasImage: !!imageRef.current,
-        hasData: !!data.fixationPoints,
-        dataLength: data.fixationPoints?.length || 0
+        hasData: displayedFixations.length > 0,
+        dataLength: displayedFixations.length
       })
+      // Clear any fixations left over from a previous algorithm
+      if (canvas) canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
       return
     }
 
@@ -299,11 +454,11 @@ export function EyeTrackingResults({
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-    console.log('Drawing fixations with', data.fixationPoints.length, 'fixations')
+    console.log('Drawing fixations with', displayedFixations.length, 'fixations')
 
     // Coordinates are in natural image dimensions
     // Scale directly to canvas (canvas size matches displayed image size)
-    data.fixationPoints.forEach((fixation, index) => {
+    displayedFixations.forEach((fixation, index) => {
       // Scale coordinates from natural image space to displayed image space
       const x = (fixation.x / imageWidth) * canvas.width
       const y = (fixation.y / imageHeight) * canvas.height
@@ -338,12 +493,222 @@ export function EyeTrackingResults({
     })
     
     console.log('Fixations drawing completed')
-  }, [data.fixationPoints, imageWidth, imageHeight])
+  }, [displayedFixations, imageWidth, imageHeight])
+
+  // Draw saccades as arrows - memoized to prevent stale closures
+  const drawSaccades = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !imageRef.current) {
+      console.log('Canvas or image not ready for saccades')
+      return
+    }
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      console.log('Could not get canvas context for saccades')
+      return
+    }
+
+    // Clear canvas
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    console.log('Drawing saccades with', saccades.length, 'saccades')
+
+    const maxVelocity = saccadeSummary.maxPeakVelocity || 1
+
+    saccades.forEach((saccade) => {
+      // Scale coordinates from natural image space to displayed image space
+      const startX = (saccade.startX / imageWidth) * canvas.width
+      const startY = (saccade.startY / imageHeight) * canvas.height
+      const endX = (saccade.endX / imageWidth) * canvas.width
+      const endY = (saccade.endY / imageHeight) * canvas.height
+
+      // Color by peak velocity (blue = slow, red = fast)
+      const hue = 240 - (saccade.peakVelocity / maxVelocity) * 240
+      const color = `hsla(${hue}, 90%, 50%, 0.85)`
+
+      ctx.beginPath()
+      ctx.moveTo(startX, startY)
+      ctx.lineTo(endX, endY)
+      ctx.strokeStyle = color
+      ctx.lineWidth = 2
+      ctx.stroke()
+
+      // Arrow head
+      const angle = Math.atan2(endY - startY, endX - startX)
+      const headLength = 10
+      ctx.beginPath()
+      ctx.moveTo(endX, endY)
+      ctx.lineTo(endX - headLength * Math.cos(angle - Math.PI / 6), endY - headLength * Math.sin(angle - Math.PI / 6))
+      ctx.lineTo(endX - headLength * Math.cos(angle + Math.PI / 6), endY - headLength * Math.sin(angle + Math.PI / 6))
+      ctx.closePath()
+      ctx.fillStyle = color
+      ctx.fill()
+    })
+
+    console.log('Saccades drawing completed')
+  }, [saccades, saccadeSummary, imageWidth, imageHeight])
+
+  // Draw the composition's guide lines and the fixations that follow them
+  const drawComposition = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !imageRef.current || !compositionAlignment) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    const variant = COMPOSITION_GUIDES[selectedComposition][compositionAlignment.variantIndex]
+    const scale = canvas.width / imageWidth
+    const band = guideBandWidth(imageWidth, imageHeight) * scale
+
+    const traceGuides = () => {
+      ctx.beginPath()
+      variant.forEach(guide => {
+        guide.points.forEach(([x, y], index) => {
+          const px = x * canvas.width
+          const py = y * canvas.height
+          if (index === 0) ctx.moveTo(px, py)
+          else ctx.lineTo(px, py)
+        })
+        if (guide.closed) ctx.closePath()
+      })
+    }
+
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    // Band counted as "on the guide"
+    traceGuides()
+    ctx.strokeStyle = 'rgba(59, 130, 246, 0.2)'
+    ctx.lineWidth = band * 2
+    ctx.stroke()
+    // Guide line
+    traceGuides()
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)'
+    ctx.lineWidth = 2
+    ctx.setLineDash([8, 6])
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    const onGuide = fixationsOnGuides(displayedFixations, variant, imageWidth, imageHeight)
+    displayedFixations.forEach((fixation, index) => {
+      const x = (fixation.x / imageWidth) * canvas.width
+      const y = (fixation.y / imageHeight) * canvas.height
+      const radius = Math.max(6, Math.min(30, fixation.duration / 60))
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, 2 * Math.PI)
+      ctx.fillStyle = onGuide[index] ? 'rgba(34, 197, 94, 0.75)' : 'rgba(156, 163, 175, 0.6)'
+      ctx.fill()
+      ctx.strokeStyle = onGuide[index] ? 'rgb(21, 128, 61)' : 'rgb(75, 85, 99)'
+      ctx.lineWidth = 1.5
+      ctx.stroke()
+    })
+  }, [compositionAlignment, selectedComposition, displayedFixations, imageWidth, imageHeight])
+
+  // Draw the regions, the entry and exit points and numbered arrows between region visits
+  const drawFlow = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !imageRef.current) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    const toCanvas = (point: { x: number; y: number }) => ({
+      x: (point.x / imageWidth) * canvas.width,
+      y: (point.y / imageHeight) * canvas.height
+    })
+
+    // Region outlines
+    ctx.lineWidth = 1.5
+    ctx.setLineDash([6, 4])
+    flowRegions.forEach(region => {
+      if (region.points.length < 3) return
+      ctx.beginPath()
+      region.points.forEach((point, index) => {
+        const { x, y } = toCanvas(point)
+        if (index === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.closePath()
+      ctx.strokeStyle = region.color ?? 'rgba(255, 255, 255, 0.8)'
+      ctx.stroke()
+    })
+    ctx.setLineDash([])
+
+    const visitRadius = 10
+    const centers = attentionFlow.visits.map(visit => toCanvas(visit.center))
+
+    // Arrows between consecutive visits, numbered by transition
+    centers.slice(1).forEach((end, index) => {
+      const start = centers[index]
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      const tipX = end.x - visitRadius * Math.cos(angle)
+      const tipY = end.y - visitRadius * Math.sin(angle)
+
+      ctx.beginPath()
+      ctx.moveTo(start.x + visitRadius * Math.cos(angle), start.y + visitRadius * Math.sin(angle))
+      ctx.lineTo(tipX, tipY)
+      ctx.strokeStyle = 'rgba(124, 58, 237, 0.9)'
+      ctx.lineWidth = 3
+      ctx.stroke()
+
+      const headLength = 12
+      ctx.beginPath()
+      ctx.moveTo(tipX, tipY)
+      ctx.lineTo(tipX - headLength * Math.cos(angle - Math.PI / 6), tipY - headLength * Math.sin(angle - Math.PI / 6))
+      ctx.lineTo(tipX - headLength * Math.cos(angle + Math.PI / 6), tipY - headLength * Math.sin(angle + Math.PI / 6))
+      ctx.closePath()
+      ctx.fillStyle = 'rgba(124, 58, 237, 0.9)'
+      ctx.fill()
+
+      const midX = (start.x + end.x) / 2
+      const midY = (start.y + end.y) / 2
+      ctx.beginPath()
+      ctx.arc(midX, midY, 10, 0, 2 * Math.PI)
+      ctx.fillStyle = 'white'
+      ctx.fill()
+      ctx.strokeStyle = 'rgb(124, 58, 237)'
+      ctx.lineWidth = 2
+      ctx.stroke()
+      ctx.fillStyle = 'rgb(91, 33, 182)'
+      ctx.font = 'bold 11px Arial'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText((index + 1).toString(), midX, midY)
+    })
+
+    centers.forEach(({ x, y }) => {
+      ctx.beginPath()
+      ctx.arc(x, y, visitRadius, 0, 2 * Math.PI)
+      ctx.fillStyle = 'rgba(124, 58, 237, 0.6)'
+      ctx.fill()
+    })
+
+    // Entry and exit fixations
+    const drawEndpoint = (point: { x: number; y: number }, color: string, label: string) => {
+      const { x, y } = toCanvas(point)
+      ctx.beginPath()
+      ctx.arc(x, y, 14, 0, 2 * Math.PI)
+      ctx.strokeStyle = color
+      ctx.lineWidth = 4
+      ctx.stroke()
+      ctx.fillStyle = color
+      ctx.font = 'bold 12px Arial'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'bottom'
+      ctx.fillText(label, x, y - 18)
+    }
+    if (attentionFlow.entry) drawEndpoint(attentionFlow.entry.fixation, 'rgb(34, 197, 94)', 'IN')
+    if (attentionFlow.exit) drawEndpoint(attentionFlow.exit.fixation, 'rgb(239, 68, 68)', 'OUT')
+  }, [attentionFlow, flowRegions, imageWidth, imageHeight])
 
   // Single unified effect to handle drawing - prevents race conditions
   useEffect(() => {
-    // Skip drawing for stats tab (no canvas needed)
-    if (activeTab === 'stats') {
+    // Skip drawing for stats and replay tabs (replay draws on its own canvas)
+    if (activeTab === 'stats' || activeTab === 'replay') {
       return
     }
     
@@ -381,13 +746,19 @@ export function EyeTrackingResults({
         drawScanPath()
       } else if (activeTab === 'fixations') {
         drawFixations()
+      } else if (activeTab === 'saccades') {
+        drawSaccades()
+      } else if (activeTab === 'composition') {
+        drawComposition()
+      } else if (activeTab === 'flow') {
+        drawFlow()
       }
     }, 100) // Slightly longer delay to ensure canvas is ready
     
     return () => {
       clearTimeout(timeoutId)
     }
-  }, [activeTab, data, imageLoaded, drawHeatmap, drawScanPath, drawFixations, updateCanvasPosition])
+  }, [activeTab, data, displayedFixations, imageLoaded, drawHeatmap, drawScanPath, drawFixations, drawSaccades, drawComposition, drawFlow, updateCanvasPosition])
 
   // Add window resize listener to update canvas position and redraw
   useEffect(() => {
@@ -402,6 +773,12 @@ export function EyeTrackingResults({
             drawScanPath()
           } else if (activeTab === 'fixations') {
             drawFixations()
+          } else if (activeTab === 'saccades') {
+            drawSaccades()
+          } else if (activeTab === 'composition') {
+            drawComposition()
+          } else if (activeTab === 'flow') {
+            drawFlow()
           }
         }, 100)
       }
@@ -409,7 +786,7 @@ export function EyeTrackingResults({
     
     window.addEventListener('resize', handleResize)
     return () => window.removeEventListener('resize', handleResize)
-  }, [imageLoaded, activeTab, updateCanvasPosition, drawHeatmap, drawScanPath, drawFixations])
+  }, [imageLoaded, activeTab, updateCanvasPosition, drawHeatmap, drawScanPath, drawFixations, drawSaccades, drawComposition, drawFlow])
 
   // Calculate coordinate analysis
   const coordinateAnalysis = (() => {
@@ -505,11 +882,16 @@ export function EyeTrackingResults({
     gazePointsPerSecond: (data.gazePoints?.length || 0) / ((data.sessionDuration || 1) / 1000),
     scanPathLength: data.scanPath?.length || 0
   }
+  const gapSummary = data.gaps ? summarizeGaps(data.gaps, data.sessionDuration) : null
 
   const tabs = [
     { id: 'heatmap', label: 'Heatmap', icon: Map },
     { id: 'scanpath', label: 'Scan Path', icon: Activity },
     { id: 'fixations', label: 'Fixations', icon: Eye },
+    { id: 'saccades', label: 'Saccades', icon: Zap },
+    { id: 'composition', label: 'Composition', icon: Palette },
+    { id: 'flow', label: 'Flow', icon: Workflow },
+    { id: 'replay', label: 'Replay', icon: PlayCircle },
     { id: 'stats', label: 'Statistics', icon: BarChart3 }
   ]
 
@@ -626,6 +1008,79 @@ export function EyeTrackingResults({
                       }
                     </span>
                   </div>
+                  <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                    <span className="text-gray-600">Blink Rate:</span>
+                    <span className="font-medium">
+                      {gapSummary && gapSummary.blinkRate !== null
+                        ? `${gapSummary.blinkRate.toFixed(1)}/min (${gapSummary.blinkCount} blinks)`
+                        : 'Not recorded'}
+                    </span>
+                  </div>
+                  {gapSummary && (
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Tracking Lost:</span>
+                      <span className={`font-medium ${gapSummary.gapFraction > EYE_TRACKING_EXPERIMENT.GAP_MAX_FRACTION ? 'text-red-600' : ''}`}>
+                        {gapSummary.trackLossCount} times, {(gapSummary.trackLossMs / 1000).toFixed(1)}s
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Attention Dispersion Section */}
+                <div className="p-4 bg-white border-2 rounded-lg">
+                  <h3 className="text-lg font-semibold mb-1 text-gray-800">Attention Dispersion</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    How focused or wandering the viewing was, from {isRedetected ? 're-detected' : 'recorded'} fixations
+                  </p>
+                  {gazeStatistics.normalizedStationaryEntropy !== null && (
+                    <div className="p-4 mb-3 bg-purple-50 rounded-lg">
+                      <div className="text-2xl font-bold text-purple-600">
+                        {gazeStatistics.normalizedStationaryEntropy.toFixed(2)}
+                        <span className="ml-2 text-base font-medium">
+                          {DISPERSION_LABELS[describeDispersion(gazeStatistics.normalizedStationaryEntropy)]}
+                        </span>
+                      </div>
+                      <div className="text-sm text-purple-700">
+                        Gaze entropy (0 = one spot, 1 = spread evenly over the picture)
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-3">
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Stationary Gaze Entropy:</span>
+                      <span className="font-medium">
+                        {gazeStatistics.stationaryEntropy !== null
+                          ? `${gazeStatistics.stationaryEntropy.toFixed(2)} bits (${gazeStatistics.gridSize}×${gazeStatistics.gridSize} grid)`
+                          : 'N/A'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Gaze Transition Entropy:</span>
+                      <span className="font-medium">
+                        {gazeStatistics.transitionEntropy !== null && gazeStatistics.normalizedTransitionEntropy !== null
+                          ? `${gazeStatistics.transitionEntropy.toFixed(2)} bits (${gazeStatistics.normalizedTransitionEntropy.toFixed(2)} normalized)`
+                          : 'N/A'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Convex Hull Area:</span>
+                      <span className="font-medium">
+                        {Math.round(gazeStatistics.convexHullShare * 100)}% of the picture
+                      </span>
+                    </div>
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Nearest Neighbour Index:</span>
+                      <span className="font-medium">
+                        {gazeStatistics.nearestNeighborIndex !== null
+                          ? `${gazeStatistics.nearestNeighborIndex.toFixed(2)} (${gazeStatistics.nearestNeighborIndex < 1 ? 'clustered' : 'dispersed'})`
+                          : 'N/A'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="text-gray-600">Coverage:</span>
+                      <span className="font-medium">{Math.round(gazeStatistics.coverage * 100)}% of the picture</span>
+                    </div>
+                  </div>
                 </div>
 
                 {/* Coordinate Analysis Section */}
@@ -772,6 +1227,26 @@ export function EyeTrackingResults({
               </div>
             </div>
           </div>
+        ) : activeTab === 'replay' ? (
+          /* Gaze Replay - Animated playback on its own canvas */
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Gaze Replay</h2>
+              <p className="card-description">
+                Watch how the eyes moved across the image. The red cursor follows the gaze, the green trail shows
+                recent movement and fixation circles grow while the gaze rests.
+              </p>
+            </div>
+            <div className="card-content">
+              <GazeReplay
+                gazePoints={data.gazePoints || []}
+                fixationPoints={data.fixationPoints || []}
+                imageUrl={imageUrl}
+                imageWidth={imageWidth}
+                imageHeight={imageHeight}
+              />
+            </div>
+          </div>
         ) : (
           /* Image with Overlay - For visualization tabs */
           <div className="card">
@@ -786,7 +1261,260 @@ export function EyeTrackingResults({
                 }
                 {activeTab === 'scanpath' && 'Scan Path - Eye movement trajectory over time'}
                 {activeTab === 'fixations' && 'Fixations - Focus points with duration analysis'}
+                {activeTab === 'saccades' && 'Saccades - Rapid eye movements between fixations'}
+                {activeTab === 'composition' && 'Composition - Do viewers follow the guide lines of the composition?'}
+                {activeTab === 'flow' && 'Flow - Where the eye enters, travels through and leaves the picture'}
               </div>
+              {activeTab === 'saccades' && (
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <div className="p-2 bg-gray-50 rounded-lg">
+                    <div className="font-semibold text-gray-900">{saccadeSummary.count}</div>
+                    <div className="text-xs text-gray-600">Saccades</div>
+                  </div>
+                  <div className="p-2 bg-gray-50 rounded-lg">
+                    <div className="font-semibold text-gray-900">{Math.round(saccadeSummary.averageAmplitude)}px</div>
+                    <div className="text-xs text-gray-600">Avg Amplitude</div>
+                  </div>
+                  <div className="p-2 bg-gray-50 rounded-lg">
+                    <div className="font-semibold text-gray-900">{Math.round(saccadeSummary.averageDuration)}ms</div>
+                    <div className="text-xs text-gray-600">Avg Duration</div>
+                  </div>
+                  <div className="p-2 bg-gray-50 rounded-lg">
+                    <div className="font-semibold text-gray-900">{Math.round(saccadeSummary.averagePeakVelocity)}px/s</div>
+                    <div className="text-xs text-gray-600">Avg Peak Velocity</div>
+                  </div>
+                </div>
+              )}
+              {activeTab === 'composition' && (
+                <div className="mt-3 space-y-3 text-sm">
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Guides:</span>
+                    <select
+                      value={selectedComposition}
+                      onChange={(e) => setGuideComposition(e.target.value)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      {Object.keys(COMPOSITION_GUIDES).map(name => (
+                        <option key={name} value={name}>
+                          {formatCompositionName(name)}
+                          {compositionProbabilities?.[name] !== undefined && ` (${Math.round(compositionProbabilities[name] * 100)}%)`}
+                          {name === detectedComposition && ' - detected'}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {!compositionProbabilities && (
+                    <p className="text-xs text-gray-500">
+                      This picture has not been classified yet, so no composition was detected. Pick one to compare against.
+                    </p>
+                  )}
+                  {compositionAlignment && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="font-semibold text-gray-900">{Math.round(compositionAlignment.onGuideShare * 100)}%</div>
+                        <div className="text-xs text-gray-600">Fixation time on guides</div>
+                      </div>
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="font-semibold text-gray-900">{Math.round(compositionAlignment.areaShare * 100)}%</div>
+                        <div className="text-xs text-gray-600">Picture area near guides</div>
+                      </div>
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="font-semibold text-gray-900">
+                          {compositionAlignment.lift !== null ? `${compositionAlignment.lift.toFixed(1)}×` : 'N/A'}
+                        </div>
+                        <div className="text-xs text-gray-600">Lift over chance</div>
+                      </div>
+                      <div className="p-2 bg-gray-50 rounded-lg">
+                        <div className="font-semibold text-gray-900">
+                          {compositionAlignment.fixationsOnGuide}/{compositionAlignment.totalFixations}
+                        </div>
+                        <div className="text-xs text-gray-600">Fixations on guides</div>
+                      </div>
+                    </div>
+                  )}
+                  {compositionAlignment && compositionAlignment.totalFixations > 0 && compositionAlignment.lift !== null && (
+                    <p className="text-xs text-gray-600">
+                      {compositionAlignment.lift >= 1.5
+                        ? 'Viewers clearly followed the composition.'
+                        : compositionAlignment.lift >= 1
+                          ? 'Viewers looked along the composition a little more than chance.'
+                          : 'Viewers did not follow the composition - their attention went elsewhere.'}
+                    </p>
+                  )}
+                </div>
+              )}
+              {activeTab === 'flow' && (
+                <div className="mt-3 space-y-3 text-sm">
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Regions:</span>
+                    <select
+                      value={effectiveFlowRegionSource}
+                      onChange={(e) => setFlowRegionSource(e.target.value as 'thirds' | 'aoi')}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="thirds">Rule-of-thirds grid (3×3)</option>
+                      <option value="aoi" disabled={!hasAreasOfInterest}>
+                        Areas of interest{hasAreasOfInterest ? ` (${areasOfInterest!.length})` : ' - none defined'}
+                      </option>
+                    </select>
+                  </label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">
+                        {attentionFlow.entry ? flowRegionName(attentionFlow.entry.regionId) : 'N/A'}
+                      </div>
+                      <div className="text-xs text-gray-600">Entry point</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">
+                        {attentionFlow.exit ? flowRegionName(attentionFlow.exit.regionId) : 'N/A'}
+                      </div>
+                      <div className="text-xs text-gray-600">Exit point</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">{attentionFlow.visits.length}</div>
+                      <div className="text-xs text-gray-600">Region visits</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">
+                        {attentionFlow.readingOrder.length}/{flowRegions.length}
+                      </div>
+                      <div className="text-xs text-gray-600">Regions visited</div>
+                    </div>
+                  </div>
+                  {attentionFlow.visits.length > 0 && (
+                    <ol className="space-y-1">
+                      {attentionFlow.visits.map((visit, index) => (
+                        <li key={`${visit.regionId}-${visit.startTime}`} className="flex items-center space-x-2 text-gray-700">
+                          <span className="inline-flex items-center justify-center w-5 h-5 rounded-full bg-purple-100 text-purple-800 text-xs font-semibold">
+                            {index + 1}
+                          </span>
+                          <span className="font-medium">{visit.name}</span>
+                          <span className="text-xs text-gray-500">
+                            {visit.fixationCount} fixation{visit.fixationCount === 1 ? '' : 's'} • {Math.round(visit.dwellTime)}ms
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {attentionFlow.unassignedFixations > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {attentionFlow.unassignedFixations} fixation{attentionFlow.unassignedFixations === 1 ? ' was' : 's were'} outside all regions and left out of the visits.
+                    </p>
+                  )}
+                </div>
+              )}
+              {activeTab === 'heatmap' && (
+                <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Colormap:</span>
+                    <select
+                      value={heatmapColormap}
+                      onChange={(e) => setHeatmapColormap(e.target.value as HeatmapColormap)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      disabled={heatmapMode === 'fog'}
+                    >
+                      {(Object.keys(HEATMAP_COLORMAP_LABELS) as HeatmapColormap[]).map(colormap => (
+                        <option key={colormap} value={colormap}>{HEATMAP_COLORMAP_LABELS[colormap]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Mode:</span>
+                    <select
+                      value={heatmapMode}
+                      onChange={(e) => setHeatmapMode(e.target.value as HeatmapMode)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="color">Heatmap</option>
+                      <option value="fog">Fog (reveal attended areas)</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Weighting:</span>
+                    <select
+                      value={heatmapWeighting}
+                      onChange={(e) => setHeatmapWeighting(e.target.value as HeatmapWeighting)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="gaze">Gaze points</option>
+                      <option value="fixationDuration">Fixation duration</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Bandwidth:</span>
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={10}
+                      step={0.5}
+                      value={bandwidthPercent}
+                      onChange={(e) => setBandwidthPercent(Number(e.target.value))}
+                    />
+                    <span className="text-gray-600 w-12">{bandwidthPercent}%</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-700 font-medium">Opacity:</span>
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={heatmapOpacity}
+                      onChange={(e) => setHeatmapOpacity(Number(e.target.value))}
+                    />
+                  </label>
+                </div>
+              )}
+              {activeTab === 'fixations' && (
+                <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+                  <label htmlFor="fixation-algorithm" className="text-gray-700 font-medium">Algorithm:</label>
+                  <select
+                    id="fixation-algorithm"
+                    value={fixationAlgorithm}
+                    onChange={(e) => setFixationAlgorithm(e.target.value as 'recorded' | FixationAlgorithm)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="recorded">Recorded with experiment</option>
+                    {(Object.keys(FIXATION_ALGORITHM_LABELS) as FixationAlgorithm[]).map(algorithm => (
+                      <option key={algorithm} value={algorithm}>{FIXATION_ALGORITHM_LABELS[algorithm]}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="fixation-smoothing" className="text-gray-700 font-medium">Smoothing:</label>
+                  <select
+                    id="fixation-smoothing"
+                    value={smoothingMode}
+                    onChange={(e) => setSmoothingMode(e.target.value as 'recorded' | GazeFilterMode)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    title={hasRawStream
+                      ? 'Smooth the unsmoothed gaze stream with another filter before detecting fixations'
+                      : 'Smooth the stored (already smoothed) gaze points again before detecting fixations'}
+                  >
+                    <option value="recorded">As recorded</option>
+                    {(Object.keys(GAZE_FILTER_LABELS) as GazeFilterMode[])
+                      .filter(mode => hasRawStream || mode !== 'none')
+                      .map(mode => (
+                        <option key={mode} value={mode}>{GAZE_FILTER_LABELS[mode]}</option>
+                      ))}
+                  </select>
+                  <span className="text-gray-600">
+                    {displayedFixations.length} fixations
+                    {isRedetected && ` (recorded: ${data.fixationPoints?.length || 0})`}
+                  </span>
+                  <span className="text-xs text-gray-500 w-full">
+                    {comparisonParams
+                      ? describeFixationParams(comparisonParams)
+                      : fixationDetection
+                        ? describeFixationParams(fixationDetection)
+                        : 'Detection parameters were not recorded for this experiment'}
+                    {recordedGazeFilter && ` • Recorded with ${describeGazeFilter(recordedGazeFilter)}`}
+                    {smoothingMode !== 'recorded' && !hasRawStream &&
+                      ' • This experiment has no unsmoothed stream, so the filter runs on top of the smoothing applied while recording'}
+                    {smoothingMode !== 'recorded' && hasRawStream && recordedGazeFilter?.mode === 'kalman' &&
+                      " • WebGazer's Kalman filter already ran on the stream while recording"}
+                  </span>
+                </div>
+              )}
             </div>
             <div className="card-content">
               <div className="relative">
@@ -807,6 +1535,37 @@ export function EyeTrackingResults({
                   className="absolute pointer-events-none"
                 />
               </div>
+              {activeTab === 'saccades' && saccades.length > 0 && (
+                <div className="mt-4 max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 pr-2">#</th>
+                        <th className="py-1 pr-2">Amplitude</th>
+                        <th className="py-1 pr-2">Direction</th>
+                        <th className="py-1 pr-2">Peak Velocity</th>
+                        <th className="py-1">Duration</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {saccades.map((saccade, index) => (
+                        <tr key={index} className="border-b border-gray-100">
+                          <td className="py-1 pr-2 text-gray-500">{index + 1}</td>
+                          <td className="py-1 pr-2 font-mono">
+                            {Math.round(saccade.amplitude)}px
+                            {saccade.amplitudeDeg !== undefined && ` (${saccade.amplitudeDeg.toFixed(1)}°)`}
+                          </td>
+                          <td className="py-1 pr-2 font-mono">
+                            {Math.round(saccade.direction)}° {directionLabel(saccade.direction)}
+                          </td>
+                          <td className="py-1 pr-2 font-mono">{Math.round(saccade.peakVelocity)}px/s</td>
+                          <td className="py-1 font-mono">{Math.round(saccade.duration)}ms</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -817,20 +1576,18 @@ export function EyeTrackingResults({
         <div className="card-content">
           <div className="flex items-center justify-center space-x-6 text-sm">
             {activeTab === 'heatmap' && (
-              <>
+              heatmapMode === 'fog' ? (
                 <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 bg-red-500 rounded-full"></div>
-                  <span>High attention</span>
+                  <div className="w-4 h-4 bg-gray-900 rounded-full"></div>
+                  <span>Fog covers areas that received little attention</span>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 bg-yellow-500 rounded-full"></div>
-                  <span>Medium attention</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 bg-blue-500 rounded-full"></div>
+              ) : (
+                <div className="flex items-center space-x-3">
                   <span>Low attention</span>
+                  <div className="w-40 h-3 rounded" style={{ background: colormapGradient(heatmapColormap) }}></div>
+                  <span>High attention</span>
                 </div>
-              </>
+              )
             )}
             {activeTab === 'scanpath' && (
               <>
@@ -850,6 +1607,66 @@ export function EyeTrackingResults({
                 <span>Fixation points (size indicates duration)</span>
               </div>
             )}
+            {activeTab === 'replay' && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-red-500 rounded-full"></div>
+                  <span>Gaze cursor</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-green-500 rounded-full"></div>
+                  <span>Gaze trail</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-orange-500 rounded-full"></div>
+                  <span>Fixations (grow with duration)</span>
+                </div>
+              </>
+            )}
+            {activeTab === 'composition' && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-blue-200 rounded-full"></div>
+                  <span>Guide lines and the band around them</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-green-500 rounded-full"></div>
+                  <span>Fixation on a guide</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-gray-400 rounded-full"></div>
+                  <span>Fixation elsewhere</span>
+                </div>
+              </>
+            )}
+            {activeTab === 'flow' && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 border-4 border-green-500 rounded-full"></div>
+                  <span>Entry point</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 border-4 border-red-500 rounded-full"></div>
+                  <span>Exit point</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-purple-500 rounded-full"></div>
+                  <span>Region visit (arrows numbered in order)</span>
+                </div>
+              </>
+            )}
+            {activeTab === 'saccades' && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-blue-500 rounded-full"></div>
+                  <span>Slow saccade</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 bg-red-500 rounded-full"></div>
+                  <span>Fast saccade (arrow shows direction)</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
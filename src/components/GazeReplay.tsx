@@ -0,0 +1,191 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react'
+import { Play, Pause, RotateCcw } from 'lucide-react'
+import {
+  buildReplayTimeline,
+  drawReplayFrame,
+  formatReplayTime,
+  ReplayGazePoint,
+  ReplayFixation,
+  REPLAY_SPEEDS,
+  REPLAY_TRAIL_OPTIONS_MS
+} from '../utils/gazeReplay'
+
+interface GazeReplayProps {
+  gazePoints: ReplayGazePoint[]
+  fixationPoints: ReplayFixation[]
+  imageUrl: string
+  imageWidth: number
+  imageHeight: number
+}
+
+export function GazeReplay({ gazePoints, fixationPoints, imageUrl, imageWidth, imageHeight }: GazeReplayProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [speed, setSpeed] = useState(1)
+  const [trailMs, setTrailMs] = useState(1000)
+  const [imageLoaded, setImageLoaded] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
+  const animationRef = useRef<number | null>(null)
+  const lastFrameRef = useRef<number | null>(null)
+
+  const timeline = useMemo(
+    () => buildReplayTimeline(gazePoints || [], fixationPoints || []),
+    [gazePoints, fixationPoints]
+  )
+
+  // Keep the canvas sized to the displayed image (1:1 pixel ratio)
+  const syncCanvasSize = useCallback(() => {
+    if (!canvasRef.current || !imageRef.current) return
+    const width = imageRef.current.clientWidth
+    const height = imageRef.current.clientHeight
+    if (width === 0 || height === 0) return
+    if (canvasRef.current.width !== width || canvasRef.current.height !== height) {
+      canvasRef.current.width = width
+      canvasRef.current.height = height
+    }
+  }, [])
+
+  const drawFrame = useCallback((time: number) => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    drawReplayFrame(ctx, timeline, { time, trailMs, imageWidth, imageHeight })
+  }, [timeline, trailMs, imageWidth, imageHeight])
+
+  // Redraw whenever the position or settings change
+  useEffect(() => {
+    if (!imageLoaded) return
+    syncCanvasSize()
+    drawFrame(currentTime)
+  }, [imageLoaded, currentTime, drawFrame, syncCanvasSize])
+
+  // Animation loop - advances the timeline by wall-clock time × speed
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const step = (now: number) => {
+      const last = lastFrameRef.current ?? now
+      lastFrameRef.current = now
+      setCurrentTime(prev => {
+        const next = prev + (now - last) * speed
+        if (next >= timeline.duration) {
+          setIsPlaying(false)
+          return timeline.duration
+        }
+        return next
+      })
+      animationRef.current = requestAnimationFrame(step)
+    }
+
+    animationRef.current = requestAnimationFrame(step)
+    return () => {
+      if (animationRef.current !== null) cancelAnimationFrame(animationRef.current)
+      animationRef.current = null
+      lastFrameRef.current = null
+    }
+  }, [isPlaying, speed, timeline.duration])
+
+  useEffect(() => {
+    const handleResize = () => {
+      syncCanvasSize()
+      drawFrame(currentTime)
+    }
+    window.addEventListener('resize', handleResize)
+    return () => window.removeEventListener('resize', handleResize)
+  }, [currentTime, drawFrame, syncCanvasSize])
+
+  const togglePlay = () => {
+    // Restart from the beginning when playback already reached the end
+    if (!isPlaying && currentTime >= timeline.duration) {
+      setCurrentTime(0)
+    }
+    setIsPlaying(prev => !prev)
+  }
+
+  if (timeline.gazePoints.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-600">
+        No gaze data available for replay.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <img
+          ref={imageRef}
+          src={imageUrl}
+          alt="Gaze replay"
+          className="w-full h-auto rounded-lg shadow-lg"
+          onLoad={() => setImageLoaded(true)}
+        />
+        <canvas
+          ref={canvasRef}
+          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+        />
+      </div>
+
+      {/* Timeline */}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={togglePlay}
+          className="btn btn-sm btn-primary"
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+        <button
+          onClick={() => {
+            setIsPlaying(false)
+            setCurrentTime(0)
+          }}
+          className="btn btn-sm btn-outline"
+          aria-label="Restart replay"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={timeline.duration}
+          step={10}
+          value={currentTime}
+          onChange={(e) => setCurrentTime(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Replay position"
+        />
+        <span className="text-sm font-mono text-gray-600 whitespace-nowrap">
+          {formatReplayTime(currentTime)} / {formatReplayTime(timeline.duration)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700 font-medium">Speed:</span>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {REPLAY_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700 font-medium">Trail:</span>
+          <select
+            value={trailMs}
+            onChange={(e) => setTrailMs(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {REPLAY_TRAIL_OPTIONS_MS.map(value => (
+              <option key={value} value={value}>{value >= 1000 ? `${value / 1000}s` : `${value}ms`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { ShieldCheck, ClipboardList } from 'lucide-react'
+import {
+  DEFAULT_CONSENT_TEXT,
+  QUESTIONNAIRE_QUESTIONS,
+  UNDISCLOSED,
+  ParticipantInfo,
+  QuestionnaireField
+} from '../utils/participantQuestionnaire'
+
+interface ParticipantIntakeProps {
+  studyName?: string
+  consentText?: string
+  questionnaireFields?: string[]
+  onComplete: (info: ParticipantInfo) => void
+  onDecline: () => void
+}
+
+export function ParticipantIntake({ studyName, consentText, questionnaireFields, onComplete, onDecline }: ParticipantIntakeProps) {
+  const [consented, setConsented] = useState(false)
+  const [answers, setAnswers] = useState<Partial<Record<QuestionnaireField, string>>>({})
+
+  const questions = QUESTIONNAIRE_QUESTIONS.filter(q => questionnaireFields?.includes(q.field))
+  const allAnswered = questions.every(q => !!answers[q.field])
+
+  const handleSubmit = () => {
+    if (!consented || !allAnswered) return
+    onComplete({
+      consentGivenAt: Date.now(),
+      ...answers
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title flex items-center">
+              <ShieldCheck className="h-5 w-5 mr-2 text-primary-600" />
+              {studyName ? `Consent – ${studyName}` : 'Consent'}
+            </h2>
+            <p className="card-description">
+              Please read the following before the webcam is turned on.
+            </p>
+          </div>
+          <div className="card-content space-y-4">
+            <p className="text-gray-700 whitespace-pre-line">{consentText || DEFAULT_CONSENT_TEXT}</p>
+            <label className="flex items-start space-x-2 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={consented}
+                onChange={(e) => setConsented(e.target.checked)}
+                className="mt-1"
+              />
+              <span>I have read the information above and agree to take part.</span>
+            </label>
+          </div>
+        </div>
+
+        {questions.length > 0 && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title flex items-center">
+                <ClipboardList className="h-5 w-5 mr-2 text-primary-600" />
+                A few questions
+              </h2>
+              <p className="card-description">
+                Your answers help compare how different groups look at the picture. Every question can be skipped
+                with "Prefer not to say".
+              </p>
+            </div>
+            <div className="card-content space-y-4">
+              {questions.map(question => (
+                <label key={question.field} className="block text-sm space-y-1">
+                  <span className="block font-medium text-gray-900">{question.label}</span>
+                  <select
+                    value={answers[question.field] || ''}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, [question.field]: e.target.value }))}
+                    className="input w-full"
+                  >
+                    <option value="" disabled>Select an answer</option>
+                    {question.options.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                    <option value={UNDISCLOSED}>Prefer not to say</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-center space-x-3">
+          <button onClick={onDecline} className="btn btn-outline">
+            I do not agree
+          </button>
+          <button onClick={handleSubmit} className="btn btn-primary" disabled={!consented || !allAnswered}>
+            Continue to calibration
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { Film, Image as ImageIcon, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  exportReplayAsWebM,
+  exportReplayAsGIF,
+  isWebMExportSupported,
+  downloadBlob,
+  ReplayExportFormat,
+  ReplayExportOverlay
+} from '../utils/replayExport'
+import { ReplayFixation, ReplayGazePoint, REPLAY_SPEEDS } from '../utils/gazeReplay'
+
+interface ReplayExportProps {
+  experimentId: string
+  imageUrl: string
+  gazePoints: ReplayGazePoint[]
+  fixationPoints: ReplayFixation[]
+}
+
+export function ReplayExport({ experimentId, imageUrl, gazePoints, fixationPoints }: ReplayExportProps) {
+  const [overlay, setOverlay] = useState<ReplayExportOverlay>('scanpath')
+  const [speed, setSpeed] = useState(1)
+  const [exporting, setExporting] = useState<ReplayExportFormat | null>(null)
+  const [progress, setProgress] = useState(0)
+  const webmSupported = isWebMExportSupported()
+
+  const handleExport = async (format: ReplayExportFormat) => {
+    setExporting(format)
+    setProgress(0)
+    try {
+      const options = {
+        imageUrl,
+        gazePoints,
+        fixationPoints,
+        overlay,
+        speed,
+        onProgress: setProgress
+      }
+      const blob = format === 'webm'
+        ? await exportReplayAsWebM(options)
+        : await exportReplayAsGIF(options)
+      downloadBlob(blob, `eye-tracking-${overlay}-${experimentId}.${format}`)
+      toast.success(`${format === 'webm' ? 'Video' : 'GIF'} exported`)
+    } catch (error: any) {
+      console.error('Replay export failed:', error)
+      toast.error(`Export failed: ${error.message || 'Unknown error'}`)
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="w-full border-t pt-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <span className="font-medium text-gray-900">Replay Export</span>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700">Overlay:</span>
+          <select
+            value={overlay}
+            onChange={(e) => setOverlay(e.target.value as ReplayExportOverlay)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            disabled={!!exporting}
+          >
+            <option value="scanpath">Scan path</option>
+            <option value="heatmap">Heatmap</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700">Speed:</span>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            disabled={!!exporting}
+          >
+            {REPLAY_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => handleExport('webm')}
+          className="btn btn-outline"
+          disabled={!!exporting || !webmSupported}
+          title={webmSupported ? undefined : 'Video recording is not supported in this browser'}
+        >
+          {exporting === 'webm' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Film className="h-4 w-4 mr-2" />}
+          Export Video (WebM)
+        </button>
+        <button
+          onClick={() => handleExport('gif')}
+          className="btn btn-outline"
+          disabled={!!exporting}
+        >
+          {exporting === 'gif' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ImageIcon className="h-4 w-4 mr-2" />}
+          Export GIF
+        </button>
+        {exporting && (
+          <span className="text-sm text-gray-600">
+            {exporting === 'webm' ? 'Recording' : 'Encoding'}… {Math.round(progress * 100)}%
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import { useState, useMemo } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Fixation } from '../utils/fixationDetection'
+import { createThirdsGrid, FlowRegion } from '../utils/attentionFlow'
+import { compareScanpaths, SIMILARITY_MEASURE_LABELS, MultiMatchScores } from '../utils/scanpathSimilarity'
+
+// Colors of the two scan paths being compared
+const SCANPATH_COLORS = { a: '#3b82f6', b: '#f97316' }
+
+const MULTIMATCH_MEASURES: Array<keyof MultiMatchScores> = ['shape', 'direction', 'length', 'position', 'duration']
+
+interface ScanpathComparisonProps {
+  pictureId: string
+  imageUrl: string
+  // Completed eye tracking experiments on this picture
+  experiments: Array<{ _id: string; createdAt: number; eyeTrackingData?: { fixationPoints?: Fixation[] } }>
+}
+
+export function ScanpathComparison({ pictureId, imageUrl, experiments }: ScanpathComparisonProps) {
+  const areasOfInterest = useQuery(api.areasOfInterest.getPictureAreasOfInterest, { pictureId: pictureId as any })
+
+  const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null)
+  const [selectedA, setSelectedA] = useState<string | null>(null)
+  const [selectedB, setSelectedB] = useState<string | null>(null)
+  const [regionSource, setRegionSource] = useState<'thirds' | 'aoi'>('thirds')
+
+  const idA = selectedA ?? experiments[0]?._id
+  const idB = selectedB ?? experiments[1]?._id ?? experiments[0]?._id
+  const fixationsA = experiments.find(exp => exp._id === idA)?.eyeTrackingData?.fixationPoints || []
+  const fixationsB = experiments.find(exp => exp._id === idB)?.eyeTrackingData?.fixationPoints || []
+
+  const hasAreasOfInterest = (areasOfInterest?.length ?? 0) > 0
+  const effectiveRegionSource = regionSource === 'aoi' && hasAreasOfInterest ? 'aoi' : 'thirds'
+
+  const regions: FlowRegion[] = useMemo(() => {
+    if (!naturalSize) return []
+    return effectiveRegionSource === 'aoi' && areasOfInterest
+      ? areasOfInterest
+      : createThirdsGrid(naturalSize.width, naturalSize.height)
+  }, [naturalSize, effectiveRegionSource, areasOfInterest])
+
+  const comparison = useMemo(() => naturalSize
+    ? compareScanpaths(fixationsA, fixationsB, {
+      regions,
+      imageWidth: naturalSize.width,
+      imageHeight: naturalSize.height
+    })
+    : null, [fixationsA, fixationsB, regions, naturalSize])
+
+  const regionName = (regionId: string) => regions.find(region => region._id === regionId)?.name ?? regionId
+  const sessionLabel = (exp: { createdAt: number }, index: number) =>
+    `Session ${index + 1} — ${new Date(exp.createdAt).toLocaleString()}`
+
+  const strokeWidth = naturalSize ? Math.max(2, naturalSize.width / 400) : 2
+
+  const renderScanpath = (fixations: Fixation[], color: string) => {
+    const sorted = [...fixations].sort((a, b) => a.startTime - b.startTime)
+    return (
+      <g>
+        <polyline
+          points={sorted.map(f => `${f.x},${f.y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeOpacity={0.8}
+        />
+        {sorted.map((fixation, index) => (
+          <circle
+            key={index}
+            cx={fixation.x}
+            cy={fixation.y}
+            r={strokeWidth * (index === 0 ? 4 : 2.5)}
+            fill={color}
+            fillOpacity={index === 0 ? 1 : 0.7}
+          />
+        ))}
+      </g>
+    )
+  }
+
+  const selectClass = 'border border-gray-300 rounded-md px-2 py-1 text-sm'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: SCANPATH_COLORS.a }} />
+          <select value={idA} onChange={(e) => setSelectedA(e.target.value)} className={selectClass}>
+            {experiments.map((exp, index) => (
+              <option key={exp._id} value={exp._id}>{sessionLabel(exp, index)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: SCANPATH_COLORS.b }} />
+          <select value={idB} onChange={(e) => setSelectedB(e.target.value)} className={selectClass}>
+            {experiments.map((exp, index) => (
+              <option key={exp._id} value={exp._id}>{sessionLabel(exp, index)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700 font-medium">Regions:</span>
+          <select
+            value={effectiveRegionSource}
+            onChange={(e) => setRegionSource(e.target.value as 'thirds' | 'aoi')}
+            className={selectClass}
+          >
+            <option value="thirds">Rule-of-thirds grid (3×3)</option>
+            <option value="aoi" disabled={!hasAreasOfInterest}>
+              Areas of interest{hasAreasOfInterest ? ` (${areasOfInterest!.length})` : ' - none defined'}
+            </option>
+          </select>
+        </label>
+      </div>
+
+      {idA === idB && (
+        <p className="text-xs text-gray-500">Both sides show the same session - pick two different ones to compare.</p>
+      )}
+
+      <div className="relative">
+        <img
+          src={imageUrl}
+          alt="Scan path comparison"
+          className="w-full h-auto rounded-lg select-none"
+          draggable={false}
+          onLoad={(e) => setNaturalSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight
+          })}
+        />
+        {naturalSize && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+            preserveAspectRatio="none"
+          >
+            {renderScanpath(fixationsA, SCANPATH_COLORS.a)}
+            {renderScanpath(fixationsB, SCANPATH_COLORS.b)}
+          </svg>
+        )}
+      </div>
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+            <div className="p-2 bg-gray-50 rounded-lg">
+              <div className="font-semibold text-gray-900">
+                {comparison.sequenceSimilarity.toFixed(2)}
+                <span className="ml-1 text-xs font-normal text-gray-500">
+                  ({comparison.editDistance} edit{comparison.editDistance === 1 ? '' : 's'})
+                </span>
+              </div>
+              <div className="text-xs text-gray-600">{SIMILARITY_MEASURE_LABELS.sequence}</div>
+            </div>
+            {MULTIMATCH_MEASURES.map(measure => (
+              <div key={measure} className="p-2 bg-gray-50 rounded-lg">
+                <div className="font-semibold text-gray-900">
+                  {comparison.multiMatch ? comparison.multiMatch[measure].toFixed(2) : 'N/A'}
+                </div>
+                <div className="text-xs text-gray-600">{SIMILARITY_MEASURE_LABELS[measure]}</div>
+              </div>
+            ))}
+          </div>
+          {!comparison.multiMatch && (
+            <p className="text-xs text-gray-500">
+              MultiMatch needs at least two fixations in each session.
+            </p>
+          )}
+          <div className="space-y-1 text-xs text-gray-700">
+            <p>
+              <span className="font-medium" style={{ color: SCANPATH_COLORS.a }}>Regions visited: </span>
+              {comparison.sequenceA.map(regionName).join(' → ') || 'none'}
+            </p>
+            <p>
+              <span className="font-medium" style={{ color: SCANPATH_COLORS.b }}>Regions visited: </span>
+              {comparison.sequenceB.map(regionName).join(' → ') || 'none'}
+            </p>
+          </div>
+          <p className="text-xs text-gray-500">
+            All scores run from 0 to 1, where 1 means identical. The larger dot marks where each scan path starts.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Link2, Copy, Ban, Plus } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface ShareLinksPanelProps {
+  pictureId: string
+  studyId: string
+  userId: string
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  full: 'bg-yellow-100 text-yellow-800',
+  revoked: 'bg-red-100 text-red-800'
+}
+
+export function ShareLinksPanel({ pictureId, studyId, userId }: ShareLinksPanelProps) {
+  const shareLinks = useQuery(api.shareLinks.getStudyShareLinks, { studyId: studyId as any, userId: userId as any })
+  const createShareLink = useMutation(api.shareLinks.createShareLink)
+  const revokeShareLink = useMutation(api.shareLinks.revokeShareLink)
+  const [isCreating, setIsCreating] = useState(false)
+  const [label, setLabel] = useState('')
+  const [maxParticipants, setMaxParticipants] = useState('')
+  const [expiryDate, setExpiryDate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const linkUrl = (token: string) => `${window.location.origin}/participate/${token}`
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(linkUrl(token))
+      toast.success('Link copied to clipboard')
+    } catch {
+      toast.error('Could not copy the link - select and copy it manually')
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const result = await createShareLink({
+        pictureId: pictureId as any,
+        studyId: studyId as any,
+        userId: userId as any,
+        label: label || undefined,
+        maxParticipants: maxParticipants ? Number(maxParticipants) : undefined,
+        // Links stay open until the end of the chosen day
+        expiresAt: expiryDate ? new Date(`${expiryDate}T23:59:59`).getTime() : undefined
+      })
+      if (result.success && result.token) {
+        toast.success('Share link created')
+        setLabel('')
+        setMaxParticipants('')
+        setExpiryDate('')
+        setIsCreating(false)
+        copyLink(result.token)
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to create share link: ${error.message || 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (shareLinkId: string) => {
+    if (!window.confirm('Disable this link? Participants will no longer be able to use it.')) return
+    try {
+      const result = await revokeShareLink({ shareLinkId: shareLinkId as any, userId: userId as any })
+      if (!result.success) toast.error(result.message)
+    } catch (error: any) {
+      toast.error(`Failed to revoke share link: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title flex items-center">
+          <Link2 className="h-5 w-5 mr-2" />
+          Participant Links
+        </h2>
+        <p className="card-description">
+          Send a link to remote participants. They calibrate and record a session in their own browser, and the
+          session is added to this study. Sessions count toward your plan, not the participant's.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        {shareLinks === undefined ? (
+          <div className="text-sm text-gray-600">Loading links...</div>
+        ) : shareLinks.length === 0 ? (
+          <p className="text-sm text-gray-600">No participant links yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {shareLinks.map((link: any) => (
+              <div key={link._id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{link.label || 'Participant link'}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_STYLES[link.status]}`}>
+                      {link.status}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button onClick={() => copyLink(link.token)} className="btn btn-outline btn-sm" disabled={link.status !== 'active'}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </button>
+                    {link.status !== 'revoked' && (
+                      <button onClick={() => handleRevoke(link._id)} className="btn btn-outline btn-sm">
+                        <Ban className="h-4 w-4 mr-2" />
+                        Disable
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <input type="text" readOnly value={linkUrl(link.token)} className="input w-full text-xs font-mono" />
+                <div className="text-xs text-gray-600">
+                  {link.participantCount}{link.maxParticipants !== undefined ? ` / ${link.maxParticipants}` : ''} participants
+                  {link.expiresAt && ` • Expires ${new Date(link.expiresAt).toLocaleString()}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isCreating ? (
+          <div className="p-4 border rounded-lg space-y-3">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional, e.g. 'Art class, week 1')"
+              className="input w-full"
+            />
+            <div className="grid md:grid-cols-2 gap-3">
+              <label className="text-sm text-gray-700 space-y-1">
+                <span className="block font-medium">Participant cap</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={maxParticipants}
+                  onChange={(e) => setMaxParticipants(e.target.value)}
+                  placeholder="Unlimited"
+                  className="input w-full"
+                />
+              </label>
+              <label className="text-sm text-gray-700 space-y-1">
+                <span className="block font-medium">Expiry date</span>
+                <input
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="input w-full"
+                />
+              </label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button onClick={handleCreate} className="btn btn-primary btn-sm" disabled={isSaving}>
+                <Link2 className="h-4 w-4 mr-2" />
+                {isSaving ? 'Creating...' : 'Create Link'}
+              </button>
+              <button onClick={() => setIsCreating(false)} className="btn btn-outline btn-sm" disabled={isSaving}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={() => setIsCreating(true)} className="btn btn-outline btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Participant Link
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { useNavigate } from 'react-router-dom'
+import { Plus, Users, ExternalLink } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface StudiesPanelProps {
+  pictureId: string
+  // Eye tracking experiments on the picture
+  experiments: any[]
+  canEdit: boolean
+  userId: string | null
+}
+
+export function StudiesPanel({ pictureId, experiments, canEdit, userId }: StudiesPanelProps) {
+  const navigate = useNavigate()
+  const studies = useQuery(api.studies.getPictureStudies, { pictureId: pictureId as any })
+  const createStudy = useMutation(api.studies.createStudy)
+  const [isCreating, setIsCreating] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [includeExisting, setIncludeExisting] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Completed sessions that are not part of any study yet
+  const unassignedSessions = experiments.filter(exp => exp.status === 'completed' && !exp.studyId)
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Please name the study')
+      return
+    }
+    setIsSaving(true)
+    try {
+      const result = await createStudy({
+        pictureId: pictureId as any,
+        userId: (userId || undefined) as any,
+        name,
+        description: description || undefined,
+        experimentIds: includeExisting ? unassignedSessions.map(exp => exp._id) : undefined
+      })
+      if (result.success && result.studyId) {
+        toast.success(`Created study "${name.trim()}"`)
+        setName('')
+        setDescription('')
+        setIsCreating(false)
+        navigate(`/studies/${result.studyId}`)
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to create study: ${error.message || 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (studies === undefined) {
+    return <div className="text-sm text-gray-600">Loading studies...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {studies.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No studies yet. A study groups eye tracking sessions from many participants on this picture and shows
+          their combined heatmap, time to first fixation and agreement.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {studies.map((study: any) => (
+            <div key={study._id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-medium text-gray-900">{study.name}</div>
+                <div className="text-sm text-gray-600">
+                  {study.sessionCount} session{study.sessionCount === 1 ? '' : 's'} • Created {new Date(study.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={() => navigate(`/studies/${study._id}`)}
+                className="btn btn-outline btn-sm"
+              >
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        isCreating ? (
+          <div className="p-4 border rounded-lg space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Study name"
+              className="input w-full"
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="input w-full"
+              rows={2}
+            />
+            {unassignedSessions.length > 0 && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeExisting}
+                  onChange={(e) => setIncludeExisting(e.target.checked)}
+                />
+                <span>
+                  Include {unassignedSessions.length} existing session{unassignedSessions.length === 1 ? '' : 's'} on this picture
+                </span>
+              </label>
+            )}
+            <div className="flex items-center space-x-2">
+              <button onClick={handleCreate} className="btn btn-primary btn-sm" disabled={isSaving}>
+                <Users className="h-4 w-4 mr-2" />
+                {isSaving ? 'Creating...' : 'Create Study'}
+              </button>
+              <button onClick={() => setIsCreating(false)} className="btn btn-outline btn-sm" disabled={isSaving}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={() => setIsCreating(true)} className="btn btn-outline btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Study
+          </button>
+        )
+      )}
+    </div>
+  )
+}
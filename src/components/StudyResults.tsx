@@ -0,0 +1,500 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Map, Users, Target, BarChart3, Download, GitCompare } from 'lucide-react'
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { aggregateStudy, describeAgreement, StudySession } from '../utils/studyAggregation'
+import { AreaOfInterest } from '../utils/aoiMetrics'
+import { createThirdsGrid } from '../utils/attentionFlow'
+import {
+  meanPairwiseSimilarity,
+  similarityMatrix,
+  similarityValue,
+  SimilarityMeasure,
+  SIMILARITY_MEASURE_LABELS
+} from '../utils/scanpathSimilarity'
+import {
+  renderHeatmap,
+  colormapGradient,
+  HeatmapColormap,
+  HeatmapMode,
+  HeatmapWeighting,
+  HEATMAP_COLORMAP_LABELS
+} from '../utils/heatmap'
+import { downloadBlob } from '../utils/replayExport'
+
+interface StudyResultsProps {
+  sessions: StudySession[]
+  areasOfInterest: AreaOfInterest[]
+  imageUrl: string
+  imageWidth: number
+  imageHeight: number
+  studyName: string
+}
+
+type StudyTab = 'heatmap' | 'participants' | 'scanpaths' | 'aoi' | 'stats'
+
+export function StudyResults({
+  sessions,
+  areasOfInterest,
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  studyName
+}: StudyResultsProps) {
+  const [activeTab, setActiveTab] = useState<StudyTab>('heatmap')
+  const [heatmapColormap, setHeatmapColormap] = useState<HeatmapColormap>('jet')
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>('color')
+  const [heatmapOpacity, setHeatmapOpacity] = useState(0.6)
+  const [heatmapWeighting, setHeatmapWeighting] = useState<HeatmapWeighting>('gaze')
+  const [bandwidthPercent, setBandwidthPercent] = useState<number>(EYE_TRACKING_EXPERIMENT.HEATMAP_BANDWIDTH_PERCENT)
+  const [similarityMeasure, setSimilarityMeasure] = useState<SimilarityMeasure>('sequence')
+  // Regions for the sequence comparison: the rule-of-thirds grid or the picture's areas of interest
+  const [similarityRegionSource, setSimilarityRegionSource] = useState<'thirds' | 'aoi'>('thirds')
+  const [imageLoaded, setImageLoaded] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  const aggregate = useMemo(() => aggregateStudy(sessions, areasOfInterest, {
+    imageWidth,
+    imageHeight,
+    bandwidth: (imageWidth * bandwidthPercent) / 100,
+    weighting: heatmapWeighting
+  }), [sessions, areasOfInterest, imageWidth, imageHeight, bandwidthPercent, heatmapWeighting])
+
+  const effectiveRegionSource = similarityRegionSource === 'aoi' && areasOfInterest.length > 0 ? 'aoi' : 'thirds'
+
+  const scanpathMatrix = useMemo(() => similarityMatrix(
+    sessions.map(session => session.fixationPoints),
+    {
+      regions: effectiveRegionSource === 'aoi' ? areasOfInterest : createThirdsGrid(imageWidth, imageHeight),
+      imageWidth,
+      imageHeight
+    }
+  ), [sessions, areasOfInterest, effectiveRegionSource, imageWidth, imageHeight])
+
+  const meanScanpathSimilarity = meanPairwiseSimilarity(scanpathMatrix, similarityMeasure)
+
+  // Keep the canvas sized to the displayed image (1:1 pixel ratio)
+  const syncCanvasSize = useCallback(() => {
+    if (!canvasRef.current || !imageRef.current) return
+    const width = imageRef.current.clientWidth
+    const height = imageRef.current.clientHeight
+    if (width === 0 || height === 0) return
+    if (canvasRef.current.width !== width || canvasRef.current.height !== height) {
+      canvasRef.current.width = width
+      canvasRef.current.height = height
+    }
+  }, [])
+
+  const drawHeatmap = useCallback(() => {
+    if (!canvasRef.current) return
+    syncCanvasSize()
+    renderHeatmap(canvasRef.current, aggregate.heatmap, {
+      colormap: heatmapColormap,
+      mode: heatmapMode,
+      opacity: heatmapOpacity
+    })
+  }, [aggregate.heatmap, heatmapColormap, heatmapMode, heatmapOpacity, syncCanvasSize])
+
+  useEffect(() => {
+    if (!imageLoaded || activeTab !== 'heatmap') return
+    drawHeatmap()
+    window.addEventListener('resize', drawHeatmap)
+    return () => window.removeEventListener('resize', drawHeatmap)
+  }, [imageLoaded, activeTab, drawHeatmap])
+
+  const exportAggregate = () => {
+    const dataStr = JSON.stringify({
+      study: studyName,
+      sessionCount: aggregate.sessionCount,
+      agreement: aggregate.agreement,
+      participants: aggregate.participants,
+      aoiMetrics: aggregate.aoiMetrics,
+      meanFirstFixationDelay: aggregate.meanFirstFixationDelay,
+      meanSessionDuration: aggregate.meanSessionDuration,
+      meanFixationCount: aggregate.meanFixationCount,
+      scanpathSimilarity: {
+        regions: effectiveRegionSource,
+        sequence: meanPairwiseSimilarity(scanpathMatrix, 'sequence'),
+        multiMatch: meanPairwiseSimilarity(scanpathMatrix, 'multiMatch')
+      },
+      heatmap: aggregate.heatmap
+    }, null, 2)
+    downloadBlob(new Blob([dataStr], { type: 'application/json' }), 'study-results.json')
+  }
+
+  const tabs = [
+    { id: 'heatmap', label: 'Aggregate Heatmap', icon: Map },
+    { id: 'participants', label: 'Agreement', icon: Users },
+    { id: 'scanpaths', label: 'Scan Paths', icon: GitCompare },
+    { id: 'aoi', label: 'Areas of Interest', icon: Target },
+    { id: 'stats', label: 'Statistics', icon: BarChart3 }
+  ]
+
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-600">
+        No completed eye tracking sessions to show. Record a session or clear the participant filters.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+          {tabs.map(tab => {
+            const Icon = tab.icon
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id as StudyTab)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-md transition-colors cursor-pointer ${
+                  activeTab === tab.id
+                    ? 'bg-white shadow-sm text-primary-600'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                <span>{tab.label}</span>
+              </button>
+            )
+          })}
+        </div>
+
+        <button onClick={exportAggregate} className="btn btn-outline btn-sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export Data
+        </button>
+      </div>
+
+      <div className="max-w-4xl mx-auto">
+        {activeTab === 'heatmap' && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Aggregate Heatmap</h2>
+              <p className="card-description">
+                Combined attention of {aggregate.sessionCount} participant{aggregate.sessionCount === 1 ? '' : 's'}.
+                Each participant contributes equally, regardless of session length.
+              </p>
+              <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Colormap:</span>
+                  <select
+                    value={heatmapColormap}
+                    onChange={(e) => setHeatmapColormap(e.target.value as HeatmapColormap)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    disabled={heatmapMode === 'fog'}
+                  >
+                    {(Object.keys(HEATMAP_COLORMAP_LABELS) as HeatmapColormap[]).map(colormap => (
+                      <option key={colormap} value={colormap}>{HEATMAP_COLORMAP_LABELS[colormap]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Mode:</span>
+                  <select
+                    value={heatmapMode}
+                    onChange={(e) => setHeatmapMode(e.target.value as HeatmapMode)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="color">Heatmap</option>
+                    <option value="fog">Fog (reveal attended areas)</option>
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Weighting:</span>
+                  <select
+                    value={heatmapWeighting}
+                    onChange={(e) => setHeatmapWeighting(e.target.value as HeatmapWeighting)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="gaze">Gaze points</option>
+                    <option value="fixationDuration">Fixation duration</option>
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Bandwidth:</span>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    value={bandwidthPercent}
+                    onChange={(e) => setBandwidthPercent(Number(e.target.value))}
+                  />
+                  <span className="text-gray-600 w-12">{bandwidthPercent}%</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Opacity:</span>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={heatmapOpacity}
+                    onChange={(e) => setHeatmapOpacity(Number(e.target.value))}
+                  />
+                </label>
+              </div>
+            </div>
+            <div className="card-content">
+              <div className="relative">
+                <img
+                  ref={imageRef}
+                  src={imageUrl}
+                  alt="Study picture"
+                  className="w-full h-auto rounded-lg shadow-lg"
+                  onLoad={() => setImageLoaded(true)}
+                />
+                <canvas
+                  ref={canvasRef}
+                  className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                />
+              </div>
+              <div className="mt-4 flex items-center justify-center text-sm">
+                {heatmapMode === 'fog' ? (
+                  <span className="text-gray-600">Fog covers areas that received little attention</span>
+                ) : (
+                  <div className="flex items-center space-x-3">
+                    <span>Low attention</span>
+                    <div className="w-40 h-3 rounded" style={{ background: colormapGradient(heatmapColormap) }}></div>
+                    <span>High attention</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'participants' && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Inter-participant Agreement</h2>
+              <p className="card-description">
+                How similar participants' heatmaps are (Pearson correlation, -1 to 1). A participant's score compares
+                their heatmap with the combined heatmap of everyone else.
+              </p>
+            </div>
+            <div className="card-content space-y-4">
+              {aggregate.agreement === null ? (
+                <p className="text-sm text-gray-600">At least two participants are needed to measure agreement.</p>
+              ) : (
+                <div className="p-4 bg-purple-50 rounded-lg">
+                  <div className="text-2xl font-bold text-purple-600">
+                    {aggregate.agreement.toFixed(2)}
+                  </div>
+                  <div className="text-sm text-purple-700">
+                    Mean pairwise agreement ({describeAgreement(aggregate.agreement)})
+                  </div>
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1 pr-2">Participant</th>
+                    <th className="py-1">Agreement with others</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {aggregate.participants.map(participant => (
+                    <tr key={participant.experimentId} className="border-b border-gray-100">
+                      <td className="py-1 pr-2">{participant.label}</td>
+                      <td className="py-1 font-mono">
+                        {participant.agreement === null
+                          ? '—'
+                          : `${participant.agreement.toFixed(2)} (${describeAgreement(participant.agreement)})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'scanpaths' && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Scan Path Similarity</h2>
+              <p className="card-description">
+                How alike participants' viewing sequences are, from 0 (nothing in common) to 1 (identical).
+                The region sequence compares the order of regions visited; MultiMatch compares the shape, direction,
+                length, position and duration of aligned saccades.
+              </p>
+              <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Measure:</span>
+                  <select
+                    value={similarityMeasure}
+                    onChange={(e) => setSimilarityMeasure(e.target.value as SimilarityMeasure)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(SIMILARITY_MEASURE_LABELS) as SimilarityMeasure[]).map(measure => (
+                      <option key={measure} value={measure}>{SIMILARITY_MEASURE_LABELS[measure]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-700 font-medium">Regions:</span>
+                  <select
+                    value={effectiveRegionSource}
+                    onChange={(e) => setSimilarityRegionSource(e.target.value as 'thirds' | 'aoi')}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    disabled={similarityMeasure !== 'sequence'}
+                  >
+                    <option value="thirds">Rule-of-thirds grid (3×3)</option>
+                    <option value="aoi" disabled={areasOfInterest.length === 0}>
+                      Areas of interest{areasOfInterest.length > 0 ? ` (${areasOfInterest.length})` : ' - none defined'}
+                    </option>
+                  </select>
+                </label>
+              </div>
+            </div>
+            <div className="card-content space-y-4">
+              {meanScanpathSimilarity === null ? (
+                <p className="text-sm text-gray-600">At least two participants are needed to compare scan paths.</p>
+              ) : (
+                <div className="p-4 bg-purple-50 rounded-lg">
+                  <div className="text-2xl font-bold text-purple-600">
+                    {meanScanpathSimilarity.toFixed(2)}
+                  </div>
+                  <div className="text-sm text-purple-700">
+                    Mean pairwise similarity ({SIMILARITY_MEASURE_LABELS[similarityMeasure]})
+                  </div>
+                </div>
+              )}
+              <div className="overflow-x-auto">
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="py-1 pr-2"></th>
+                      {sessions.map((session, index) => (
+                        <th key={session.experimentId} className="py-1 px-1 font-mono text-center" title={session.label}>
+                          {index + 1}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sessions.map((session, i) => (
+                      <tr key={session.experimentId}>
+                        <td className="py-1 pr-2 whitespace-nowrap">
+                          <span className="font-mono text-gray-500 mr-2">{i + 1}</span>
+                          {session.label}
+                        </td>
+                        {scanpathMatrix[i].map((comparison, j) => {
+                          const value = comparison ? similarityValue(comparison, similarityMeasure) : null
+                          return (
+                            <td
+                              key={sessions[j].experimentId}
+                              className={`py-1 px-1 font-mono text-center text-xs ${value !== null && value > 0.5 ? 'text-white' : 'text-gray-700'}`}
+                              style={{ backgroundColor: value !== null ? `rgba(124, 58, 237, ${value * 0.9})` : undefined }}
+                            >
+                              {i === j ? '—' : value !== null ? value.toFixed(2) : 'N/A'}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {similarityMeasure !== 'sequence' && (
+                <p className="text-xs text-gray-500">
+                  MultiMatch needs at least two fixations per participant; pairs without them show N/A.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'aoi' && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Areas of Interest</h2>
+              <p className="card-description">
+                Mean time to first fixation is averaged over participants who fixated the area.
+              </p>
+            </div>
+            <div className="card-content">
+              {aggregate.aoiMetrics.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No areas of interest have been drawn on this picture yet.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-1 pr-2">Area</th>
+                      <th className="py-1 pr-2">Mean TTFF</th>
+                      <th className="py-1 pr-2">Mean Dwell</th>
+                      <th className="py-1 pr-2">Mean Fixations</th>
+                      <th className="py-1">Hit Ratio</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aggregate.aoiMetrics.map(metrics => (
+                      <tr key={metrics.aoiId} className="border-b border-gray-100">
+                        <td className="py-1 pr-2">{metrics.name}</td>
+                        <td className="py-1 pr-2 font-mono">
+                          {metrics.averageTimeToFirstFixation === null
+                            ? '—'
+                            : `${Math.round(metrics.averageTimeToFirstFixation)}ms`}
+                        </td>
+                        <td className="py-1 pr-2 font-mono">{Math.round(metrics.averageDwellTime)}ms</td>
+                        <td className="py-1 pr-2 font-mono">{metrics.averageFixationCount.toFixed(1)}</td>
+                        <td className="py-1 font-mono">
+                          {Math.round(metrics.hitRatio * 100)}% ({metrics.hitCount}/{metrics.sessionCount})
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'stats' && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Study Statistics</h2>
+              <p className="card-description">
+                Averages across all participants in the study
+              </p>
+            </div>
+            <div className="card-content">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-4 bg-blue-50 rounded-lg">
+                  <div className="text-2xl font-bold text-blue-600">{aggregate.sessionCount}</div>
+                  <div className="text-sm text-blue-700">Participants</div>
+                </div>
+                <div className="p-4 bg-green-50 rounded-lg">
+                  <div className="text-2xl font-bold text-green-600">
+                    {(aggregate.meanSessionDuration / 1000).toFixed(1)}s
+                  </div>
+                  <div className="text-sm text-green-700">Mean Session Duration</div>
+                </div>
+                <div className="p-4 bg-orange-50 rounded-lg">
+                  <div className="text-2xl font-bold text-orange-600">
+                    {aggregate.meanFixationCount.toFixed(1)}
+                  </div>
+                  <div className="text-sm text-orange-700">Mean Fixations per Participant</div>
+                </div>
+                <div className="p-4 bg-purple-50 rounded-lg">
+                  <div className="text-2xl font-bold text-purple-600">
+                    {aggregate.meanFirstFixationDelay === null
+                      ? '—'
+                      : `${Math.round(aggregate.meanFirstFixationDelay)}ms`}
+                  </div>
+                  <div className="text-sm text-purple-700">Mean Time to First Fixation</div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import { useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { ClipboardList, Save } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { DEFAULT_CONSENT_TEXT, QUESTIONNAIRE_QUESTIONS, QuestionnaireField } from '../utils/participantQuestionnaire'
+
+interface StudySetupPanelProps {
+  studyId: string
+  userId: string | null
+  consentText?: string
+  questionnaireFields?: string[]
+}
+
+export function StudySetupPanel({ studyId, userId, consentText, questionnaireFields }: StudySetupPanelProps) {
+  const updateStudy = useMutation(api.studies.updateStudy)
+  const [draftConsent, setDraftConsent] = useState(consentText || '')
+  const [draftFields, setDraftFields] = useState<string[]>(questionnaireFields || [])
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Pick up changes saved elsewhere
+  useEffect(() => {
+    setDraftConsent(consentText || '')
+    setDraftFields(questionnaireFields || [])
+  }, [consentText, questionnaireFields])
+
+  const toggleField = (field: QuestionnaireField) => {
+    setDraftFields(prev => prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field])
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const result = await updateStudy({
+        studyId: studyId as any,
+        userId: (userId || undefined) as any,
+        consentText: draftConsent,
+        // Keep the questionnaire order stable regardless of click order
+        questionnaireFields: QUESTIONNAIRE_QUESTIONS.map(q => q.field).filter(field => draftFields.includes(field))
+      })
+      if (result.success) {
+        toast.success('Participant setup saved')
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to save participant setup: ${error.message || 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title flex items-center">
+          <ClipboardList className="h-5 w-5 mr-2" />
+          Consent &amp; Questionnaire
+        </h2>
+        <p className="card-description">
+          Participants see this before their webcam is turned on. Answers are saved with each session and can be
+          used to filter the results below.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <label className="block text-sm space-y-1">
+          <span className="block font-medium text-gray-700">Consent text</span>
+          <textarea
+            value={draftConsent}
+            onChange={(e) => setDraftConsent(e.target.value)}
+            placeholder={DEFAULT_CONSENT_TEXT}
+            className="input w-full"
+            rows={4}
+          />
+          <span className="block text-xs text-gray-500">Leave empty to use the default text shown above.</span>
+        </label>
+        <div className="text-sm space-y-2">
+          <span className="block font-medium text-gray-700">Questions</span>
+          {QUESTIONNAIRE_QUESTIONS.map(question => (
+            <label key={question.field} className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={draftFields.includes(question.field)}
+                onChange={() => toggleField(question.field)}
+              />
+              <span>{question.label}</span>
+            </label>
+          ))}
+        </div>
+        <button onClick={handleSave} className="btn btn-primary btn-sm" disabled={isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
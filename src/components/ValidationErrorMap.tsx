@@ -0,0 +1,59 @@
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { CalibrationValidation } from '../utils/calibrationValidation'
+
+interface ValidationErrorMapProps {
+  validation: CalibrationValidation
+}
+
+// Per-target error map drawn over the viewport: each target is connected to the mean gaze
+// position measured while it was fixated, labelled with the error in degrees
+export function ValidationErrorMap({ validation }: ValidationErrorMapProps) {
+  // Targets were placed for the viewport at validation time; rescale if the window changed
+  const scaleX = validation.viewportWidth > 0 ? window.innerWidth / validation.viewportWidth : 1
+  const scaleY = validation.viewportHeight > 0 ? window.innerHeight / validation.viewportHeight : 1
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 2 }}>
+      {validation.points.map((point, index) => {
+        const tx = point.target.x * scaleX
+        const ty = point.target.y * scaleY
+        const color = point.errorDeg === null
+          ? '#9ca3af'
+          : point.errorDeg <= EYE_TRACKING_EXPERIMENT.VALIDATION_MAX_ERROR_DEG ? '#16a34a' : '#dc2626'
+
+        return (
+          <g key={index}>
+            {point.meanGaze && (
+              <>
+                <line
+                  x1={tx}
+                  y1={ty}
+                  x2={point.meanGaze.x * scaleX}
+                  y2={point.meanGaze.y * scaleY}
+                  stroke={color}
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                />
+                <circle
+                  cx={point.meanGaze.x * scaleX}
+                  cy={point.meanGaze.y * scaleY}
+                  r={Math.max(4, (point.precisionPx ?? 0) * Math.min(scaleX, scaleY))}
+                  fill={color}
+                  fillOpacity={0.25}
+                  stroke={color}
+                />
+              </>
+            )}
+            <circle cx={tx} cy={ty} r={8} fill="none" stroke="#1f2937" strokeWidth={2} />
+            <circle cx={tx} cy={ty} r={2} fill="#1f2937" />
+            <text x={tx + 12} y={ty - 12} fontSize={12} fontWeight={600} fill={color}>
+              {point.errorDeg !== null
+                ? `${point.errorDeg.toFixed(1)}° (${Math.round(point.errorPx!)} px)`
+                : 'no samples'}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
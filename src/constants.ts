@@ -14,11 +14,81 @@ export const EYE_TRACKING_EXPERIMENT = {
   MAX_GAZE_POINTS: 10000,
   
   // Fixation detection parameters
+  // Algorithm used for new experiments: 'centroid', 'idt' (dispersion) or 'ivt' (velocity)
+  FIXATION_ALGORITHM: 'centroid',
   FIXATION_THRESHOLD_PX: 50,
   FIXATION_DURATION_MS: 100,
+  FIXATION_MIN_POINTS: 3,
+  // Thresholds in degrees of visual angle (used by I-DT / I-VT when a pixels-per-degree estimate is available)
+  FIXATION_DISPERSION_DEG: 1.0,
+  FIXATION_VELOCITY_DEG_PER_SEC: 30,
+  // Pixel fallback for I-VT when no pixels-per-degree estimate is available
+  FIXATION_VELOCITY_PX_PER_SEC: 1000,
+  // Assumed distance between the participant's eyes and the screen
+  VIEWING_DISTANCE_CM: 60,
+  
+  // Heatmap generation (Gaussian kernel density)
+  HEATMAP_GRID_COLUMNS: 96,
+  // Kernel standard deviation as a percentage of the image width
+  HEATMAP_BANDWIDTH_PERCENT: 3,
   
   // Number of clicks required per calibration point (like WebGazer demo)
   CLICKS_PER_CALIBRATION_POINT: 3,
+  // Default calibration layout: 5, 9, 13 or 16 points
+  CALIBRATION_GRID_POINTS: 9,
+
+  // Post-calibration validation: the participant fixates new targets without clicking
+  // Time to let the eyes settle on a target before samples count
+  VALIDATION_SETTLE_MS: 800,
+  // Time spent sampling gaze on each target
+  VALIDATION_SAMPLE_MS: 1500,
+  // Minimum gaze samples per target for a usable measurement
+  VALIDATION_MIN_SAMPLES: 5,
+  // Pass thresholds in degrees of visual angle (webcam trackers typically reach 2-4°)
+  VALIDATION_MAX_ERROR_DEG: 4,
+  VALIDATION_MAX_PRECISION_DEG: 2,
+
+  // Drift checks during a session (0 = off; the participant can pick an interval)
+  DRIFT_CHECK_INTERVAL_SECONDS: 0,
+  DRIFT_CHECK_INTERVAL_OPTIONS_SECONDS: [0, 5, 10],
+  // Offsets below this are left alone
+  DRIFT_MIN_CORRECTION_DEG: 0.5,
+  // Offsets above this prompt a quick recalibration instead of a shift
+  DRIFT_MAX_CORRECTION_DEG: 3,
+
+  // Head pose monitoring: allowed change from the pose held during calibration
+  HEAD_POSE_MAX_YAW_DEG: 15,
+  HEAD_POSE_MAX_PITCH_DEG: 12,
+  // Allowed change in apparent face size (moving closer or further away), as a fraction
+  HEAD_DISTANCE_TOLERANCE: 0.2,
+  // Poor quality has to last this long before the participant is warned
+  HEAD_POSE_WARNING_DELAY_MS: 1000,
+
+  // Blinks and track loss: eye openness (lid distance / eye width) below this counts as closed
+  BLINK_EYE_OPENNESS_THRESHOLD: 0.2,
+  // Eye closures up to this long are blinks; longer ones count as track loss
+  GAP_BLINK_MAX_MS: 500,
+  // No gaze prediction for longer than this means the face was lost
+  GAP_MIN_MS: 250,
+  // Sessions with more of their time in gaps than this are flagged
+  GAP_MAX_FRACTION: 0.3,
+
+  // Gaze smoothing: 'none', 'kalman' (WebGazer's built-in filter), 'ema' or 'one-euro'
+  GAZE_FILTER_MODE: 'kalman',
+  // Exponential moving average weight of each new sample (0-1, lower = smoother)
+  GAZE_FILTER_EMA_ALPHA: 0.3,
+  // One Euro filter (Casiez et al., 2012): cutoff at rest (Hz), speed coefficient, derivative cutoff (Hz)
+  GAZE_FILTER_ONE_EURO_MIN_CUTOFF: 1,
+  GAZE_FILTER_ONE_EURO_BETA: 0.01,
+  GAZE_FILTER_ONE_EURO_D_CUTOFF: 1,
+
+  // Composition overlay: fixations within this distance of a guide line (% of the picture diagonal) follow it
+  COMPOSITION_GUIDE_BAND_PERCENT: 5,
+
+  // Dispersion statistics: gaze entropy is computed over a GRID_SIZE × GRID_SIZE grid, and the
+  // image counts as covered where the fixation heatmap reaches this share of its peak
+  GAZE_ENTROPY_GRID_SIZE: 5,
+  GAZE_COVERAGE_THRESHOLD: 0.1,
 } as const
 
 // Application Settings
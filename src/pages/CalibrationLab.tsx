@@ -16,10 +16,36 @@ import {
 import toast from 'react-hot-toast'
 import { EYE_TRACKING_EXPERIMENT } from '../constants'
 import { webgazerManager, GazePoint, CalibrationResult } from '../utils/webgazerManager'
+import { GAZE_FILTER_LABELS, GazeFilterMode } from '../utils/gazeFilters'
+import { CalibrationValidation } from '../utils/calibrationValidation'
+import { CalibrationValidationOverlay } from '../components/CalibrationValidationOverlay'
+import { ValidationErrorMap } from '../components/ValidationErrorMap'
+import {
+  CALIBRATION_GRID_PRESETS,
+  CALIBRATION_GRID_PRESET_SIZES,
+  CalibrationGridPreset,
+  CalibrationLayout,
+  createRegionLayout
+} from '../utils/calibrationGrids'
 import { Link } from 'react-router-dom'
 
 const CLICKS_PER_POINT = EYE_TRACKING_EXPERIMENT.CLICKS_PER_CALIBRATION_POINT
 
+// Grid presets plus a custom layout concentrated on the middle of the screen
+type GridChoice = CalibrationGridPreset | 'center'
+
+function getLayoutForChoice(choice: GridChoice): CalibrationLayout {
+  if (choice === 'center') {
+    return createRegionLayout({
+      x: window.innerWidth * 0.2,
+      y: window.innerHeight * 0.2,
+      width: window.innerWidth * 0.6,
+      height: window.innerHeight * 0.6
+    }, 3, 3, 'Center area')
+  }
+  return { type: 'preset', pointCount: choice }
+}
+
 export function CalibrationLab() {
   // State management
   const [isInitialized, setIsInitialized] = useState(false)
@@ -41,8 +67,11 @@ export function CalibrationLab() {
   const [completedCalibrationPoints, setCompletedCalibrationPoints] = useState<Set<number>>(new Set())
   const [clicksPerPoint, setClicksPerPoint] = useState<Map<number, number>>(new Map()) // Track clicks per point
   const [lastClickedPointIndex, setLastClickedPointIndex] = useState<number | null>(null) // Track last clicked point to prevent double clicks
-  // Note: Custom smoothing has been removed - we now use WebGazer's built-in Kalman filter
-  // The smoothingAlpha state is kept for backward compatibility but is no longer used
+  const [isValidating, setIsValidating] = useState(false) // Fixating validation targets after the click calibration
+  const [showErrorMap, setShowErrorMap] = useState(true)
+  const [gridChoice, setGridChoice] = useState<GridChoice>(EYE_TRACKING_EXPERIMENT.CALIBRATION_GRID_POINTS)
+  // Live smoothing, switchable while tracking to compare filters (see gazeFilters.ts)
+  const [filterMode, setFilterMode] = useState<GazeFilterMode>(() => webgazerManager.getFilterSettings().mode)
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -305,7 +334,7 @@ export function CalibrationLab() {
     }
   }, [drawTrace])
 
-  // Start calibration (9-point grid)
+  // Start calibration with the selected grid
   const startCalibration = useCallback(async () => {
     console.log('🎯 [CalibrationLab] Start calibration button clicked')
     
@@ -318,7 +347,7 @@ export function CalibrationLab() {
       setLastClickedPointIndex(null) // Reset last clicked point when starting new calibration
       
       // Start point-based calibration
-      const { points } = await webgazerManager.startPointBasedCalibration()
+      const { points } = await webgazerManager.startPointBasedCalibration(getLayoutForChoice(gridChoice))
       setCalibrationPoints(points)
       // Don't set a current point - allow clicking any point in any order (like demo)
       setCurrentCalibrationPointIndex(null)
@@ -339,7 +368,7 @@ export function CalibrationLab() {
       setIsCalibrating(false)
       setCurrentCalibrationPointIndex(null)
     }
-  }, [])
+  }, [gridChoice])
 
   // Handle click on calibration point
   // WebGazer automatically learns from clicks - we just track UI state
@@ -407,7 +436,8 @@ export function CalibrationLab() {
           setCalibrationResult(result)
           
           if (result.isValid) {
-            setIsCalibrated(true)
+            // Accuracy is only known after the validation targets have been fixated
+            setIsValidating(true)
             let message = `Calibration complete! Collected ${result.pointsCollected} points with ${(result.averageConfidence * 100).toFixed(1)}% avg confidence.`
             
             if (result.lightingQuality === 'poor') {
@@ -436,6 +466,20 @@ export function CalibrationLab() {
     }
   }, [calibrationPoints, clicksPerPoint, completedCalibrationPoints, lastClickedPointIndex])
 
+  // Validation targets done - pass or fail the calibration on measured accuracy
+  const handleValidationComplete = useCallback((validation: CalibrationValidation) => {
+    const result = webgazerManager.applyValidation(validation)
+    setCalibrationResult(result)
+    setIsValidating(false)
+    setIsCalibrated(result.isValid)
+
+    if (result.isValid) {
+      toast.success(`Calibration validated: ${validation.meanErrorDeg?.toFixed(1)}° average error.`)
+    } else {
+      toast.error(`Calibration failed validation: ${validation.failureReason}`)
+    }
+  }, [])
+
   // Start tracking
   const startTracking = useCallback(async () => {
     console.log('🎯 [CalibrationLab] Start tracking button clicked')
@@ -551,6 +595,14 @@ export function CalibrationLab() {
         style={{ zIndex: 1 }}
       />
 
+      {/* Per-target validation error map */}
+      {showErrorMap && calibrationResult?.validation && !isCalibrating && !isValidating && (
+        <ValidationErrorMap validation={calibrationResult.validation} />
+      )}
+
+      {/* Validation targets */}
+      {isValidating && <CalibrationValidationOverlay onComplete={handleValidationComplete} />}
+
       {/* Calibration Points Overlay */}
       {isCalibrating && calibrationPoints.length > 0 && (
         <div className="absolute inset-0 z-20 pointer-events-none">
@@ -690,16 +742,35 @@ export function CalibrationLab() {
                     Click to start calibration. You'll need to click each point {CLICKS_PER_POINT} times:
                   </p>
                   <ul className="text-xs text-gray-600 mb-3 list-disc list-inside space-y-1">
-                    <li>9-point calibration grid (3x3, center is point 5)</li>
+                    <li>
+                      {gridChoice === 'center'
+                        ? 'Custom grid of 9 points focused on the center of the screen'
+                        : `${CALIBRATION_GRID_PRESETS[gridChoice].label}: ${CALIBRATION_GRID_PRESETS[gridChoice].description}`}
+                    </li>
                     <li>Click each red dot {CLICKS_PER_POINT} times in any order</li>
                     <li>Move your mouse between clicks to help train the model</li>
                     <li>Ensure good lighting and face the camera</li>
                     <li>Keep your head still, only move your eyes</li>
+                    <li>Afterwards, look at four yellow dots without clicking to measure accuracy</li>
                   </ul>
+                  <label className="flex items-center space-x-2 text-xs text-gray-700 mb-3">
+                    <span className="font-medium">Grid:</span>
+                    <select
+                      value={gridChoice}
+                      onChange={(e) => setGridChoice(e.target.value === 'center' ? 'center' : Number(e.target.value) as CalibrationGridPreset)}
+                      disabled={isCalibrating || isValidating || isLabStopped}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+                    >
+                      {CALIBRATION_GRID_PRESET_SIZES.map(preset => (
+                        <option key={preset} value={preset}>{CALIBRATION_GRID_PRESETS[preset].label}</option>
+                      ))}
+                      <option value="center">Custom: center area</option>
+                    </select>
+                  </label>
                   <div className="flex items-center space-x-2">
                     <button
                       onClick={startCalibration}
-                      disabled={isCalibrating || isLabStopped}
+                      disabled={isCalibrating || isValidating || isLabStopped}
                       className="btn btn-primary btn-sm text-xs px-3 py-1.5"
                     >
                       {isCalibrating ? (
@@ -922,6 +993,25 @@ export function CalibrationLab() {
                 <span className="text-gray-600">Gaze Points:</span>
                 <span className="text-gray-900 font-medium">{gazeData.length}</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Smoothing:</span>
+                <select
+                  value={filterMode}
+                  onChange={(e) => {
+                    const mode = e.target.value as GazeFilterMode
+                    setFilterMode(mode)
+                    webgazerManager.setFilterSettings({ mode }).catch((error) => {
+                      console.error('❌ [CalibrationLab] Failed to change smoothing:', error)
+                      toast.error('Failed to change smoothing.')
+                    })
+                  }}
+                  className="border border-gray-300 rounded-md px-1 py-0.5 text-xs"
+                >
+                  {(Object.keys(GAZE_FILTER_LABELS) as GazeFilterMode[]).map(mode => (
+                    <option key={mode} value={mode}>{GAZE_FILTER_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
               {currentGazePoint && (
                 <div className="mt-2 pt-2 border-t border-gray-300">
                   <div className="text-gray-600 mb-1">Current Gaze (Raw):</div>
@@ -958,6 +1048,11 @@ export function CalibrationLab() {
                   <div className="text-xs">
                     Points: {calibrationResult.pointsCollected}
                   </div>
+                  {webgazerManager.getCalibrationGrid() && (
+                    <div className="text-xs">
+                      Grid: {webgazerManager.getCalibrationGrid()!.label} ({webgazerManager.getCalibrationGrid()!.pointCount} points)
+                    </div>
+                  )}
                   <div className="text-xs">
                     Status: {calibrationResult.isValid ? (
                       <span className="text-green-600">✅ Valid</span>
@@ -988,6 +1083,45 @@ export function CalibrationLab() {
                       Camera: {calibrationResult.cameraPositioning}
                     </div>
                   )}
+                  {calibrationResult.validation && (
+                    <div className="mt-2 pt-2 border-t border-gray-300 space-y-1">
+                      <div className="text-gray-600 mb-1">Validation:</div>
+                      <div className={`text-xs ${calibrationResult.validation.passed ? 'text-green-600' : 'text-red-600'}`}>
+                        {calibrationResult.validation.passed ? '✅ Passed' : '❌ Failed'}
+                      </div>
+                      {calibrationResult.validation.meanErrorDeg !== null && (
+                        <div className="text-xs">
+                          Accuracy: {calibrationResult.validation.meanErrorDeg.toFixed(2)}° ({Math.round(calibrationResult.validation.meanErrorPx!)} px)
+                        </div>
+                      )}
+                      {calibrationResult.validation.meanPrecisionDeg !== null && (
+                        <div className="text-xs">
+                          Precision (RMS): {calibrationResult.validation.meanPrecisionDeg.toFixed(2)}° ({Math.round(calibrationResult.validation.meanPrecisionPx!)} px)
+                        </div>
+                      )}
+                      <div className="text-xs font-mono space-y-0.5">
+                        {calibrationResult.validation.points.map((point, index) => (
+                          <div key={index}>
+                            #{index + 1}: {point.errorDeg !== null ? `${point.errorDeg.toFixed(1)}° / ${Math.round(point.errorPx!)} px` : 'no samples'}
+                            {point.precisionDeg !== null && `, RMS ${point.precisionDeg.toFixed(1)}°`}
+                            {` (${point.sampleCount} samples)`}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="showErrorMap"
+                          checked={showErrorMap}
+                          onChange={(e) => setShowErrorMap(e.target.checked)}
+                          className="rounded"
+                        />
+                        <label htmlFor="showErrorMap" className="text-xs text-gray-600">
+                          Show error map
+                        </label>
+                      </div>
+                    </div>
+                  )}
                   {calibrationResult.errorMessage && (
                     <div className="text-xs text-red-600">
                       Error: {calibrationResult.errorMessage}
@@ -15,15 +15,28 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  Palette
+  Palette,
+  SplitSquareHorizontal
 } from 'lucide-react'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { EyeTrackingResults } from '../components/EyeTrackingResults'
 import { ValueStudyResults } from '../components/ValueStudyResults'
 import { EdgeDetectionResults } from '../components/EdgeDetectionResults'
+import { ReplayExport } from '../components/ReplayExport'
+import { describeFixationParams, FixationDetectionParams } from '../utils/fixationDetection'
+import { describeGazeFilter, GazeFilterSettings } from '../utils/gazeFilters'
+import { AreaOfInterest } from '../utils/aoiMetrics'
+import { QUESTIONNAIRE_QUESTIONS, formatParticipantAnswer } from '../utils/participantQuestionnaire'
 
 // Component that loads image dimensions and passes them to EyeTrackingResults
-function EyeTrackingResultsWithDimensions({ data, imageUrl }: { data: any, imageUrl: string }) {
+function EyeTrackingResultsWithDimensions({ data, imageUrl, fixationDetection, gazeFilter, compositionProbabilities, areasOfInterest }: {
+  data: any
+  imageUrl: string
+  fixationDetection?: FixationDetectionParams
+  gazeFilter?: GazeFilterSettings
+  compositionProbabilities?: Record<string, number>
+  areasOfInterest?: AreaOfInterest[]
+}) {
   const [imageDimensions, setImageDimensions] = useState<{ width: number, height: number } | null>(null)
 
   useEffect(() => {
@@ -47,6 +60,10 @@ function EyeTrackingResultsWithDimensions({ data, imageUrl }: { data: any, image
       imageUrl={imageUrl}
       imageWidth={imageDimensions.width}
       imageHeight={imageDimensions.height}
+      fixationDetection={fixationDetection}
+      gazeFilter={gazeFilter}
+      compositionProbabilities={compositionProbabilities}
+      areasOfInterest={areasOfInterest}
     />
   )
 }
@@ -73,6 +90,11 @@ export function ExperimentDetails() {
     picture?.fileId ? { fileId: picture.fileId } : 'skip'
   )
 
+  const areasOfInterest = useQuery(
+    api.areasOfInterest.getPictureAreasOfInterest,
+    experiment?.pictureId ? { pictureId: experiment.pictureId } : 'skip'
+  )
+
   // Note: We don't require authentication here because:
   // 1. Anonymous users can run experiments and need to see their results
   // 2. The backend getExperiment handles access control (returns null if unauthorized)
@@ -172,6 +194,37 @@ export function ExperimentDetails() {
                   <label className="text-sm font-medium text-gray-500">Picture</label>
                   <p className="text-lg font-medium text-gray-900">{picture?.fileName}</p>
                 </div>
+
+                {experiment.studyId && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Study</label>
+                    <p>
+                      <button
+                        onClick={() => navigate(`/studies/${experiment.studyId}`)}
+                        className="text-primary-600 hover:underline font-medium"
+                      >
+                        View aggregated study results
+                      </button>
+                    </p>
+                  </div>
+                )}
+
+                {experiment.participantInfo && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Participant</label>
+                    <div className="mt-1 space-y-1 text-sm text-gray-900">
+                      {experiment.participantInfo.consentGivenAt && (
+                        <div>Consent given {new Date(experiment.participantInfo.consentGivenAt).toLocaleString()}</div>
+                      )}
+                      {QUESTIONNAIRE_QUESTIONS.filter(q => experiment.participantInfo?.[q.field]).map(q => (
+                        <div key={q.field}>
+                          <span className="text-gray-500">{q.shortLabel}:</span>{' '}
+                          {formatParticipantAnswer(q.field, experiment.participantInfo?.[q.field])}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
                 <div>
                   <label className="text-sm font-medium text-gray-500">Created</label>
@@ -252,7 +305,15 @@ export function ExperimentDetails() {
                             {key.replace(/([A-Z])/g, ' $1').trim()}:
                           </span>
                           <span className="text-sm font-medium text-gray-900">
-                            {typeof value === 'number' ? value.toLocaleString() : String(value)}
+                            {key === 'fixationDetection' && value
+                              ? describeFixationParams(value as FixationDetectionParams)
+                              : key === 'gazeFilter' && value
+                                ? describeGazeFilter(value as GazeFilterSettings)
+                                : typeof value === 'number'
+                                  ? value.toLocaleString()
+                                  : value && typeof value === 'object' && !Array.isArray(value)
+                                    ? JSON.stringify(value)
+                                    : String(value)}
                           </span>
                         </div>
                       ))}
@@ -280,6 +341,10 @@ export function ExperimentDetails() {
               <EyeTrackingResultsWithDimensions
                 data={experiment.eyeTrackingData}
                 imageUrl={imageUrl}
+                fixationDetection={experiment.parameters?.fixationDetection}
+                gazeFilter={experiment.parameters?.gazeFilter}
+                compositionProbabilities={picture?.compositionProbabilities}
+                areasOfInterest={areasOfInterest}
               />
             </div>
           </div>
@@ -425,6 +490,15 @@ export function ExperimentDetails() {
                     Run Eye Tracking
                   </button>
                 )}
+                {isEyeTracking && hasEyeTrackingData && (
+                  <button
+                    onClick={() => navigate(`/compare-heatmaps?a=${experiment._id}`)}
+                    className="btn btn-outline"
+                  >
+                    <SplitSquareHorizontal className="h-4 w-4 mr-2" />
+                    Compare Heatmaps
+                  </button>
+                )}
                 {!isValueStudy && (
                   <button
                     onClick={() => navigate(`/picture-experiments?pictureId=${experiment.pictureId}`)}
@@ -501,6 +575,15 @@ export function ExperimentDetails() {
                     Export Eye Tracking Data
                   </button>
                 )}
+
+                {isEyeTracking && hasEyeTrackingData && imageUrl && (
+                  <ReplayExport
+                    experimentId={experimentId!}
+                    imageUrl={imageUrl}
+                    gazePoints={experiment.eyeTrackingData?.gazePoints || []}
+                    fixationPoints={experiment.eyeTrackingData?.fixationPoints || []}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -14,113 +14,50 @@ import {
   Loader2,
   Lightbulb,
   Trash2,
-  Settings
+  Settings,
+  UserX,
+  Download,
+  Upload,
+  Shuffle
 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { EYE_TRACKING_EXPERIMENT } from '../constants'
 import { EyeTrackingResults } from '../components/EyeTrackingResults'
 import { LoadingSpinner } from '../components/LoadingSpinner'
-import { webgazerManager, GazePoint, CalibrationResult, ImageBounds } from '../utils/webgazerManager'
+import { ParticipantIntake } from '../components/ParticipantIntake'
+import { CalibrationValidationOverlay } from '../components/CalibrationValidationOverlay'
+import { DriftCheckOverlay } from '../components/DriftCheckOverlay'
+import { ParticipantInfo } from '../utils/participantQuestionnaire'
+import { webgazerManager, GazePoint, CalibrationResult, ImageBounds, GazeMappingContext } from '../utils/webgazerManager'
+import { CalibrationValidation, ValidationTarget } from '../utils/calibrationValidation'
+import { DriftCorrectionEvent } from '../utils/driftCorrection'
+import { GazeGap } from '../utils/gazeGaps'
+import { GAZE_FILTER_LABELS, GazeFilterMode } from '../utils/gazeFilters'
+import { TRACKING_QUALITY_MESSAGES, TrackingQuality } from '../utils/headPose'
+import { compareDeviceFingerprints, describeFingerprintMismatches } from '../utils/deviceFingerprint'
+import { GazeSessionRecording, RecordingRegion, parseGazeRecording } from '../utils/gazeSessionRecording'
+import { createRandomScenario, generateSyntheticGaze, toSyntheticRecording } from '../utils/syntheticGaze'
+import { downloadBlob } from '../utils/replayExport'
+import {
+  CALIBRATION_GRID_PRESETS,
+  CALIBRATION_GRID_PRESET_SIZES,
+  CalibrationGridPreset,
+  CalibrationLayout,
+  createRegionLayout
+} from '../utils/calibrationGrids'
 import { DEBUG_CONFIG } from '../config/debug'
-
-// Fixation detection algorithm
-function detectFixations(gazePoints: GazePoint[]): Array<{
-  x: number
-  y: number
-  duration: number
-  startTime: number
-}> {
-  if (gazePoints.length < 2) return []
-  
-  const fixations: Array<{
-    x: number
-    y: number
-    duration: number
-    startTime: number
-  }> = []
-  
-  const MIN_FIXATION_DURATION = 100 // ms
-  const MAX_FIXATION_DISTANCE = 50 // pixels
-  const MIN_FIXATION_POINTS = 3
-  
-  let currentFixationStart = 0
-  let fixationPoints: GazePoint[] = []
-  
-  for (let i = 0; i < gazePoints.length; i++) {
-    const point = gazePoints[i]
-    
-    if (fixationPoints.length === 0) {
-      // Start new potential fixation
-      fixationPoints = [point]
-      currentFixationStart = point.timestamp
-    } else {
-      // Check if current point is within fixation threshold
-      const avgX = fixationPoints.reduce((sum, p) => sum + p.x, 0) / fixationPoints.length
-      const avgY = fixationPoints.reduce((sum, p) => sum + p.y, 0) / fixationPoints.length
-      const distance = Math.sqrt(Math.pow(point.x - avgX, 2) + Math.pow(point.y - avgY, 2))
-      
-      if (distance <= MAX_FIXATION_DISTANCE) {
-        // Point is within fixation area
-        fixationPoints.push(point)
-      } else {
-        // Fixation ended, check if it was valid
-        const duration = point.timestamp - currentFixationStart
-        if (duration >= MIN_FIXATION_DURATION && fixationPoints.length >= MIN_FIXATION_POINTS) {
-          const fixationX = fixationPoints.reduce((sum, p) => sum + p.x, 0) / fixationPoints.length
-          const fixationY = fixationPoints.reduce((sum, p) => sum + p.y, 0) / fixationPoints.length
-          
-          fixations.push({
-            x: fixationX,
-            y: fixationY,
-            duration,
-            startTime: currentFixationStart
-          })
-        }
-        
-        // Start new potential fixation
-        fixationPoints = [point]
-        currentFixationStart = point.timestamp
-      }
-    }
-  }
-  
-  // Check final fixation
-  if (fixationPoints.length >= MIN_FIXATION_POINTS) {
-    const duration = gazePoints[gazePoints.length - 1].timestamp - currentFixationStart
-    if (duration >= MIN_FIXATION_DURATION) {
-      const fixationX = fixationPoints.reduce((sum, p) => sum + p.x, 0) / fixationPoints.length
-      const fixationY = fixationPoints.reduce((sum, p) => sum + p.y, 0) / fixationPoints.length
-      
-      fixations.push({
-        x: fixationX,
-        y: fixationY,
-        duration,
-        startTime: currentFixationStart
-      })
-    }
-  }
-  
-  return fixations
-}
-
-interface EyeTrackingData {
-  gazePoints: GazePoint[]
-  fixationPoints: Array<{
-    x: number
-    y: number
-    duration: number
-    startTime: number
-  }>
-  scanPath: GazePoint[]
-  sessionDuration: number
-  heatmapData?: any
-}
+import { FixationDetectionParams } from '../utils/fixationDetection'
+import { buildSessionResults, EyeTrackingData } from '../utils/sessionResults'
 
 export function EyeTrackingExperiment() {
   const [searchParams] = useSearchParams()
   const navigate = useNavigate()
   const { user, userId } = useAuth()
   const pictureId = searchParams.get('pictureId')
+  // Sessions started from a study are recorded as part of it
+  const studyId = searchParams.get('studyId')
+  // Remote participants arrive through a share link and record on the owner's behalf
+  const shareToken = searchParams.get('shareToken')
   
   // Simplified state - just UI state, no WebGazer state
   const [isInitialized, setIsInitialized] = useState(false)
@@ -134,6 +71,7 @@ export function EyeTrackingExperiment() {
   const [timeRemaining, setTimeRemaining] = useState<number>(EYE_TRACKING_EXPERIMENT.DURATION_SECONDS)
   const [showResults, setShowResults] = useState(false)
   const [experimentResults, setExperimentResults] = useState<EyeTrackingData | null>(null)
+  const [fixationParams, setFixationParams] = useState<FixationDetectionParams | null>(null)
   const [debugMode, setDebugMode] = useState(DEBUG_CONFIG.showEyeTrackingDebug)
   const [imageOrientation, setImageOrientation] = useState<'portrait' | 'landscape'>('landscape')
   const [imageNaturalDimensions, setImageNaturalDimensions] = useState<{ width: number; height: number } | null>(null)
@@ -141,6 +79,25 @@ export function EyeTrackingExperiment() {
   const [completedCalibrationPoints, setCompletedCalibrationPoints] = useState<Set<number>>(new Set())
   const [clicksPerPoint, setClicksPerPoint] = useState<Map<number, number>>(new Map())
   const [lastClickedPointIndex, setLastClickedPointIndex] = useState<number | null>(null) // Track last clicked point to prevent double clicks
+  const [isValidating, setIsValidating] = useState(false) // Fixating validation targets after the click calibration
+  // Calibration layout: a preset grid, or points focused on where the picture is displayed
+  const [gridChoice, setGridChoice] = useState<CalibrationGridPreset | 'image'>(EYE_TRACKING_EXPERIMENT.CALIBRATION_GRID_POINTS)
+  // Seconds of session time between drift checks (0 = off)
+  const [driftCheckInterval, setDriftCheckInterval] = useState<number>(EYE_TRACKING_EXPERIMENT.DRIFT_CHECK_INTERVAL_SECONDS)
+  const [driftCheckTarget, setDriftCheckTarget] = useState<ValidationTarget | null>(null)
+  // Smoothing applied to live predictions (see gazeFilters.ts)
+  const [filterMode, setFilterMode] = useState<GazeFilterMode>(() => webgazerManager.getFilterSettings().mode)
+  // Live warning while the head is outside the range it was calibrated in
+  const [qualityWarning, setQualityWarning] = useState<Exclude<TrackingQuality, 'good'> | null>(null)
+  // Saved calibration picked from the list, restored once its data has loaded
+  const [pickedCalibrationId, setPickedCalibrationId] = useState<string | null>(null)
+  // Consent and questionnaire answers - study sessions collect these before the webcam starts
+  const [participantInfo, setParticipantInfo] = useState<ParticipantInfo | null>(null)
+  // Participant slot held on a capped share link until the session is saved
+  const [reservationId, setReservationId] = useState<string | null>(null)
+  // Raw prediction stream of the last session (recorded in debug mode) and the replay in use
+  const [lastRecording, setLastRecording] = useState<GazeSessionRecording | null>(null)
+  const [replayName, setReplayName] = useState<string | null>(null)
   
   // Refs
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
@@ -148,20 +105,36 @@ export function EyeTrackingExperiment() {
   const imageRef = useRef<HTMLImageElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationFrameRef = useRef<number | null>(null)
+  const isDriftCheckingRef = useRef<boolean>(false) // Session timer is paused during drift checks
+  const lastDriftCheckElapsedRef = useRef<number>(0)
+  const driftEventsRef = useRef<DriftCorrectionEvent[]>([])
   
   // Convex queries and mutations
   const picture = useQuery(api.pictures.getPicture, pictureId ? { pictureId: pictureId as any } : 'skip')
   const createExperiment = useMutation(api.experiments.createExperiment)
   const updateEyeTrackingResults = useMutation(api.experiments.updateEyeTrackingResults)
   const getImageUrl = useQuery(api.pictures.getImageUrl, picture?.fileId ? { fileId: picture.fileId } : 'skip')
+  const areasOfInterest = useQuery(api.areasOfInterest.getPictureAreasOfInterest, pictureId ? { pictureId: pictureId as any } : 'skip')
   const mostRecentCalibration = useQuery(
     api.experiments.getMostRecentCalibration,
     userId ? { userId: userId as any } : 'skip'
   )
+  const savedCalibrations = useQuery(api.calibrations.getUserCalibrations, userId ? { userId: userId as any } : 'skip')
+  const pickedCalibration = useQuery(
+    api.calibrations.getCalibration,
+    pickedCalibrationId && userId ? { calibrationId: pickedCalibrationId as any, userId: userId as any } : 'skip'
+  )
+  const saveCalibration = useMutation(api.calibrations.saveCalibration)
+  const markCalibrationUsed = useMutation(api.calibrations.markCalibrationUsed)
+  const shareLink = useQuery(api.shareLinks.getShareLink, shareToken ? { token: shareToken } : 'skip')
+  const reserveShareLinkSlot = useMutation(api.shareLinks.reserveShareLinkSlot)
+  const study = useQuery(api.studies.getStudy, studyId && !shareToken ? { studyId: studyId as any } : 'skip')
+  const intakeSettings = shareToken ? shareLink : studyId ? study : null
+  const needsIntake = !!(shareToken || studyId) && !participantInfo
 
   // Initialize WebGazer on mount
   useEffect(() => {
-    if (pictureId && !isInitialized) {
+    if (pictureId && !isInitialized && !needsIntake) {
       console.log('🚀 [React] Initializing WebGazer...')
       
       // Show loading toast while checking for calibration data
@@ -190,15 +163,36 @@ export function EyeTrackingExperiment() {
             hasExistingCalibration = await webgazerManager.hasExistingCalibration()
             savedCalibration = webgazerManager.getLastCalibrationResult()
           }
+
+          // A calibration from another screen or camera would produce plausible but wrong gaze data
+          if (hasExistingCalibration) {
+            const fingerprintCheck = webgazerManager.checkCalibrationCompatibility()
+            if (fingerprintCheck.status === 'mismatch') {
+              console.warn('⚠️ [React] Stored calibration was recorded on a different setup:', fingerprintCheck.mismatches)
+              toast.error(`Your calibration was recorded on a different setup (${describeFingerprintMismatches(fingerprintCheck.mismatches)}). Please calibrate again.`)
+              hasExistingCalibration = false
+              savedCalibration = null
+            } else if (fingerprintCheck.status === 'warn') {
+              toast(`Setup changed since calibration (${describeFingerprintMismatches(fingerprintCheck.mismatches)}). Recalibrate if tracking seems off.`, { icon: '⚠️' })
+            }
+          }
           
           // If no calibration in IndexedDB, check database for logged-in users
           // Only try once to avoid multiple restore attempts
           if (!hasExistingCalibration && userId && mostRecentCalibration?.calibrationData && !hasTriedDatabaseRestore) {
             console.log('🔍 [React] No IndexedDB calibration found, checking database...')
             setHasTriedDatabaseRestore(true)
+            const fingerprintCheck = webgazerManager.checkCalibrationCompatibility(mostRecentCalibration.calibrationData)
             const restored = await webgazerManager.restoreCalibrationData(mostRecentCalibration.calibrationData)
-            if (restored) {
+            if (fingerprintCheck.status === 'mismatch') {
+              console.log('⚠️ [React] Saved calibration is from a different setup, not restoring')
+              toast.error(`Your saved calibration was recorded on a different setup (${describeFingerprintMismatches(fingerprintCheck.mismatches)}). Please calibrate again.`)
+            } else if (restored) {
+              if (fingerprintCheck.status === 'warn') {
+                toast(`Setup changed since calibration (${describeFingerprintMismatches(fingerprintCheck.mismatches)}). Recalibrate if tracking seems off.`, { icon: '⚠️' })
+              }
               console.log('✅ [React] Calibration restored from database')
+              webgazerManager.setCalibrationId(mostRecentCalibration.calibrationId ?? null)
               hasExistingCalibration = true
               savedCalibration = webgazerManager.getLastCalibrationResult()
               // Wait a bit for WebGazer to process the restored calibration
@@ -245,7 +239,7 @@ export function EyeTrackingExperiment() {
           toast.error('Failed to initialize WebGazer. Please refresh the page.')
         })
     }
-  }, [pictureId, isInitialized, userId, mostRecentCalibration, hasTriedDatabaseRestore])
+  }, [pictureId, isInitialized, needsIntake, userId, mostRecentCalibration, hasTriedDatabaseRestore])
 
   // Add gaze listener
   useEffect(() => {
@@ -376,8 +370,17 @@ export function EyeTrackingExperiment() {
       setDebugMode(true)
       await webgazerManager.setDebugMode(true)
       
-      // Start point-based calibration (9-point grid with red dots)
-      const { points } = await webgazerManager.startPointBasedCalibration()
+      // Start point-based calibration with the selected layout (red dots)
+      let layout: CalibrationLayout = { type: 'preset', pointCount: EYE_TRACKING_EXPERIMENT.CALIBRATION_GRID_POINTS }
+      if (gridChoice === 'image') {
+        const rect = imageRef.current?.getBoundingClientRect()
+        if (rect && rect.width > 0 && rect.height > 0) {
+          layout = createRegionLayout({ x: rect.left, y: rect.top, width: rect.width, height: rect.height })
+        }
+      } else {
+        layout = { type: 'preset', pointCount: gridChoice }
+      }
+      const { points } = await webgazerManager.startPointBasedCalibration(layout)
       setCalibrationPoints(points)
       
     } catch (error) {
@@ -385,7 +388,7 @@ export function EyeTrackingExperiment() {
       toast.error('Calibration failed. Please try again.')
       setIsCalibrating(false)
     }
-  }, [])
+  }, [gridChoice])
 
   // Start recalibration (reset existing calibration and start new one)
   const startRecalibration = useCallback(async () => {
@@ -468,8 +471,9 @@ export function EyeTrackingExperiment() {
         setCalibrationResult(result)
         
         if (result.isValid) {
-          setIsCalibrated(true)
+          // Accuracy is only known after the validation targets have been fixated
           setIsCalibrating(false)
+          setIsValidating(true)
           let message = `Calibration complete! Collected ${result.pointsCollected} points with ${(result.averageConfidence * 100).toFixed(1)}% avg confidence.`
           
           // Add environmental feedback
@@ -496,6 +500,140 @@ export function EyeTrackingExperiment() {
     }
   }, [isCalibrating, calibrationPoints, clicksPerPoint, completedCalibrationPoints])
 
+  // Validation targets done - the session may only start with a measured, accurate calibration
+  const handleValidationComplete = useCallback(async (validation: CalibrationValidation) => {
+    const result = webgazerManager.applyValidation(validation)
+    setCalibrationResult(result)
+    setIsValidating(false)
+    setIsCalibrated(result.isValid)
+
+    if (!result.isValid) {
+      toast.error(`Calibration is not accurate enough: ${validation.failureReason}. Please recalibrate.`)
+      return
+    }
+    toast.success(`Calibration validated: gaze is within ${validation.meanErrorDeg?.toFixed(1)}° on average.`)
+
+    // Keep the calibration for reuse and so sessions can reference it
+    const snapshot = webgazerManager.getCalibrationSnapshot()
+    if (userId && snapshot) {
+      try {
+        const saved = await saveCalibration({ userId: userId as any, ...snapshot })
+        if (saved.success && saved.calibrationId) {
+          webgazerManager.setCalibrationId(saved.calibrationId)
+        } else {
+          console.warn('⚠️ [React] Calibration not saved:', saved.message)
+        }
+      } catch (error) {
+        console.error('❌ [React] Failed to save calibration:', error)
+      }
+    }
+  }, [userId, saveCalibration])
+
+  // Restore a saved calibration picked from the list
+  useEffect(() => {
+    if (!pickedCalibration || !userId || !isInitialized) return
+    setPickedCalibrationId(null)
+
+    // Different screen or camera: only restore if the user explicitly accepts it
+    const fingerprintCheck = webgazerManager.checkCalibrationCompatibility(pickedCalibration.calibrationData)
+    const allowDeviceMismatch = fingerprintCheck.status === 'mismatch' && window.confirm(
+      `"${pickedCalibration.name}" was recorded on a different setup:\n\n` +
+      fingerprintCheck.mismatches.map(m => `${m.label}: ${m.saved} → ${m.current}`).join('\n') +
+      '\n\nGaze data recorded with it will likely be inaccurate. Use it anyway?'
+    )
+    if (fingerprintCheck.status === 'mismatch' && !allowDeviceMismatch) return
+
+    webgazerManager.restoreCalibrationData(pickedCalibration.calibrationData, { allowDeviceMismatch }).then(restored => {
+      if (!restored) {
+        toast.error('Could not load that calibration. Please calibrate again.')
+        return
+      }
+      webgazerManager.setCalibrationId(pickedCalibration.calibrationId)
+      markCalibrationUsed({ calibrationId: pickedCalibration.calibrationId, userId: userId as any })
+      setCalibrationResult(webgazerManager.getLastCalibrationResult())
+      setIsCalibrated(true)
+      if (fingerprintCheck.status === 'warn') {
+        toast(`Using calibration "${pickedCalibration.name}" - setup changed (${describeFingerprintMismatches(fingerprintCheck.mismatches)})`, { icon: '⚠️' })
+      } else {
+        toast.success(`Using calibration "${pickedCalibration.name}"`)
+      }
+    })
+  }, [pickedCalibration, userId, isInitialized, markCalibrationUsed])
+
+  // Where the picture is displayed, in viewport pixels
+  const getImageRegion = (): RecordingRegion | null => {
+    const rect = imageRef.current?.getBoundingClientRect()
+    return rect ? { x: rect.left, y: rect.top, width: rect.width, height: rect.height } : null
+  }
+
+  const downloadRecording = () => {
+    if (!lastRecording) return
+    const dataBlob = new Blob([JSON.stringify(lastRecording)], { type: 'application/json' })
+    downloadBlob(dataBlob, `gaze-recording-${pictureId}-${lastRecording.recordedAt}.json`)
+  }
+
+  // Replace the webcam with a recorded (or synthetic) session. The next session plays it back
+  // through the normal tracking path; no camera or calibration is needed
+  const startReplay = async (recording: GazeSessionRecording, name: string) => {
+    webgazerManager.setReplaySource(recording, {
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      imageBounds: getImageRegion() ?? undefined
+    })
+    await webgazerManager.initialize()
+    setIsInitialized(true)
+    setCalibrationResult({ isValid: true, pointsCollected: 0, averageConfidence: 1 })
+    setIsCalibrated(true)
+    setReplayName(name)
+    toast.success(`Loaded ${recording.samples.length} recorded samples. Start the session to replay them.`)
+  }
+
+  const loadReplay = async (file: File) => {
+    try {
+      await startReplay(parseGazeRecording(await file.text()), file.name)
+    } catch (error: any) {
+      console.error('❌ [React] Failed to load gaze recording:', error)
+      toast.error(`Failed to load recording: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  // Replay a generated participant looking around the picture as displayed right now
+  const loadSyntheticReplay = async () => {
+    const image = imageRef.current
+    const region = getImageRegion()
+    if (!image || !region || !image.naturalWidth) {
+      toast.error('The picture has not loaded yet')
+      return
+    }
+    const imageBounds: ImageBounds = { ...region, naturalWidth: image.naturalWidth, naturalHeight: image.naturalHeight }
+    // Hold the pose of the current calibration so samples are not flagged as head movement
+    const baseline = webgazerManager.getHeadPoseBaseline()
+    const scenario = createRandomScenario(imageBounds, {
+      durationMs: EYE_TRACKING_EXPERIMENT.DURATION_SECONDS * 1000,
+      seed: Date.now(),
+      headPose: baseline
+        ? { yaw: baseline.yaw, pitch: baseline.pitch, roll: 0, faceScale: baseline.faceScale, centerX: 0.5, centerY: 0.5, faceInFrame: true }
+        : undefined
+    })
+    const session = generateSyntheticGaze(scenario)
+    try {
+      await startReplay(
+        toSyntheticRecording(session, scenario, { width: window.innerWidth, height: window.innerHeight }),
+        `synthetic session (${scenario.fixations.length} fixations)`
+      )
+    } catch (error: any) {
+      console.error('❌ [React] Failed to start synthetic replay:', error)
+      toast.error(`Failed to start synthetic session: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const clearReplay = () => {
+    webgazerManager.clearReplaySource()
+    setReplayName(null)
+    setCalibrationResult(null)
+    setIsCalibrated(false)
+    setIsInitialized(false) // Reinitialize with the webcam
+  }
+
   // Start tracking
   const startTracking = useCallback(async () => {
     console.log('🎯 [React] Start tracking button clicked')
@@ -509,13 +647,18 @@ export function EyeTrackingExperiment() {
       setGazeData([])
       // Reset processing flag when starting
       isProcessingStopRef.current = false
+      driftEventsRef.current = []
+      lastDriftCheckElapsedRef.current = 0
       setIsTracking(true)
       setTimeRemaining(EYE_TRACKING_EXPERIMENT.DURATION_SECONDS)
       
+      if (debugMode) webgazerManager.startSessionRecording()
       await webgazerManager.startTracking()
       
       // Start countdown timer
       intervalRef.current = setInterval(() => {
+        // Session time does not run while a drift check is shown
+        if (isDriftCheckingRef.current) return
         setTimeRemaining((prev: number) => {
           if (prev <= 1) {
             clearInterval(intervalRef.current!)
@@ -533,7 +676,65 @@ export function EyeTrackingExperiment() {
       console.error('❌ [React] Failed to start tracking:', error)
       toast.error('Failed to start tracking. Please try again.')
     }
-  }, [calibrationResult])
+  }, [calibrationResult, debugMode])
+
+  // Drift checks every driftCheckInterval seconds of session time
+  useEffect(() => {
+    if (!isTracking || driftCheckInterval <= 0 || isDriftCheckingRef.current || timeRemaining <= 0) return
+    const elapsed = EYE_TRACKING_EXPERIMENT.DURATION_SECONDS - timeRemaining
+    if (elapsed <= 0 || elapsed % driftCheckInterval !== 0 || elapsed === lastDriftCheckElapsedRef.current) return
+
+    // Target in the middle of the picture, where the participant is looking anyway
+    const rect = imageRef.current?.getBoundingClientRect()
+    const target = rect
+      ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      : { x: window.innerWidth / 2, y: window.innerHeight / 2 }
+
+    lastDriftCheckElapsedRef.current = elapsed
+    isDriftCheckingRef.current = true
+    webgazerManager.setRecordingPaused(true)
+    setDriftCheckTarget(target)
+  }, [isTracking, timeRemaining, driftCheckInterval])
+
+  // Drift check done - apply its correction, log it and resume the session
+  const handleDriftCheckComplete = useCallback((event: DriftCorrectionEvent) => {
+    driftEventsRef.current = [...driftEventsRef.current, event]
+    webgazerManager.setDriftCorrection({ x: event.correctionX, y: event.correctionY })
+    webgazerManager.setRecordingPaused(false)
+    isDriftCheckingRef.current = false
+    setDriftCheckTarget(null)
+
+    if (event.action === 'corrected') {
+      toast.success(`Corrected ${event.errorDeg.toFixed(1)}° of drift.`, { duration: 1500 })
+    } else if (event.action === 'recalibrated') {
+      toast.success('Recalibrated. Continuing the session.', { duration: 1500 })
+    }
+  }, [])
+
+  // Watch head pose during the session and warn once poor quality persists
+  useEffect(() => {
+    if (!isTracking) {
+      setQualityWarning(null)
+      return
+    }
+
+    let poorSince: number | null = null
+    const interval = setInterval(() => {
+      const { quality } = webgazerManager.getTrackingQuality()
+      if (quality === 'good' || isDriftCheckingRef.current) {
+        poorSince = null
+        setQualityWarning(null)
+        return
+      }
+      const now = Date.now()
+      poorSince = poorSince ?? now
+      if (now - poorSince >= EYE_TRACKING_EXPERIMENT.HEAD_POSE_WARNING_DELAY_MS) {
+        setQualityWarning(quality)
+      }
+    }, 250)
+
+    return () => clearInterval(interval)
+  }, [isTracking])
 
   // Stop tracking
   const stopTracking = useCallback(async () => {
@@ -567,7 +768,11 @@ export function EyeTrackingExperiment() {
     }
     
     setIsTracking(false)
+    isDriftCheckingRef.current = false
+    setDriftCheckTarget(null)
     const collectedData = webgazerManager.stopTracking()
+    const recording = webgazerManager.stopSessionRecording(getImageRegion() ?? undefined)
+    if (recording) setLastRecording(recording)
     
     console.log(`📊 [React] Collected ${collectedData.length} gaze points`)
     
@@ -703,10 +908,17 @@ export function EyeTrackingExperiment() {
       // Direct mapping: WebGazer coordinates are already in viewport space
       // So we can directly map them to image coordinates without transformation
       // This matches how CalibrationLab works - raw WebGazer coordinates are viewport-relative
-      const mappedGazePoints = collectedData.map((point, idx) => {
-        // WebGazer coordinates are already viewport coordinates (no transformation needed)
-        // Directly map viewport coordinates to natural image coordinates
-        const mappedPoint = webgazerManager.mapToImageCoordinates(point, imageBounds)
+      // Validation, fixations, saccades and the heatmap follow (blinks and track loss are excluded)
+      const gaps = webgazerManager.getGaps()
+      const { data: processedData, mappedGazePoints, validation, detectionParams } = buildSessionResults(collectedData, imageBounds, {
+        gaps,
+        driftCorrections: driftEventsRef.current,
+        rawGazePoints: webgazerManager.getRawExperimentData(),
+        mappingContext: webgazerManager.getMappingContext(imageBounds)
+      })
+
+      collectedData.forEach((point, idx) => {
+        const mappedPoint = mappedGazePoints[idx]
         
         // CRITICAL LOGGING: First point (should be middle of image) and last point (should be top-left)
         const isFirstPoint = idx === 0
@@ -798,32 +1010,21 @@ export function EyeTrackingExperiment() {
             }
           })
         }
-        
-        return mappedPoint
       })
       
-      // Validate gaze data quality
-      const validation = webgazerManager.validateGazeData(mappedGazePoints)
-      
       if (!validation.isValid) {
         toast.error(`Gaze data quality issues: ${validation.issues.join(', ')}`)
         console.warn('Gaze data validation failed:', validation.issues)
       }
       
-      // Extract calibration data from WebGazer before saving
-      const calibrationData = webgazerManager.extractCalibrationData()
-      
-      // Process results FIRST (before saving) so user can see results even if save fails
-      const processedData: EyeTrackingData = {
-        gazePoints: validation.validPoints,
-        fixationPoints: detectFixations(validation.validPoints),
-        scanPath: validation.validPoints,
-        sessionDuration: EYE_TRACKING_EXPERIMENT.DURATION_SECONDS,
-        heatmapData: null // TODO: Implement heatmap generation
-      }
+      // Sessions reference their saved calibration; unsaved ones (anonymous users) keep a copy,
+      // as do share link sessions, which belong to the link owner rather than the participant
+      const calibrationId = shareToken ? null : webgazerManager.getCalibrationId()
+      const calibrationData = calibrationId ? null : webgazerManager.extractCalibrationData()
       
       // Set results immediately so they're available even if save fails
       setExperimentResults(processedData)
+      setFixationParams(detectionParams)
       
       // Try to save experiment (but don't block showing results if it fails)
       let experimentId: string | null = null
@@ -832,11 +1033,18 @@ export function EyeTrackingExperiment() {
           pictureId: pictureId as any,
           userId: userId || undefined,
           experimentType: 'Eye Tracking',
+          studyId: (studyId as any) || undefined,
+          shareToken: shareToken || undefined,
+          reservationId: reservationId || undefined,
+          participantInfo: participantInfo || undefined,
+          calibrationId: (calibrationId as any) || undefined,
           parameters: {
             duration: EYE_TRACKING_EXPERIMENT.DURATION_SECONDS,
             gazeDataCount: validation.validPoints.length,
             originalGazeDataCount: collectedData.length,
-            validationIssues: validation.issues
+            validationIssues: validation.issues,
+            fixationDetection: detectionParams,
+            gazeFilter: webgazerManager.getFilterSettings()
           }
         })
         
@@ -861,8 +1069,12 @@ export function EyeTrackingExperiment() {
         
         toast.success(successMessage)
         
-        // Navigate to experiment details page to view results
-        navigate(`/experiments/${experimentId}`)
+        // Participants return to the share link page; owners go to the experiment details page
+        if (shareToken) {
+          navigate(`/participate/${shareToken}?completed=1`)
+        } else {
+          navigate(`/experiments/${experimentId}`)
+        }
       } catch (saveError) {
         console.error('❌ [React] Failed to save experiment:', saveError)
         const errorMessage = saveError instanceof Error ? saveError.message : 'Unknown error'
@@ -900,7 +1112,7 @@ export function EyeTrackingExperiment() {
       // Reset processing flag
       isProcessingStopRef.current = false
     }
-  }, [pictureId, userId, createExperiment, updateEyeTrackingResults, isTracking])
+  }, [pictureId, studyId, shareToken, reservationId, participantInfo, userId, createExperiment, updateEyeTrackingResults, isTracking])
 
   // Detect image orientation
   const detectImageOrientation = useCallback((img: HTMLImageElement) => {
@@ -908,6 +1120,27 @@ export function EyeTrackingExperiment() {
     setImageOrientation(aspectRatio > 1 ? 'landscape' : 'portrait')
   }, [])
 
+  // Share link participants reserve a slot before calibrating, so a full study turns them
+  // away now instead of rejecting the session after they have recorded it
+  const handleIntakeComplete = async (info: ParticipantInfo) => {
+    if (shareToken) {
+      try {
+        const reservation = await reserveShareLinkSlot({ token: shareToken })
+        if (!reservation.success) {
+          toast.error(reservation.message)
+          navigate(`/participate/${shareToken}`)
+          return
+        }
+        setReservationId(reservation.reservationId ?? null)
+      } catch (error) {
+        console.error('Failed to reserve participant slot:', error)
+        toast.error('Could not join the study. Please try again.')
+        return
+      }
+    }
+    setParticipantInfo(info)
+  }
+
   // Cleanup on unmount - stop WebGazer when navigating away
   useEffect(() => {
     return () => {
@@ -921,12 +1154,33 @@ export function EyeTrackingExperiment() {
       // Calibration data is preserved in IndexedDB via saveDataAcrossSessions(true)
       // and will be reloaded when WebGazer is restarted
       console.log('🧹 [EyeTrackingExperiment] Unmounting - stopping WebGazer...')
+      webgazerManager.clearReplaySource()
       webgazerManager.stopWebcam().catch((error) => {
         console.error('Error stopping WebGazer on unmount:', error)
       })
     }
   }, [])
 
+  // Study sessions start with consent and the study's questionnaire
+  if (needsIntake) {
+    if (intakeSettings === undefined) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      )
+    }
+    return (
+      <ParticipantIntake
+        studyName={shareToken ? shareLink?.studyName : study?.name}
+        consentText={intakeSettings?.consentText}
+        questionnaireFields={intakeSettings?.questionnaireFields}
+        onComplete={handleIntakeComplete}
+        onDecline={() => navigate(shareToken ? `/participate/${shareToken}` : `/studies/${studyId}`)}
+      />
+    )
+  }
+
   // Show loading if no picture
   if (!pictureId || !picture || !getImageUrl) {
     return (
@@ -948,10 +1202,39 @@ export function EyeTrackingExperiment() {
         imageUrl={getImageUrl}
         imageWidth={naturalWidth}
         imageHeight={naturalHeight}
+        fixationDetection={fixationParams || undefined}
+        gazeFilter={webgazerManager.getFilterSettings()}
+        compositionProbabilities={picture?.compositionProbabilities}
+        areasOfInterest={areasOfInterest}
       />
     )
   }
 
+  // Reuse a calibration saved in an earlier session instead of calibrating again
+  const currentFingerprint = webgazerManager.getDeviceFingerprint()
+  const savedCalibrationPicker = userId && savedCalibrations && savedCalibrations.length > 0 ? (
+    <label className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-xs text-gray-700">
+      <span className="font-medium">Saved calibration:</span>
+      <select
+        value=""
+        onChange={(e) => setPickedCalibrationId(e.target.value)}
+        disabled={isCalibrating || isValidating}
+        className="border border-gray-300 rounded-md px-1 py-0.5 text-xs max-w-[10rem]"
+      >
+        <option value="" disabled>Choose...</option>
+        {savedCalibrations.map((calibration: any) => (
+          <option key={calibration._id} value={calibration._id}>
+            {calibration.name}
+            {typeof calibration.meanErrorDeg === 'number' ? ` (${calibration.meanErrorDeg.toFixed(1)}°)` : ''}
+            {compareDeviceFingerprints({ ...calibration.device, ...calibration.screen }, currentFingerprint).status === 'mismatch'
+              ? ' - other setup'
+              : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  ) : null
+
   return (
     <div className="h-screen bg-gray-50">
       <div className="w-full mx-auto px-2 lg:px-4 py-2">
@@ -961,6 +1244,20 @@ export function EyeTrackingExperiment() {
             <div className="card">
               <div className="card-content p-0">
                 <div className="relative" style={{ height: 'calc(100vh - 140px)' }}>
+                  {/* Validation targets */}
+                  {isValidating && <CalibrationValidationOverlay onComplete={handleValidationComplete} />}
+
+                  {/* Mid-session drift check */}
+                  {driftCheckTarget && <DriftCheckOverlay target={driftCheckTarget} onComplete={handleDriftCheckComplete} />}
+
+                  {/* Head pose warning */}
+                  {qualityWarning && (
+                    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-30 bg-orange-500 text-white px-4 py-2 rounded-lg shadow-lg flex items-center text-sm pointer-events-none">
+                      <UserX className="h-4 w-4 mr-2" />
+                      {TRACKING_QUALITY_MESSAGES[qualityWarning]}
+                    </div>
+                  )}
+
                   {/* Calibration Points Overlay */}
                   {isCalibrating && calibrationPoints.length > 0 && (
                     <div className="fixed inset-0 z-20 pointer-events-none">
@@ -1186,18 +1483,33 @@ export function EyeTrackingExperiment() {
                       ) : (
                         <>
                           <p className="text-xs text-gray-600 mb-2">
-                            Click to start point-based calibration. You'll see 9 red dots to click.
+                            Click to start point-based calibration. You'll see {gridChoice === 'image' ? 9 : gridChoice} red dots to click.
                           </p>
+                          <label className="flex items-center space-x-2 text-xs text-gray-700 mb-2">
+                            <span className="font-medium">Grid:</span>
+                            <select
+                              value={gridChoice}
+                              onChange={(e) => setGridChoice(e.target.value === 'image' ? 'image' : Number(e.target.value) as CalibrationGridPreset)}
+                              className="border border-gray-300 rounded-md px-1 py-0.5 text-xs"
+                            >
+                              {CALIBRATION_GRID_PRESET_SIZES.map(preset => (
+                                <option key={preset} value={preset}>{CALIBRATION_GRID_PRESETS[preset].label}</option>
+                              ))}
+                              <option value="image">Focus on picture</option>
+                            </select>
+                          </label>
+                          {savedCalibrationPicker && <div className="mb-2">{savedCalibrationPicker}</div>}
                           <ul className="text-xs text-gray-600 mb-3 list-disc list-inside space-y-1">
                             <li>Click each red dot {EYE_TRACKING_EXPERIMENT.CLICKS_PER_CALIBRATION_POINT} times</li>
                             <li>Click in any order</li>
                             <li>Look at each dot while clicking</li>
                             <li>Ensure good lighting</li>
+                            <li>Then look at a few yellow dots to check accuracy</li>
                           </ul>
                           <div className="flex items-center space-x-2">
                             <button
                               onClick={startCalibration}
-                              disabled={isCalibrating}
+                              disabled={isCalibrating || isValidating}
                               className="btn btn-primary btn-sm text-xs px-2 py-1"
                             >
                               {isCalibrating ? (
@@ -1246,6 +1558,41 @@ export function EyeTrackingExperiment() {
                         Start
                       </button>
                     </div>
+                    <label className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-xs text-gray-700">
+                      <span className="font-medium">Drift checks:</span>
+                      <select
+                        value={driftCheckInterval}
+                        onChange={(e) => setDriftCheckInterval(Number(e.target.value))}
+                        className="border border-gray-300 rounded-md px-1 py-0.5 text-xs"
+                        title="Briefly show a target during the session to measure and correct calibration drift"
+                      >
+                        {EYE_TRACKING_EXPERIMENT.DRIFT_CHECK_INTERVAL_OPTIONS_SECONDS.map(seconds => (
+                          <option key={seconds} value={seconds}>
+                            {seconds === 0 ? 'Off' : `Every ${seconds} s`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-xs text-gray-700">
+                      <span className="font-medium">Smoothing:</span>
+                      <select
+                        value={filterMode}
+                        onChange={(e) => {
+                          const mode = e.target.value as GazeFilterMode
+                          setFilterMode(mode)
+                          webgazerManager.setFilterSettings({ mode }).catch((error) => {
+                            console.error('❌ [React] Failed to change smoothing:', error)
+                          })
+                        }}
+                        className="border border-gray-300 rounded-md px-1 py-0.5 text-xs"
+                        title="Filter applied to gaze predictions while recording"
+                      >
+                        {(Object.keys(GAZE_FILTER_LABELS) as GazeFilterMode[]).map(mode => (
+                          <option key={mode} value={mode}>{GAZE_FILTER_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {savedCalibrationPicker}
                     <div className="flex items-center space-x-2 p-2 bg-yellow-50 rounded-lg border border-yellow-200">
                       <div className="flex-shrink-0">
                         <AlertCircle className="h-4 w-4 text-yellow-600" />
@@ -1408,6 +1755,47 @@ export function EyeTrackingExperiment() {
                           )}
                         </div>
                       )}
+                      <div className="mt-2 pt-2 border-t border-gray-300 space-y-2">
+                        <div className="font-medium text-gray-700">Session Recording</div>
+                        {replayName ? (
+                          <div className="flex items-center space-x-2">
+                            <span>📼 Replaying {replayName}</span>
+                            <button onClick={clearReplay} disabled={isTracking} className="btn btn-xs btn-outline">
+                              Use webcam
+                            </button>
+                          </div>
+                        ) : (
+                          <div>Sessions are recorded while debug mode is on.</div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          <button onClick={downloadRecording} disabled={!lastRecording} className="btn btn-xs btn-outline">
+                            <Download className="h-3 w-3 mr-1" />
+                            Download recording{lastRecording && ` (${lastRecording.samples.length} samples)`}
+                          </button>
+                          <label className={`btn btn-xs btn-outline ${isTracking || isCalibrating ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                            <Upload className="h-3 w-3 mr-1" />
+                            Replay recording
+                            <input
+                              type="file"
+                              accept="application/json,.json"
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0]
+                                if (file) loadReplay(file)
+                                e.target.value = ''
+                              }}
+                            />
+                          </label>
+                          <button
+                            onClick={loadSyntheticReplay}
+                            disabled={isTracking || isCalibrating}
+                            className="btn btn-xs btn-outline"
+                          >
+                            <Shuffle className="h-3 w-3 mr-1" />
+                            Synthetic session
+                          </button>
+                        </div>
+                      </div>
                     </div>
                   </div>
                 )}
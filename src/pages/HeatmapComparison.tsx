@@ -0,0 +1,402 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { useAuth } from '../hooks/useAuth'
+import { useSearchParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, SplitSquareHorizontal, AlertCircle } from 'lucide-react'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { describeAgreement } from '../utils/studyAggregation'
+import {
+  renderHeatmap,
+  colormapGradient,
+  HeatmapColormap,
+  HeatmapWeighting,
+  HEATMAP_COLORMAP_LABELS
+} from '../utils/heatmap'
+import {
+  compareHeatmaps,
+  describeCenterShift,
+  divergingGradient,
+  renderDifferenceMap
+} from '../utils/heatmapComparison'
+
+type Side = 'a' | 'b'
+
+// Experiment, picture and natural picture size for one side of the comparison
+function useComparisonSide(experimentId: string | null, userId: string | null | undefined) {
+  const [dimensions, setDimensions] = useState<{ width: number, height: number } | null>(null)
+
+  const experiment = useQuery(
+    api.experiments.getExperiment,
+    experimentId ? { experimentId: experimentId as any, userId: (userId || undefined) as any } : 'skip'
+  )
+  const picture = useQuery(
+    api.pictures.getPicture,
+    experiment?.pictureId ? { pictureId: experiment.pictureId } : 'skip'
+  )
+  const imageUrl = useQuery(
+    api.pictures.getImageUrl,
+    picture?.fileId ? { fileId: picture.fileId } : 'skip'
+  )
+
+  // All stored gaze data is in natural image pixels
+  useEffect(() => {
+    setDimensions(null)
+    if (!imageUrl) return
+    const img = new Image()
+    img.onload = () => {
+      setDimensions({ width: img.naturalWidth, height: img.naturalHeight })
+    }
+    img.src = imageUrl
+  }, [imageUrl])
+
+  return { experiment, picture, imageUrl, dimensions }
+}
+
+// Picture with a canvas overlay kept at the displayed size (1:1 pixel ratio)
+function OverlayImage({ imageUrl, alt, draw }: {
+  imageUrl: string
+  alt: string
+  draw: (canvas: HTMLCanvasElement) => void
+}) {
+  const [imageLoaded, setImageLoaded] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current
+    const image = imageRef.current
+    if (!canvas || !image || image.clientWidth === 0 || image.clientHeight === 0) return
+    if (canvas.width !== image.clientWidth || canvas.height !== image.clientHeight) {
+      canvas.width = image.clientWidth
+      canvas.height = image.clientHeight
+    }
+    draw(canvas)
+  }, [draw])
+
+  useEffect(() => {
+    if (!imageLoaded) return
+    redraw()
+    window.addEventListener('resize', redraw)
+    return () => window.removeEventListener('resize', redraw)
+  }, [imageLoaded, redraw])
+
+  return (
+    <div className="relative">
+      <img
+        ref={imageRef}
+        src={imageUrl}
+        alt={alt}
+        className="w-full h-auto rounded-lg shadow-lg"
+        onLoad={() => setImageLoaded(true)}
+      />
+      <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none" />
+    </div>
+  )
+}
+
+export function HeatmapComparison() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { userId } = useAuth()
+  const experimentIdA = searchParams.get('a')
+  const experimentIdB = searchParams.get('b')
+
+  const [heatmapColormap, setHeatmapColormap] = useState<HeatmapColormap>('jet')
+  const [heatmapOpacity, setHeatmapOpacity] = useState(0.6)
+  const [heatmapWeighting, setHeatmapWeighting] = useState<HeatmapWeighting>('gaze')
+  const [bandwidthPercent, setBandwidthPercent] = useState<number>(EYE_TRACKING_EXPERIMENT.HEATMAP_BANDWIDTH_PERCENT)
+
+  const sideA = useComparisonSide(experimentIdA, userId)
+  const sideB = useComparisonSide(experimentIdB, userId)
+
+  const userExperiments = useQuery(
+    api.experiments.getUserExperiments,
+    userId ? { userId: userId as any } : 'skip'
+  )
+  const eyeTrackingExperiments = (userExperiments || []).filter((exp: any) =>
+    exp.experimentType === 'Eye Tracking' && exp.status === 'completed' && (exp.eyeTrackingData?.gazePoints.length ?? 0) > 0
+  )
+
+  const selectExperiment = (side: Side, experimentId: string) => {
+    const next = new URLSearchParams(searchParams)
+    if (experimentId) next.set(side, experimentId)
+    else next.delete(side)
+    setSearchParams(next)
+  }
+
+  const comparison = useMemo(() => {
+    const dataA = sideA.experiment?.eyeTrackingData
+    const dataB = sideB.experiment?.eyeTrackingData
+    if (!dataA || !dataB || !sideA.dimensions || !sideB.dimensions) return null
+    return compareHeatmaps(
+      {
+        gazePoints: dataA.gazePoints,
+        fixationPoints: dataA.fixationPoints || [],
+        imageWidth: sideA.dimensions.width,
+        imageHeight: sideA.dimensions.height
+      },
+      {
+        gazePoints: dataB.gazePoints,
+        fixationPoints: dataB.fixationPoints || [],
+        imageWidth: sideB.dimensions.width,
+        imageHeight: sideB.dimensions.height
+      },
+      { bandwidthPercent, weighting: heatmapWeighting }
+    )
+  }, [sideA.experiment, sideB.experiment, sideA.dimensions, sideB.dimensions, bandwidthPercent, heatmapWeighting])
+
+  const drawHeatmapA = useCallback((canvas: HTMLCanvasElement) => {
+    if (!comparison) return
+    renderHeatmap(canvas, comparison.heatmapA, { colormap: heatmapColormap, mode: 'color', opacity: heatmapOpacity })
+  }, [comparison, heatmapColormap, heatmapOpacity])
+
+  const drawHeatmapB = useCallback((canvas: HTMLCanvasElement) => {
+    if (!comparison) return
+    renderHeatmap(canvas, comparison.heatmapB, { colormap: heatmapColormap, mode: 'color', opacity: heatmapOpacity })
+  }, [comparison, heatmapColormap, heatmapOpacity])
+
+  const drawDifference = useCallback((canvas: HTMLCanvasElement) => {
+    if (!comparison) return
+    renderDifferenceMap(canvas, comparison.difference, { opacity: heatmapOpacity })
+  }, [comparison, heatmapOpacity])
+
+  const describeSide = (side: ReturnType<typeof useComparisonSide>) =>
+    side.picture ? `${side.picture.fileName} • ${new Date(side.experiment!.createdAt).toLocaleString()}` : ''
+
+  const renderSelect = (side: Side, selectedId: string | null) => (
+    <label className="flex items-center space-x-2">
+      <span className="text-gray-700 font-medium">{side.toUpperCase()}:</span>
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => selectExperiment(side, e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm max-w-xs"
+      >
+        <option value="">Choose an experiment…</option>
+        {selectedId && !eyeTrackingExperiments.some((exp: any) => exp._id === selectedId) && (
+          <option value={selectedId}>Linked experiment</option>
+        )}
+        {eyeTrackingExperiments.map((exp: any) => (
+          <option key={exp._id} value={exp._id}>
+            {exp.picture?.fileName ?? 'Unknown picture'} • {new Date(exp.createdAt).toLocaleString()}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  const isLoading = (experimentIdA && (sideA.experiment === undefined || (sideA.experiment && !sideA.dimensions))) ||
+    (experimentIdB && (sideB.experiment === undefined || (sideB.experiment && !sideB.dimensions)))
+
+  let problem: string | null = null
+  if (!experimentIdA || !experimentIdB) {
+    problem = userId
+      ? 'Choose two eye tracking experiments to compare.'
+      : 'Open this page from an experiment, or log in to choose from your experiments.'
+  } else if (sideA.experiment === null || sideB.experiment === null) {
+    problem = 'One of the experiments was not found, or you do not have access to it.'
+  } else if (!isLoading && (!sideA.experiment?.eyeTrackingData?.gazePoints.length || !sideB.experiment?.eyeTrackingData?.gazePoints.length)) {
+    problem = 'Both experiments need recorded eye tracking data.'
+  } else if (!isLoading && !comparison && sideA.dimensions && sideB.dimensions) {
+    problem = `The pictures have different aspect ratios (${sideA.dimensions.width}×${sideA.dimensions.height} and ` +
+      `${sideB.dimensions.width}×${sideB.dimensions.height}), so their heatmaps cannot be compared cell by cell.`
+  }
+
+  const gained = comparison?.regions[0]
+  const lost = comparison?.regions[comparison.regions.length - 1]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center space-x-4">
+            <button onClick={() => navigate(-1)} className="text-gray-400 hover:text-gray-600">
+              <ArrowLeft className="h-6 w-6" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+                <SplitSquareHorizontal className="h-6 w-6" />
+                <span>Compare Heatmaps</span>
+              </h1>
+              <p className="text-gray-600">
+                Two eye tracking sessions side by side, and where attention moved from A to B
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="card">
+          <div className="card-content pt-6">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {renderSelect('a', experimentIdA)}
+              {renderSelect('b', experimentIdB)}
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-700 font-medium">Colormap:</span>
+                <select
+                  value={heatmapColormap}
+                  onChange={(e) => setHeatmapColormap(e.target.value as HeatmapColormap)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  {(Object.keys(HEATMAP_COLORMAP_LABELS) as HeatmapColormap[]).map(colormap => (
+                    <option key={colormap} value={colormap}>{HEATMAP_COLORMAP_LABELS[colormap]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-700 font-medium">Weighting:</span>
+                <select
+                  value={heatmapWeighting}
+                  onChange={(e) => setHeatmapWeighting(e.target.value as HeatmapWeighting)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  <option value="gaze">Gaze points</option>
+                  <option value="fixationDuration">Fixation duration</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-700 font-medium">Bandwidth:</span>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={10}
+                  step={0.5}
+                  value={bandwidthPercent}
+                  onChange={(e) => setBandwidthPercent(Number(e.target.value))}
+                />
+                <span className="text-gray-600 w-12">{bandwidthPercent}%</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-700 font-medium">Opacity:</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={heatmapOpacity}
+                  onChange={(e) => setHeatmapOpacity(Number(e.target.value))}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {problem ? (
+          <div className="card">
+            <div className="card-content">
+              <div className="text-center py-8">
+                <AlertCircle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+                <p className="text-gray-600">{problem}</p>
+              </div>
+            </div>
+          </div>
+        ) : isLoading || !comparison || !sideA.imageUrl || !sideB.imageUrl ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <>
+            {/* Side by side */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {([['A', sideA, drawHeatmapA], ['B', sideB, drawHeatmapB]] as const).map(([label, side, draw]) => (
+                <div key={label} className="card">
+                  <div className="card-header">
+                    <h2 className="card-title">{label}</h2>
+                    <p className="card-description">{describeSide(side)}</p>
+                  </div>
+                  <div className="card-content">
+                    <OverlayImage imageUrl={side.imageUrl!} alt={`Heatmap ${label}`} draw={draw} />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-center space-x-3 text-sm">
+              <span>Low attention</span>
+              <div className="w-40 h-3 rounded" style={{ background: colormapGradient(heatmapColormap) }}></div>
+              <span>High attention</span>
+            </div>
+
+            {/* Difference */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="card lg:col-span-2">
+                <div className="card-header">
+                  <h2 className="card-title">Difference (A − B)</h2>
+                  <p className="card-description">
+                    Share of attention each area received in A minus its share in B, drawn on picture A.
+                    Colors are scaled to the largest difference ({(comparison.difference.maxAbsDifference * 100).toFixed(2)}% of attention per cell).
+                  </p>
+                </div>
+                <div className="card-content">
+                  <OverlayImage imageUrl={sideA.imageUrl} alt="Heatmap difference" draw={drawDifference} />
+                  <div className="mt-4 flex items-center justify-center space-x-3 text-sm">
+                    <span>More attention in B</span>
+                    <div className="w-40 h-3 rounded border border-gray-200" style={{ background: divergingGradient() }}></div>
+                    <span>More attention in A</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card">
+                <div className="card-header">
+                  <h2 className="card-title">Where Attention Moved</h2>
+                  <p className="card-description">From A to B</p>
+                </div>
+                <div className="card-content space-y-4">
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">
+                        {comparison.correlation.toFixed(2)} ({describeAgreement(comparison.correlation)})
+                      </div>
+                      <div className="text-xs text-gray-600">Heatmap correlation</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <div className="font-semibold text-gray-900">{Math.round(comparison.shiftedShare * 100)}%</div>
+                      <div className="text-xs text-gray-600">Attention that moved</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg col-span-2">
+                      <div className="font-semibold text-gray-900">
+                        {Math.round(comparison.centerShift * 100)}% of the diagonal, {describeCenterShift(comparison)}
+                      </div>
+                      <div className="text-xs text-gray-600">Shift of the center of attention</div>
+                    </div>
+                  </div>
+                  {gained && lost && gained.change > 0 && (
+                    <p className="text-sm text-gray-700">
+                      B looked more at <strong>{gained.name.toLowerCase()}</strong> (+{Math.round(gained.change * 100)}%)
+                      and less at <strong>{lost.name.toLowerCase()}</strong> ({Math.round(lost.change * 100)}%).
+                    </p>
+                  )}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 pr-2">Third</th>
+                        <th className="py-1 pr-2">A</th>
+                        <th className="py-1 pr-2">B</th>
+                        <th className="py-1">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.regions.map(region => (
+                        <tr key={region.name} className="border-b border-gray-100">
+                          <td className="py-1 pr-2">{region.name}</td>
+                          <td className="py-1 pr-2 font-mono">{Math.round(region.shareA * 100)}%</td>
+                          <td className="py-1 pr-2 font-mono">{Math.round(region.shareB * 100)}%</td>
+                          <td className={`py-1 font-mono ${region.change > 0.005 ? 'text-blue-600' : region.change < -0.005 ? 'text-red-600' : 'text-gray-500'}`}>
+                            {region.change > 0 ? '+' : ''}{Math.round(region.change * 100)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom'
+import { Eye, Camera, Sun, Monitor, CheckCircle, XCircle, Clock } from 'lucide-react'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+
+export function ParticipateStudy() {
+  const { token } = useParams()
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const completed = searchParams.get('completed') === '1'
+
+  const shareLink = useQuery(api.shareLinks.getShareLink, token ? { token } : 'skip')
+
+  if (shareLink === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (completed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center max-w-md">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Thank you for participating!
+          </h2>
+          <p className="text-gray-600">
+            Your eye tracking session has been recorded{shareLink?.studyName ? ` for "${shareLink.studyName}"` : ''}.
+            You can close this page now.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!shareLink || shareLink.status !== 'active') {
+    const message = !shareLink
+      ? 'This link is not valid. Please check the address you were given.'
+      : shareLink.status === 'expired'
+        ? 'This study is no longer accepting participants.'
+        : shareLink.status === 'full'
+          ? 'This study has already reached its number of participants.'
+          : 'This link has been disabled by the study owner.'
+
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center max-w-md">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Link Unavailable
+          </h2>
+          <p className="text-gray-600">{message}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const steps = [
+    {
+      icon: Camera,
+      title: 'Allow camera access',
+      description: 'Your webcam is used to estimate where you are looking. No video is recorded or uploaded.'
+    },
+    {
+      icon: Sun,
+      title: 'Find even lighting',
+      description: 'Face a light source and avoid bright windows behind you.'
+    },
+    {
+      icon: Monitor,
+      title: 'Calibrate, then look at the picture',
+      description: 'Click the calibration points while looking at them, then view the picture naturally until the session ends.'
+    }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <Eye className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-gray-900">
+            {shareLink.studyName || 'Eye Tracking Study'}
+          </h1>
+          <p className="mt-2 text-gray-600">
+            You have been invited to take part in an eye tracking session. It takes a few minutes and only needs a webcam.
+          </p>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Before you start</h2>
+          </div>
+          <div className="card-content space-y-4">
+            {steps.map(step => {
+              const Icon = step.icon
+              return (
+                <div key={step.title} className="flex items-start space-x-3">
+                  <Icon className="h-5 w-5 text-primary-600 mt-0.5" />
+                  <div>
+                    <div className="font-medium text-gray-900">{step.title}</div>
+                    <div className="text-sm text-gray-600">{step.description}</div>
+                  </div>
+                </div>
+              )
+            })}
+            <p className="text-sm text-gray-500">
+              More advice is available in the <Link to="/tips" className="text-primary-600 hover:underline">eye tracking tips</Link>.
+            </p>
+          </div>
+        </div>
+
+        {shareLink.expiresAt && (
+          <p className="flex items-center justify-center text-sm text-gray-500">
+            <Clock className="h-4 w-4 mr-1" />
+            Open until {new Date(shareLink.expiresAt).toLocaleString()}
+          </p>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => navigate(`/eye-tracking-experiment?pictureId=${shareLink.pictureId}&shareToken=${token}`)}
+            className="btn btn-primary btn-lg"
+          >
+            Start Session
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
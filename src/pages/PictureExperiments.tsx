@@ -15,11 +15,17 @@ import {
   ExternalLink,
   ChevronDown,
   ChevronUp,
-  Sparkles
+  Sparkles,
+  Target,
+  Users,
+  GitCompare
 } from 'lucide-react'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ValueStudyResults } from '../components/ValueStudyResults'
 import { EdgeDetectionResults } from '../components/EdgeDetectionResults'
+import { AreasOfInterestEditor } from '../components/AreasOfInterestEditor'
+import { StudiesPanel } from '../components/StudiesPanel'
+import { ScanpathComparison } from '../components/ScanpathComparison'
 import { DEBUG_CONFIG } from '../config/debug'
 import { analyzeComposition, formatCompositionName } from '../utils/compositionAnalysis'
 import { processValueStudy, processEdgeDetection } from '../utils/imageProcessing'
@@ -36,10 +42,14 @@ export function PictureExperiments() {
   // Collapsible panel states
   const [expandedPanels, setExpandedPanels] = useState<{
     eyeTracking: boolean
+    areasOfInterest: boolean
+    studies: boolean
     valueStudy: boolean
     edgeDetection: boolean
   }>({
     eyeTracking: false,
+    areasOfInterest: false,
+    studies: false,
     valueStudy: false,
     edgeDetection: false
   })
@@ -656,7 +666,7 @@ export function PictureExperiments() {
     )
   }
 
-  const togglePanel = (panel: 'eyeTracking' | 'valueStudy' | 'edgeDetection') => {
+  const togglePanel = (panel: 'eyeTracking' | 'areasOfInterest' | 'studies' | 'valueStudy' | 'edgeDetection') => {
     setExpandedPanels(prev => ({ ...prev, [panel]: !prev[panel] }))
   }
 
@@ -1046,6 +1056,22 @@ export function PictureExperiments() {
                         </button>
                       </div>
                     ))}
+                    {eyeTrackingExps.length >= 2 && imageUrl && pictureId && (
+                      <div className="pt-4 border-t border-gray-200">
+                        <h3 className="font-medium text-gray-900 mb-1 flex items-center space-x-2">
+                          <GitCompare className="h-5 w-5" />
+                          <span>Compare Scan Paths</span>
+                        </h3>
+                        <p className="text-sm text-gray-600 mb-3">
+                          How similar two viewing sequences are: the order of regions visited and a MultiMatch comparison of the saccades.
+                        </p>
+                        <ScanpathComparison
+                          pictureId={pictureId}
+                          imageUrl={imageUrl}
+                          experiments={eyeTrackingExps}
+                        />
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-8">
@@ -1065,6 +1091,91 @@ export function PictureExperiments() {
             )}
           </div>
 
+          {/* Areas of Interest Panel */}
+          <div className="card">
+            <div className="card-header">
+              <div className="flex items-center justify-between">
+                <div 
+                  className="flex items-center space-x-3 cursor-pointer hover:opacity-80 transition-opacity flex-1"
+                  onClick={() => togglePanel('areasOfInterest')}
+                >
+                  <Target className="h-5 w-5 text-primary-600" />
+                  <div>
+                    <h2 className="card-title">Areas of Interest</h2>
+                    <p className="card-description">
+                      Named regions analyzed across all eye tracking sessions on this picture
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => togglePanel('areasOfInterest')}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  aria-label={expandedPanels.areasOfInterest ? 'Collapse panel' : 'Expand panel'}
+                >
+                  {expandedPanels.areasOfInterest ? (
+                    <ChevronUp className="h-5 w-5 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-gray-400" />
+                  )}
+                </button>
+              </div>
+            </div>
+            {expandedPanels.areasOfInterest && imageUrl && pictureId && (
+              <div className="card-content">
+                <AreasOfInterestEditor
+                  pictureId={pictureId}
+                  imageUrl={imageUrl}
+                  experiments={eyeTrackingExps}
+                  canEdit={!!userId && picture.userId === userId}
+                  userId={userId}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Studies Panel */}
+          <div className="card">
+            <div className="card-header">
+              <div className="flex items-center justify-between">
+                <div 
+                  className="flex items-center space-x-3 cursor-pointer hover:opacity-80 transition-opacity flex-1"
+                  onClick={() => togglePanel('studies')}
+                >
+                  <Users className="h-5 w-5 text-primary-600" />
+                  <div>
+                    <h2 className="card-title">Studies</h2>
+                    <p className="card-description">
+                      Group sessions from many participants for aggregate heatmaps and agreement
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => togglePanel('studies')}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  aria-label={expandedPanels.studies ? 'Collapse panel' : 'Expand panel'}
+                >
+                  {expandedPanels.studies ? (
+                    <ChevronUp className="h-5 w-5 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-gray-400" />
+                  )}
+                </button>
+              </div>
+            </div>
+            {expandedPanels.studies && pictureId && (
+              <div className="card-content">
+                <StudiesPanel
+                  pictureId={pictureId}
+                  experiments={eyeTrackingExps}
+                  canEdit={!!userId && picture.userId === userId}
+                  userId={userId}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Value Study Panel */}
           <div className="card">
             <div 
@@ -3,6 +3,7 @@ import { api } from '../../convex/_generated/api'
 import { useAuth } from '../hooks/useAuth'
 import { User, Mail, Calendar, BarChart3, Crown, Zap, CreditCard, ExternalLink, Check } from 'lucide-react'
 import { LoadingSpinner } from '../components/LoadingSpinner'
+import { CalibrationsPanel } from '../components/CalibrationsPanel'
 import { useState, useEffect } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import toast from 'react-hot-toast'
@@ -291,6 +292,8 @@ export function Profile() {
                 </div>
               </div>
             )}
+
+            {userId && <CalibrationsPanel userId={userId} />}
           </div>
 
           {/* Membership Info */}
@@ -0,0 +1,345 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { useAuth } from '../hooks/useAuth'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { ArrowLeft, Users, Eye, Trash2, XCircle, Calendar, Filter } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { StudyResults } from '../components/StudyResults'
+import { ShareLinksPanel } from '../components/ShareLinksPanel'
+import { StudySetupPanel } from '../components/StudySetupPanel'
+import { StudySession } from '../utils/studyAggregation'
+import {
+  QUESTIONNAIRE_QUESTIONS,
+  UNDISCLOSED,
+  formatParticipantAnswer,
+  matchesParticipantFilter,
+  ParticipantFilter,
+  QuestionnaireField
+} from '../utils/participantQuestionnaire'
+
+export function StudyDetails() {
+  const { studyId } = useParams()
+  const navigate = useNavigate()
+  const { userId } = useAuth()
+  const [imageDimensions, setImageDimensions] = useState<{ width: number, height: number } | null>(null)
+  const [participantFilter, setParticipantFilter] = useState<ParticipantFilter>({})
+
+  const study = useQuery(api.studies.getStudy, studyId ? { studyId: studyId as any } : 'skip')
+  const experiments = useQuery(api.studies.getStudyExperiments, studyId ? { studyId: studyId as any } : 'skip')
+  const picture = useQuery(api.pictures.getPicture, study?.pictureId ? { pictureId: study.pictureId } : 'skip')
+  const imageUrl = useQuery(api.pictures.getImageUrl, picture?.fileId ? { fileId: picture.fileId } : 'skip')
+  const areasOfInterest = useQuery(
+    api.areasOfInterest.getPictureAreasOfInterest,
+    study?.pictureId ? { pictureId: study.pictureId } : 'skip'
+  )
+  const removeExperimentFromStudy = useMutation(api.studies.removeExperimentFromStudy)
+  const deleteStudy = useMutation(api.studies.deleteStudy)
+
+  const isOwner = !!study && study.userId === (userId || undefined)
+
+  // Natural image dimensions - all stored gaze data is in natural image pixels
+  useEffect(() => {
+    if (!imageUrl) return
+    const img = new Image()
+    img.onload = () => {
+      setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight })
+    }
+    img.src = imageUrl
+  }, [imageUrl])
+
+  // Completed sessions, labelled in the order they were recorded
+  const sessions: StudySession[] = useMemo(() => (experiments || [])
+    .filter((exp: any) => exp.status === 'completed' && exp.eyeTrackingData?.gazePoints?.length > 0)
+    .map((exp: any, index: number) => ({
+      experimentId: exp._id,
+      label: `Participant ${index + 1}`,
+      gazePoints: exp.eyeTrackingData.gazePoints,
+      fixationPoints: exp.eyeTrackingData.fixationPoints || [],
+      participantInfo: exp.participantInfo
+    })), [experiments])
+
+  const filteredSessions = useMemo(
+    () => sessions.filter(session => matchesParticipantFilter(session.participantInfo, participantFilter)),
+    [sessions, participantFilter]
+  )
+
+  // Questions with at least one recorded answer, with the answers that occur
+  const answeredQuestions = useMemo(() => QUESTIONNAIRE_QUESTIONS
+    .map(question => {
+      const answers = new Set(sessions.map(session => session.participantInfo?.[question.field]).filter(Boolean) as string[])
+      const values = [...question.options.map(option => option.value), UNDISCLOSED].filter(value => answers.has(value))
+      return { question, values }
+    })
+    .filter(entry => entry.values.length > 0), [sessions])
+
+  const toggleFilterValue = (field: QuestionnaireField, value: string) => {
+    setParticipantFilter(prev => {
+      const current = prev[field] || []
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+      return { ...prev, [field]: next }
+    })
+  }
+
+  const handleRemoveSession = async (experimentId: string) => {
+    if (!window.confirm('Remove this session from the study? The experiment itself is kept.')) return
+    try {
+      const result = await removeExperimentFromStudy({
+        experimentId: experimentId as any,
+        userId: (userId || undefined) as any
+      })
+      if (result.success) {
+        toast.success(result.message)
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to remove session: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteStudy = async () => {
+    if (!study) return
+    if (!window.confirm(`Delete the study "${study.name}"? Its sessions are kept as regular experiments.`)) return
+    try {
+      const result = await deleteStudy({
+        studyId: study._id,
+        userId: (userId || undefined) as any
+      })
+      if (result.success) {
+        toast.success(result.message)
+        navigate(`/picture-experiments?pictureId=${study.pictureId}`)
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error: any) {
+      toast.error(`Failed to delete study: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  if (study === undefined || experiments === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!study) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Study Not Found
+          </h2>
+          <p className="text-gray-600 mb-4">
+            This study doesn't exist or has been deleted.
+          </p>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="btn btn-primary"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate(`/picture-experiments?pictureId=${study.pictureId}`)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <ArrowLeft className="h-6 w-6" />
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{study.name}</h1>
+                <p className="text-gray-600">
+                  {picture?.fileName} • {study.sessionCount} session{study.sessionCount === 1 ? '' : 's'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => navigate(`/eye-tracking-experiment?pictureId=${study.pictureId}&studyId=${study._id}`)}
+                className="btn btn-primary"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Record Session
+              </button>
+              {isOwner && (
+                <button onClick={handleDeleteStudy} className="btn btn-outline">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Study
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {study.description && (
+          <div className="card">
+            <div className="card-content pt-6">
+              <p className="text-gray-700">{study.description}</p>
+            </div>
+          </div>
+        )}
+
+        {isOwner && (
+          <StudySetupPanel
+            studyId={study._id}
+            userId={userId}
+            consentText={study.consentText}
+            questionnaireFields={study.questionnaireFields}
+          />
+        )}
+
+        {/* Share links require a registered owner, whose plan the sessions count toward */}
+        {isOwner && userId && (
+          <ShareLinksPanel pictureId={study.pictureId} studyId={study._id} userId={userId} />
+        )}
+
+        {/* Sessions */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              Sessions
+            </h2>
+            <p className="card-description">
+              Eye tracking sessions recorded for this study. Only completed sessions are included in the results.
+            </p>
+          </div>
+          <div className="card-content">
+            {experiments.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No sessions yet. Use "Record Session" to run a participant through eye tracking on this picture.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1 pr-2">Session</th>
+                    <th className="py-1 pr-2">Recorded</th>
+                    <th className="py-1 pr-2">Gaze Points</th>
+                    {answeredQuestions.map(({ question }) => (
+                      <th key={question.field} className="py-1 pr-2">{question.shortLabel}</th>
+                    ))}
+                    <th className="py-1 pr-2">Status</th>
+                    <th className="py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {experiments.map((exp: any) => {
+                    const session = sessions.find(s => s.experimentId === exp._id)
+                    return (
+                      <tr key={exp._id} className="border-b border-gray-100">
+                        <td className="py-2 pr-2">
+                          <Link to={`/experiments/${exp._id}`} className="text-primary-600 hover:underline">
+                            {session?.label || 'Incomplete session'}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-2">
+                          <span className="flex items-center space-x-1 text-gray-600">
+                            <Calendar className="h-3 w-3" />
+                            <span>{new Date(exp.createdAt).toLocaleString()}</span>
+                          </span>
+                        </td>
+                        <td className="py-2 pr-2 font-mono">{exp.eyeTrackingData?.gazePoints?.length || 0}</td>
+                        {answeredQuestions.map(({ question }) => (
+                          <td key={question.field} className="py-2 pr-2">
+                            {formatParticipantAnswer(question.field, exp.participantInfo?.[question.field])}
+                          </td>
+                        ))}
+                        <td className="py-2 pr-2 capitalize">{exp.status}</td>
+                        <td className="py-2 text-right">
+                          {isOwner && (
+                            <button
+                              onClick={() => handleRemoveSession(exp._id)}
+                              className="text-gray-400 hover:text-red-600"
+                              aria-label="Remove session from study"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Participant filters */}
+        {answeredQuestions.length > 0 && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title flex items-center">
+                <Filter className="h-5 w-5 mr-2" />
+                Filter Participants
+              </h2>
+              <p className="card-description">
+                Showing {filteredSessions.length} of {sessions.length} participants. Select answers to compare groups,
+                e.g. art students and professionals vs. no training.
+              </p>
+            </div>
+            <div className="card-content space-y-3">
+              {answeredQuestions.map(({ question, values }) => (
+                <div key={question.field} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-700 w-36">{question.shortLabel}:</span>
+                  {values.map(value => {
+                    const active = participantFilter[question.field]?.includes(value) || false
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => toggleFilterValue(question.field, value)}
+                        className={`px-2 py-1 rounded-md border text-xs ${
+                          active ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'
+                        }`}
+                      >
+                        {formatParticipantAnswer(question.field, value)}
+                      </button>
+                    )
+                  })}
+                </div>
+              ))}
+              {Object.values(participantFilter).some(values => values && values.length > 0) && (
+                <button onClick={() => setParticipantFilter({})} className="btn btn-outline btn-sm">
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Aggregated results */}
+        {imageUrl && imageDimensions && areasOfInterest !== undefined ? (
+          <StudyResults
+            sessions={filteredSessions}
+            areasOfInterest={areasOfInterest}
+            imageUrl={imageUrl}
+            imageWidth={imageDimensions.width}
+            imageHeight={imageDimensions.height}
+            studyName={study.name}
+          />
+        ) : (
+          <LoadingSpinner />
+        )}
+      </div>
+    </div>
+  )
+}
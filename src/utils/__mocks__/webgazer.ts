@@ -0,0 +1,10 @@
+// Stand-in for the WebGazer package in tests. The package is a local checkout
+// (file:../WebGazer) that is not installed everywhere, and the suites feed predictions
+// through replay sources instead, so nothing here is ever called.
+const webgazer = new Proxy({}, {
+  get(_target, property) {
+    throw new Error(`WebGazer is not available in tests (accessed webgazer.${String(property)})`)
+  },
+})
+
+export default webgazer
@@ -0,0 +1,159 @@
+/**
+ * Area of Interest (AOI) Metrics
+ *
+ * Computes standard AOI metrics from stored eye tracking data:
+ * - Time to first fixation (TTFF): ms from the start of the session to the first fixation inside the AOI
+ * - Dwell time: total duration of fixations inside the AOI
+ * - Fixation count: number of fixations inside the AOI
+ * - Revisits: number of times attention returned to the AOI after leaving it
+ * - Hit ratio: share of sessions with at least one fixation inside the AOI
+ *
+ * AOI vertices and fixations are both in natural image coordinates.
+ */
+
+import { Fixation } from './fixationDetection'
+
+export interface AOIPoint {
+  x: number
+  y: number
+}
+
+export type AOIShape = 'rectangle' | 'polygon'
+
+export interface AreaOfInterest {
+  _id: string
+  name: string
+  shape: AOIShape
+  points: AOIPoint[]
+  color?: string
+}
+
+export interface AOISessionData {
+  gazePoints: { timestamp: number }[]
+  fixationPoints?: Fixation[]
+}
+
+export interface AOISessionMetrics {
+  // null when the AOI was never fixated in this session
+  timeToFirstFixation: number | null
+  dwellTime: number
+  fixationCount: number
+  revisits: number
+  hit: boolean
+}
+
+export interface AOIMetrics {
+  aoiId: string
+  name: string
+  sessionCount: number
+  hitCount: number
+  hitRatio: number
+  // Averages over sessions that fixated the AOI
+  averageTimeToFirstFixation: number | null
+  // Averages over all sessions
+  averageDwellTime: number
+  averageFixationCount: number
+  averageRevisits: number
+}
+
+/**
+ * Build the 4 corners of a rectangle from two opposite corners.
+ */
+export function rectangleFromCorners(a: AOIPoint, b: AOIPoint): AOIPoint[] {
+  const minX = Math.min(a.x, b.x)
+  const maxX = Math.max(a.x, b.x)
+  const minY = Math.min(a.y, b.y)
+  const maxY = Math.max(a.y, b.y)
+  return [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ]
+}
+
+/**
+ * Ray-casting point-in-polygon test (rectangles are stored as 4-vertex polygons).
+ */
+export function isPointInAOI(point: AOIPoint, aoi: Pick<AreaOfInterest, 'points'>): boolean {
+  const vertices = aoi.points
+  if (vertices.length < 3) return false
+
+  let inside = false
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const xi = vertices[i].x
+    const yi = vertices[i].y
+    const xj = vertices[j].x
+    const yj = vertices[j].y
+    const intersects = (yi > point.y) !== (yj > point.y) &&
+      point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi
+    if (intersects) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * Metrics for one AOI within a single session.
+ */
+export function computeSessionAOIMetrics(aoi: AreaOfInterest, session: AOISessionData): AOISessionMetrics {
+  const fixations = [...(session.fixationPoints || [])].sort((a, b) => a.startTime - b.startTime)
+  // Session start is the first gaze sample; fall back to the first fixation for sparse data
+  const sessionStart = session.gazePoints.length > 0
+    ? Math.min(...session.gazePoints.map(p => p.timestamp))
+    : fixations[0]?.startTime ?? 0
+
+  let timeToFirstFixation: number | null = null
+  let dwellTime = 0
+  let fixationCount = 0
+  let visits = 0
+  let wasInside = false
+
+  for (const fixation of fixations) {
+    const inside = isPointInAOI(fixation, aoi)
+    if (inside) {
+      if (timeToFirstFixation === null) {
+        timeToFirstFixation = Math.max(0, fixation.startTime - sessionStart)
+      }
+      dwellTime += fixation.duration
+      fixationCount++
+      if (!wasInside) visits++
+    }
+    wasInside = inside
+  }
+
+  return {
+    timeToFirstFixation,
+    dwellTime,
+    fixationCount,
+    revisits: Math.max(0, visits - 1),
+    hit: fixationCount > 0,
+  }
+}
+
+/**
+ * Aggregate metrics for each AOI across all sessions on a picture.
+ */
+export function computeAOIMetrics(aois: AreaOfInterest[], sessions: AOISessionData[]): AOIMetrics[] {
+  return aois.map(aoi => {
+    const perSession = sessions.map(session => computeSessionAOIMetrics(aoi, session))
+    const hits = perSession.filter(m => m.hit)
+    const count = perSession.length
+    const average = (values: number[]) => values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 0
+
+    return {
+      aoiId: aoi._id,
+      name: aoi.name,
+      sessionCount: count,
+      hitCount: hits.length,
+      hitRatio: count > 0 ? hits.length / count : 0,
+      averageTimeToFirstFixation: hits.length > 0
+        ? average(hits.map(m => m.timeToFirstFixation as number))
+        : null,
+      averageDwellTime: average(perSession.map(m => m.dwellTime)),
+      averageFixationCount: average(perSession.map(m => m.fixationCount)),
+      averageRevisits: average(perSession.map(m => m.revisits)),
+    }
+  })
+}
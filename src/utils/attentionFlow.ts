@@ -0,0 +1,142 @@
+/**
+ * Attention Flow
+ *
+ * Describes how the eye travels through a picture in a single session:
+ * - Entry point: the first fixation, where the eye enters the picture
+ * - Exit point: the last fixation, where it leaves
+ * - Reading order: the regions visited, in order. Consecutive fixations in the same
+ *   region form one visit, so a region appears again only when the eye came back to it
+ *
+ * Regions are either the 3x3 rule-of-thirds grid or the picture's areas of interest.
+ * Fixations outside every region are left out of the visits; where areas of interest
+ * overlap, the first one listed wins. Regions and fixations are in natural image pixels.
+ */
+
+import { Fixation } from './fixationDetection'
+import { AOIPoint, AreaOfInterest, isPointInAOI, rectangleFromCorners } from './aoiMetrics'
+
+export type FlowRegion = Pick<AreaOfInterest, '_id' | 'name' | 'points' | 'color'> & {
+  // Rectangle that also contains points on its right and bottom edges (rule-of-thirds cells)
+  closedEdges?: boolean
+}
+
+export interface FlowEndpoint {
+  fixation: Fixation
+  // null when the fixation is outside every region
+  regionId: string | null
+}
+
+export interface FlowVisit {
+  regionId: string
+  name: string
+  startTime: number
+  // Total duration of the visit's fixations
+  dwellTime: number
+  fixationCount: number
+  // Duration-weighted mean position of the visit's fixations
+  center: AOIPoint
+}
+
+export interface AttentionFlow {
+  entry: FlowEndpoint | null
+  exit: FlowEndpoint | null
+  visits: FlowVisit[]
+  // Region names by first visit, each once
+  readingOrder: string[]
+  // Fixations outside every region
+  unassignedFixations: number
+}
+
+const THIRDS_ROWS = ['Top', 'Middle', 'Bottom']
+const THIRDS_COLUMNS = ['left', 'center', 'right']
+
+/**
+ * The 9 cells of the rule-of-thirds grid, row by row from the top left.
+ */
+export function createThirdsGrid(imageWidth: number, imageHeight: number): FlowRegion[] {
+  const cells: FlowRegion[] = []
+  THIRDS_ROWS.forEach((row, r) => {
+    THIRDS_COLUMNS.forEach((column, c) => {
+      cells.push({
+        _id: `thirds-${r}-${c}`,
+        name: r === 1 && c === 1 ? 'Center' : `${row} ${column}`,
+        points: rectangleFromCorners(
+          { x: (c * imageWidth) / 3, y: (r * imageHeight) / 3 },
+          { x: ((c + 1) * imageWidth) / 3, y: ((r + 1) * imageHeight) / 3 }
+        ),
+        closedEdges: true,
+      })
+    })
+  })
+  return cells
+}
+
+/**
+ * Region containing a fixation (null outside every region). Rule-of-thirds cells also
+ * take fixations on their edges, so ones on the right and bottom picture edges still
+ * belong to a cell; areas of interest use the plain polygon test.
+ */
+export function findRegion(fixation: AOIPoint, regions: FlowRegion[]): FlowRegion | null {
+  return regions.find(region => isPointInAOI(fixation, region)) ??
+    regions.find(region => {
+      if (!region.closedEdges) return false
+      const xs = region.points.map(p => p.x)
+      const ys = region.points.map(p => p.y)
+      return fixation.x >= Math.min(...xs) && fixation.x <= Math.max(...xs) &&
+        fixation.y >= Math.min(...ys) && fixation.y <= Math.max(...ys)
+    }) ??
+    null
+}
+
+/**
+ * Entry point, exit point and region visits for one session.
+ */
+export function computeAttentionFlow(fixations: Fixation[], regions: FlowRegion[]): AttentionFlow {
+  const sorted = [...fixations].sort((a, b) => a.startTime - b.startTime)
+  const assigned = sorted.map(fixation => ({ fixation, region: findRegion(fixation, regions) }))
+
+  const visits: Array<FlowVisit & { weightedX: number; weightedY: number }> = []
+  let unassignedFixations = 0
+  for (const { fixation, region } of assigned) {
+    if (!region) {
+      unassignedFixations++
+      continue
+    }
+    const last = visits[visits.length - 1]
+    if (last && last.regionId === region._id) {
+      last.dwellTime += fixation.duration
+      last.fixationCount++
+      last.weightedX += fixation.x * fixation.duration
+      last.weightedY += fixation.y * fixation.duration
+    } else {
+      visits.push({
+        regionId: region._id,
+        name: region.name,
+        startTime: fixation.startTime,
+        dwellTime: fixation.duration,
+        fixationCount: 1,
+        center: { x: fixation.x, y: fixation.y },
+        weightedX: fixation.x * fixation.duration,
+        weightedY: fixation.y * fixation.duration,
+      })
+    }
+  }
+
+  const toEndpoint = (entry: (typeof assigned)[number] | undefined): FlowEndpoint | null =>
+    entry ? { fixation: entry.fixation, regionId: entry.region?._id ?? null } : null
+
+  return {
+    entry: toEndpoint(assigned[0]),
+    exit: toEndpoint(assigned[assigned.length - 1]),
+    visits: visits.map(({ weightedX, weightedY, ...visit }) => ({
+      ...visit,
+      center: visit.dwellTime > 0
+        ? { x: weightedX / visit.dwellTime, y: weightedY / visit.dwellTime }
+        : visit.center,
+    })),
+    readingOrder: visits
+      .filter((visit, index) => visits.findIndex(v => v.regionId === visit.regionId) === index)
+      .map(visit => visit.name),
+    unassignedFixations,
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Calibration Grids
+ *
+ * Layouts for the click calibration. Presets spread 5, 9, 13 or 16 points over the
+ * viewport; a custom layout places points inside a region instead, typically the area
+ * where the picture will be displayed, so the regression model is trained where the
+ * gaze data actually matters.
+ *
+ * Layout positions are normalized (0-1) within the layout's region and converted to
+ * viewport pixels by `generateCalibrationPoints`. The resulting `CalibrationGrid` is
+ * stored with the calibration data so accuracy can later be compared per layout.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+
+export type CalibrationGridPreset = 5 | 9 | 13 | 16
+
+export interface CalibrationRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type CalibrationLayout =
+  | { type: 'preset'; pointCount: CalibrationGridPreset }
+  | {
+      type: 'custom'
+      // Normalized positions within the region
+      positions: Array<{ x: number; y: number }>
+      // Viewport region the positions refer to (defaults to the viewport minus the margin)
+      region?: CalibrationRegion
+      label?: string
+    }
+
+// The layout actually shown, recorded with the calibration data
+export interface CalibrationGrid {
+  layout: 'preset' | 'custom'
+  label: string
+  pointCount: number
+  points: Array<{ x: number; y: number }>
+  region: CalibrationRegion
+  viewportWidth: number
+  viewportHeight: number
+}
+
+// Margin from the viewport edges used by the presets
+export const CALIBRATION_GRID_MARGIN_PX = 50
+
+export const CALIBRATION_GRID_PRESETS: Record<CalibrationGridPreset, { label: string; description: string }> = {
+  5: { label: '5 points', description: 'Four corners and the center - quickest' },
+  9: { label: '9 points', description: '3x3 grid, center is point 5' },
+  13: { label: '13 points', description: '3x3 grid plus four points between the rows' },
+  16: { label: '16 points', description: '4x4 grid - densest coverage' },
+}
+
+export const CALIBRATION_GRID_PRESET_SIZES: CalibrationGridPreset[] = [5, 9, 13, 16]
+
+export const DEFAULT_CALIBRATION_LAYOUT: CalibrationLayout = {
+  type: 'preset',
+  pointCount: EYE_TRACKING_EXPERIMENT.CALIBRATION_GRID_POINTS,
+}
+
+// Evenly spaced rows x columns positions from 0 to 1
+function gridPositions(columns: number, rows: number): Array<{ x: number; y: number }> {
+  const positions: Array<{ x: number; y: number }> = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      positions.push({
+        x: columns > 1 ? col / (columns - 1) : 0.5,
+        y: rows > 1 ? row / (rows - 1) : 0.5,
+      })
+    }
+  }
+  return positions
+}
+
+/**
+ * Normalized positions of a preset layout.
+ */
+export function getPresetPositions(pointCount: CalibrationGridPreset): Array<{ x: number; y: number }> {
+  switch (pointCount) {
+    case 5:
+      return [
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 0.5, y: 0.5 },
+        { x: 0, y: 1 },
+        { x: 1, y: 1 },
+      ]
+    case 13:
+      return [
+        ...gridPositions(3, 3),
+        { x: 0.25, y: 0.25 },
+        { x: 0.75, y: 0.25 },
+        { x: 0.25, y: 0.75 },
+        { x: 0.75, y: 0.75 },
+      ]
+    case 16:
+      return gridPositions(4, 4)
+    case 9:
+    default:
+      return gridPositions(3, 3)
+  }
+}
+
+/**
+ * Custom layout focused on a region of the viewport, e.g. the displayed picture.
+ * Points are inset from the region edges so none sit on the border of the image.
+ */
+export function createRegionLayout(
+  region: CalibrationRegion,
+  columns = 3,
+  rows = 3,
+  label = 'Image area'
+): CalibrationLayout {
+  const inset = 0.05
+  return {
+    type: 'custom',
+    positions: gridPositions(columns, rows).map(p => ({
+      x: inset + p.x * (1 - 2 * inset),
+      y: inset + p.y * (1 - 2 * inset),
+    })),
+    region,
+    label,
+  }
+}
+
+/**
+ * Convert a layout to viewport pixel positions.
+ */
+export function generateCalibrationPoints(
+  layout: CalibrationLayout,
+  viewport: { width: number; height: number },
+  margin: number = CALIBRATION_GRID_MARGIN_PX
+): CalibrationGrid {
+  const fullRegion = {
+    x: margin,
+    y: margin,
+    width: Math.max(0, viewport.width - margin * 2),
+    height: Math.max(0, viewport.height - margin * 2),
+  }
+  const region = layout.type === 'custom' && layout.region ? layout.region : fullRegion
+  const positions = layout.type === 'preset' ? getPresetPositions(layout.pointCount) : layout.positions
+
+  const points = positions.map(p => ({
+    x: region.x + region.width * p.x,
+    y: region.y + region.height * p.y,
+  }))
+
+  return {
+    layout: layout.type,
+    label: layout.type === 'preset'
+      ? CALIBRATION_GRID_PRESETS[layout.pointCount].label
+      : layout.label || 'Custom',
+    pointCount: points.length,
+    points,
+    region,
+    viewportWidth: viewport.width,
+    viewportHeight: viewport.height,
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Calibration Validation
+ *
+ * Measures how well a calibration actually works. After the click calibration the
+ * participant fixates a few new targets (positions that were not used for training),
+ * and for each target we compare the recorded gaze samples with the target position:
+ * - Accuracy: distance between the mean gaze position and the target
+ * - Precision: RMS of the distances between successive samples (RMS-S2S)
+ *
+ * Both are reported in viewport (CSS) pixels and in degrees of visual angle. The
+ * calibration passes when the mean accuracy and precision over all targets stay within
+ * the EYE_TRACKING_EXPERIMENT thresholds and every target received enough samples.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { computePixelsPerDegree } from './fixationDetection'
+import { CalibrationRegion } from './calibrationGrids'
+
+export interface ValidationTarget {
+  x: number
+  y: number
+}
+
+export interface ValidationSample {
+  x: number
+  y: number
+  timestamp: number
+}
+
+export interface ValidationPointResult {
+  target: ValidationTarget
+  sampleCount: number
+  // Mean gaze position while fixating the target (null without samples)
+  meanGaze: { x: number; y: number } | null
+  errorPx: number | null
+  errorDeg: number | null
+  precisionPx: number | null
+  precisionDeg: number | null
+}
+
+export interface CalibrationValidation {
+  points: ValidationPointResult[]
+  meanErrorPx: number | null
+  meanErrorDeg: number | null
+  meanPrecisionPx: number | null
+  meanPrecisionDeg: number | null
+  passed: boolean
+  failureReason?: string
+  // Viewport the targets were shown in, so the error map can be redrawn later
+  viewportWidth: number
+  viewportHeight: number
+  validatedAt: number
+}
+
+/**
+ * Viewport pixels per degree of visual angle at the assumed viewing distance.
+ */
+export function getViewportPixelsPerDegree(): number {
+  return computePixelsPerDegree({ displayedWidth: 1, naturalWidth: 1 })
+}
+
+/**
+ * Validation targets for a calibration region: the centres of its four quadrants, which lie
+ * inside the calibrated area but between the points of a 3x3 layout over it.
+ */
+export function generateValidationTargets(region: CalibrationRegion): ValidationTarget[] {
+  return [
+    { x: region.x + region.width * 0.25, y: region.y + region.height * 0.25 },
+    { x: region.x + region.width * 0.75, y: region.y + region.height * 0.25 },
+    { x: region.x + region.width * 0.75, y: region.y + region.height * 0.75 },
+    { x: region.x + region.width * 0.25, y: region.y + region.height * 0.75 },
+  ]
+}
+
+/**
+ * Accuracy and precision for one target from the samples recorded while it was fixated.
+ */
+export function computeValidationPoint(
+  target: ValidationTarget,
+  samples: ValidationSample[],
+  pixelsPerDegree: number = getViewportPixelsPerDegree()
+): ValidationPointResult {
+  if (samples.length === 0) {
+    return { target, sampleCount: 0, meanGaze: null, errorPx: null, errorDeg: null, precisionPx: null, precisionDeg: null }
+  }
+
+  const meanGaze = {
+    x: samples.reduce((sum, s) => sum + s.x, 0) / samples.length,
+    y: samples.reduce((sum, s) => sum + s.y, 0) / samples.length,
+  }
+  const errorPx = Math.hypot(meanGaze.x - target.x, meanGaze.y - target.y)
+
+  let precisionPx: number | null = null
+  if (samples.length > 1) {
+    let squaredSum = 0
+    for (let i = 1; i < samples.length; i++) {
+      const dx = samples[i].x - samples[i - 1].x
+      const dy = samples[i].y - samples[i - 1].y
+      squaredSum += dx * dx + dy * dy
+    }
+    precisionPx = Math.sqrt(squaredSum / (samples.length - 1))
+  }
+
+  return {
+    target,
+    sampleCount: samples.length,
+    meanGaze,
+    errorPx,
+    errorDeg: errorPx / pixelsPerDegree,
+    precisionPx,
+    precisionDeg: precisionPx !== null ? precisionPx / pixelsPerDegree : null,
+  }
+}
+
+/**
+ * Combine per-target results into a pass/fail verdict.
+ */
+export function summarizeValidation(
+  points: ValidationPointResult[],
+  viewport: { width: number; height: number }
+): CalibrationValidation {
+  const mean = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null)
+    return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null
+  }
+
+  const meanErrorPx = mean(points.map(p => p.errorPx))
+  const meanErrorDeg = mean(points.map(p => p.errorDeg))
+  const meanPrecisionPx = mean(points.map(p => p.precisionPx))
+  const meanPrecisionDeg = mean(points.map(p => p.precisionDeg))
+
+  const missingIndex = points.findIndex(p => p.sampleCount < EYE_TRACKING_EXPERIMENT.VALIDATION_MIN_SAMPLES)
+  let failureReason: string | undefined
+  if (points.length === 0) {
+    failureReason = 'No validation targets were measured'
+  } else if (missingIndex !== -1) {
+    failureReason = `Not enough gaze samples at validation target ${missingIndex + 1}`
+  } else if (meanErrorDeg !== null && meanErrorDeg > EYE_TRACKING_EXPERIMENT.VALIDATION_MAX_ERROR_DEG) {
+    failureReason = `Gaze is off by ${meanErrorDeg.toFixed(1)}° on average (need ≤ ${EYE_TRACKING_EXPERIMENT.VALIDATION_MAX_ERROR_DEG}°)`
+  } else if (meanPrecisionDeg !== null && meanPrecisionDeg > EYE_TRACKING_EXPERIMENT.VALIDATION_MAX_PRECISION_DEG) {
+    failureReason = `Gaze is too unstable: ${meanPrecisionDeg.toFixed(1)}° RMS (need ≤ ${EYE_TRACKING_EXPERIMENT.VALIDATION_MAX_PRECISION_DEG}°)`
+  }
+
+  return {
+    points,
+    meanErrorPx,
+    meanErrorDeg,
+    meanPrecisionPx,
+    meanPrecisionDeg,
+    passed: !failureReason,
+    ...(failureReason ? { failureReason } : {}),
+    viewportWidth: viewport.width,
+    viewportHeight: viewport.height,
+    validatedAt: Date.now(),
+  }
+}
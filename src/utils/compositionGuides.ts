@@ -0,0 +1,200 @@
+/**
+ * Composition Guides
+ *
+ * Canonical guide lines for the composition classes predicted by
+ * `convex/imageClassification.ts`, and a score for how much of the viewers' attention
+ * falls along them.
+ *
+ * Guides are polylines in normalized image coordinates (0-1, origin top-left). Classes
+ * whose direction the classifier does not tell (e.g. which way a diagonal runs) have
+ * several variants; scoring picks the variant that matches the fixations best.
+ *
+ * The score is the share of fixation time within a band around the guides, compared
+ * with the share of the picture the band covers: a lift of 1 means viewers looked along
+ * the guides no more than chance, 2 means twice as much.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+
+export type GuidePoint = [number, number]
+
+export interface GuideLine {
+  points: GuidePoint[]
+  closed?: boolean
+}
+
+// One way of drawing a composition: all of its lines
+export type GuideVariant = GuideLine[]
+
+export interface CompositionAlignment {
+  composition: string
+  // Index into the composition's variants of the best-matching one
+  variantIndex: number
+  // Share of fixation time within the band around the guides (0-1)
+  onGuideShare: number
+  // Share of the picture covered by the band (0-1), the expected share for random viewing
+  areaShare: number
+  // onGuideShare / areaShare (null when the band covers nothing)
+  lift: number | null
+  fixationsOnGuide: number
+  totalFixations: number
+}
+
+interface WeightedPoint {
+  x: number
+  y: number
+  duration: number
+}
+
+const line = (...points: GuidePoint[]): GuideLine => ({ points })
+const closedLine = (...points: GuidePoint[]): GuideLine => ({ points, closed: true })
+
+// Polyline through a parametric curve, t from 0 to 1
+function curve(f: (t: number) => GuidePoint, segments = 48, closed = false): GuideLine {
+  const points: GuidePoint[] = []
+  for (let i = 0; i <= (closed ? segments - 1 : segments); i++) points.push(f(i / segments))
+  return { points, closed }
+}
+
+const RAY_COUNT = 8
+const rays = (cx: number, cy: number): GuideVariant =>
+  Array.from({ length: RAY_COUNT }, (_, i) => {
+    const angle = (i / RAY_COUNT) * 2 * Math.PI
+    // Extend to the picture edge
+    const reach = Math.min(
+      Math.abs(Math.cos(angle)) > 1e-6 ? (Math.cos(angle) > 0 ? 1 - cx : cx) / Math.abs(Math.cos(angle)) : Infinity,
+      Math.abs(Math.sin(angle)) > 1e-6 ? (Math.sin(angle) > 0 ? 1 - cy : cy) / Math.abs(Math.sin(angle)) : Infinity
+    )
+    return line([cx, cy], [cx + Math.cos(angle) * reach, cy + Math.sin(angle) * reach])
+  })
+
+export const COMPOSITION_GUIDES: Record<string, GuideVariant[]> = {
+  // Heavy mass near the fulcrum on one side, light mass far out on the other
+  steelyard: [[line([0, 0.55], [1, 0.55]), line([0.33, 0.55], [0.33, 1])]],
+  inverted_steelyard: [[line([0, 0.55], [1, 0.55]), line([0.67, 0.55], [0.67, 1])]],
+  balanced_scales: [[line([0.1, 0.45], [0.9, 0.45]), line([0.5, 0.45], [0.5, 1])]],
+  circular: [[curve(t => [0.5 + 0.35 * Math.cos(2 * Math.PI * t), 0.5 + 0.35 * Math.sin(2 * Math.PI * t)], 48, true)]],
+  compound_curve: [
+    [curve(t => [0.5 + 0.25 * Math.sin(2 * Math.PI * t), 0.05 + 0.9 * t])],
+    [curve(t => [0.5 - 0.25 * Math.sin(2 * Math.PI * t), 0.05 + 0.9 * t])],
+  ],
+  diagonal: [
+    [line([0, 1], [1, 0])],
+    [line([0, 0], [1, 1])],
+  ],
+  cross: [[line([0.5, 0], [0.5, 1]), line([0, 0.4], [1, 0.4])]],
+  radiating_line: [rays(0.5, 0.5), rays(0.5, 0.35)],
+  // Opening that frames a distant center
+  tunnel: [[
+    closedLine([0.15, 0.15], [0.85, 0.15], [0.85, 0.85], [0.15, 0.85]),
+    closedLine([0.4, 0.4], [0.6, 0.4], [0.6, 0.6], [0.4, 0.6]),
+  ]],
+  u_shaped: [[curve(t => {
+    const x = 0.15 + 0.7 * t
+    return [x, 0.2 + 0.65 * (1 - ((x - 0.5) / 0.35) ** 2)]
+  })]],
+  triangle: [[closedLine([0.5, 0.15], [0.15, 0.85], [0.85, 0.85])]],
+}
+
+export function hasCompositionGuides(composition: string): boolean {
+  return composition in COMPOSITION_GUIDES
+}
+
+// Segments of a variant in pixel coordinates
+function toSegments(variant: GuideVariant, width: number, height: number): Array<[GuidePoint, GuidePoint]> {
+  const segments: Array<[GuidePoint, GuidePoint]> = []
+  for (const guide of variant) {
+    const points = guide.points.map(([x, y]): GuidePoint => [x * width, y * height])
+    for (let i = 0; i < points.length - 1; i++) segments.push([points[i], points[i + 1]])
+    if (guide.closed && points.length > 2) segments.push([points[points.length - 1], points[0]])
+  }
+  return segments
+}
+
+function distanceToSegment(x: number, y: number, [[ax, ay], [bx, by]]: [GuidePoint, GuidePoint]): number {
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared)) : 0
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy))
+}
+
+function distanceToGuides(x: number, y: number, segments: Array<[GuidePoint, GuidePoint]>): number {
+  let best = Infinity
+  for (const segment of segments) best = Math.min(best, distanceToSegment(x, y, segment))
+  return best
+}
+
+// Band half-width in pixels: a percentage of the picture diagonal
+export function guideBandWidth(
+  imageWidth: number,
+  imageHeight: number,
+  bandPercent: number = EYE_TRACKING_EXPERIMENT.COMPOSITION_GUIDE_BAND_PERCENT
+): number {
+  return (Math.hypot(imageWidth, imageHeight) * bandPercent) / 100
+}
+
+// Grid resolution used to estimate the share of the picture covered by the band
+const AREA_SAMPLES = 64
+
+/**
+ * True for each fixation within the band around a variant's guides.
+ */
+export function fixationsOnGuides(
+  fixations: Array<{ x: number; y: number }>,
+  variant: GuideVariant,
+  imageWidth: number,
+  imageHeight: number,
+  bandPercent?: number
+): boolean[] {
+  const segments = toSegments(variant, imageWidth, imageHeight)
+  const band = guideBandWidth(imageWidth, imageHeight, bandPercent)
+  return fixations.map(f => distanceToGuides(f.x, f.y, segments) <= band)
+}
+
+/**
+ * Score how well fixations (natural image pixels, weighted by duration) follow a composition.
+ * Returns null for compositions without guides (e.g. "no_composition").
+ */
+export function scoreCompositionAlignment(
+  fixations: WeightedPoint[],
+  composition: string,
+  imageWidth: number,
+  imageHeight: number,
+  bandPercent?: number
+): CompositionAlignment | null {
+  const variants = COMPOSITION_GUIDES[composition]
+  if (!variants || imageWidth <= 0 || imageHeight <= 0) return null
+
+  const band = guideBandWidth(imageWidth, imageHeight, bandPercent)
+  const totalDuration = fixations.reduce((sum, f) => sum + f.duration, 0)
+
+  const scored = variants.map((variant, variantIndex) => {
+    const segments = toSegments(variant, imageWidth, imageHeight)
+    const onGuide = fixations.filter(f => distanceToGuides(f.x, f.y, segments) <= band)
+    const onGuideDuration = onGuide.reduce((sum, f) => sum + f.duration, 0)
+
+    let covered = 0
+    for (let i = 0; i < AREA_SAMPLES; i++) {
+      for (let j = 0; j < AREA_SAMPLES; j++) {
+        const x = ((i + 0.5) / AREA_SAMPLES) * imageWidth
+        const y = ((j + 0.5) / AREA_SAMPLES) * imageHeight
+        if (distanceToGuides(x, y, segments) <= band) covered++
+      }
+    }
+    const areaShare = covered / (AREA_SAMPLES * AREA_SAMPLES)
+    const onGuideShare = totalDuration > 0 ? onGuideDuration / totalDuration : 0
+
+    return {
+      composition,
+      variantIndex,
+      onGuideShare,
+      areaShare,
+      lift: areaShare > 0 ? onGuideShare / areaShare : null,
+      fixationsOnGuide: onGuide.length,
+      totalFixations: fixations.length,
+    }
+  })
+
+  return scored.reduce((best, score) => (score.lift ?? 0) > (best.lift ?? 0) ? score : best)
+}
@@ -0,0 +1,160 @@
+/**
+ * Device Fingerprint
+ *
+ * A WebGazer calibration maps eye features from one camera to pixel positions on one
+ * screen. Restored on another monitor, resolution or webcam, the regression model still
+ * produces gaze points - just wrong ones - and the heatmaps built from them look
+ * plausible. The fingerprint records the setup at calibration time so a restore can be
+ * refused (different screen, pixel ratio or camera) or flagged (resized window, other
+ * browser) before any data is recorded.
+ */
+
+export interface DeviceInfo {
+  userAgent: string
+  platform?: string
+  devicePixelRatio: number
+  cameraLabel?: string
+}
+
+export interface ScreenInfo {
+  screenWidth: number
+  screenHeight: number
+  viewportWidth: number
+  viewportHeight: number
+}
+
+export type DeviceFingerprint = DeviceInfo & ScreenInfo
+
+export type FingerprintMismatchSeverity = 'block' | 'warn'
+
+export interface FingerprintMismatch {
+  field: 'screen' | 'devicePixelRatio' | 'camera' | 'viewport' | 'browser'
+  label: string
+  saved: string
+  current: string
+  severity: FingerprintMismatchSeverity
+}
+
+export interface FingerprintCheck {
+  // 'unknown' when the calibration was saved without a fingerprint
+  status: 'match' | 'warn' | 'mismatch' | 'unknown'
+  mismatches: FingerprintMismatch[]
+}
+
+// Viewport changes up to this fraction (e.g. a toolbar appearing) are not reported
+const VIEWPORT_TOLERANCE = 0.1
+
+/**
+ * Fingerprint of the current screen, window and (if known) camera.
+ */
+export function captureDeviceFingerprint(cameraLabel?: string): DeviceFingerprint {
+  return {
+    userAgent: navigator.userAgent,
+    platform: navigator.platform || undefined,
+    devicePixelRatio: window.devicePixelRatio,
+    ...(cameraLabel ? { cameraLabel } : {}),
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+  }
+}
+
+// Browser family and major version, e.g. "Chrome 126"
+// (Edge and Chrome user agents also name Chrome and Safari, so the order matters)
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ['Edge', /Edg\/(\d+)/],
+  ['Firefox', /Firefox\/(\d+)/],
+  ['Chrome', /Chrome\/(\d+)/],
+  ['Safari', /Version\/(\d+).*Safari/],
+]
+
+function browserName(userAgent: string): string {
+  for (const [name, pattern] of BROWSER_PATTERNS) {
+    const match = userAgent.match(pattern)
+    if (match) return `${name} ${match[1]}`
+  }
+  return 'Unknown browser'
+}
+
+function changedBeyondTolerance(saved: number, current: number): boolean {
+  return saved > 0 && Math.abs(current - saved) / saved > VIEWPORT_TOLERANCE
+}
+
+/**
+ * Compare the fingerprint a calibration was recorded with to the current one.
+ */
+export function compareDeviceFingerprints(
+  saved: DeviceFingerprint | null | undefined,
+  current: DeviceFingerprint
+): FingerprintCheck {
+  if (!saved) return { status: 'unknown', mismatches: [] }
+
+  const mismatches: FingerprintMismatch[] = []
+
+  if (saved.screenWidth !== current.screenWidth || saved.screenHeight !== current.screenHeight) {
+    mismatches.push({
+      field: 'screen',
+      label: 'Screen resolution',
+      saved: `${saved.screenWidth}×${saved.screenHeight}`,
+      current: `${current.screenWidth}×${current.screenHeight}`,
+      severity: 'block',
+    })
+  }
+
+  if (saved.devicePixelRatio !== current.devicePixelRatio) {
+    mismatches.push({
+      field: 'devicePixelRatio',
+      label: 'Pixel ratio (display scaling or zoom)',
+      saved: String(saved.devicePixelRatio),
+      current: String(current.devicePixelRatio),
+      severity: 'block',
+    })
+  }
+
+  // Labels are only available once camera access was granted, so compare only when both are known
+  if (saved.cameraLabel && current.cameraLabel && saved.cameraLabel !== current.cameraLabel) {
+    mismatches.push({
+      field: 'camera',
+      label: 'Camera',
+      saved: saved.cameraLabel,
+      current: current.cameraLabel,
+      severity: 'block',
+    })
+  }
+
+  if (changedBeyondTolerance(saved.viewportWidth, current.viewportWidth) ||
+      changedBeyondTolerance(saved.viewportHeight, current.viewportHeight)) {
+    mismatches.push({
+      field: 'viewport',
+      label: 'Window size',
+      saved: `${saved.viewportWidth}×${saved.viewportHeight}`,
+      current: `${current.viewportWidth}×${current.viewportHeight}`,
+      severity: 'warn',
+    })
+  }
+
+  const savedBrowser = browserName(saved.userAgent)
+  const currentBrowser = browserName(current.userAgent)
+  if (savedBrowser.split(' ')[0] !== currentBrowser.split(' ')[0]) {
+    mismatches.push({
+      field: 'browser',
+      label: 'Browser',
+      saved: savedBrowser,
+      current: currentBrowser,
+      severity: 'warn',
+    })
+  }
+
+  return {
+    status: mismatches.some(m => m.severity === 'block') ? 'mismatch' : mismatches.length > 0 ? 'warn' : 'match',
+    mismatches,
+  }
+}
+
+/**
+ * One-line description of the mismatches, for toasts and confirmation dialogs.
+ */
+export function describeFingerprintMismatches(mismatches: FingerprintMismatch[]): string {
+  return mismatches.map(m => `${m.label}: ${m.saved} → ${m.current}`).join('; ')
+}
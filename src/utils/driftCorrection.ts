@@ -0,0 +1,84 @@
+/**
+ * Drift Correction
+ *
+ * Webcam calibrations degrade during a session as the head moves. A drift check shows a
+ * single target mid-session and measures the offset between the target and the recorded
+ * gaze (reusing the calibration validation measurement). Small offsets are corrected by
+ * shifting every later gaze sample; large ones call for a quick recalibration instead,
+ * because a constant shift cannot fix a model that no longer fits.
+ *
+ * Offsets and corrections are in viewport (CSS) pixels. Every check is logged with the
+ * experiment as `eyeTrackingData.driftCorrections`.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { ValidationPointResult } from './calibrationValidation'
+
+export type DriftCheckAction = 'none' | 'corrected' | 'recalibrated' | 'skipped'
+
+export interface DriftCorrectionEvent {
+  timestamp: number
+  targetX: number
+  targetY: number
+  // Mean gaze minus target, after any correction already in effect
+  offsetX: number
+  offsetY: number
+  errorDeg: number
+  sampleCount: number
+  action: DriftCheckAction
+  // Total correction subtracted from gaze samples after this check
+  correctionX: number
+  correctionY: number
+}
+
+export interface DriftOffset {
+  x: number
+  y: number
+}
+
+// What a drift check measurement calls for, before the participant is asked anything
+export type DriftDecision = 'none' | 'correct' | 'recalibrate' | 'skipped'
+
+/**
+ * Decide how to handle a drift check measurement.
+ */
+export function evaluateDrift(measurement: ValidationPointResult): DriftDecision {
+  if (!measurement.meanGaze || measurement.errorDeg === null ||
+      measurement.sampleCount < EYE_TRACKING_EXPERIMENT.VALIDATION_MIN_SAMPLES) {
+    return 'skipped'
+  }
+  if (measurement.errorDeg < EYE_TRACKING_EXPERIMENT.DRIFT_MIN_CORRECTION_DEG) return 'none'
+  if (measurement.errorDeg > EYE_TRACKING_EXPERIMENT.DRIFT_MAX_CORRECTION_DEG) return 'recalibrate'
+  return 'correct'
+}
+
+/**
+ * Build the log entry for a drift check. `correction` is the total correction in effect
+ * after the check; `corrected` adds the measured offset to the previous correction.
+ */
+export function createDriftEvent(
+  measurement: ValidationPointResult,
+  action: DriftCheckAction,
+  previousCorrection: DriftOffset
+): DriftCorrectionEvent {
+  const offsetX = measurement.meanGaze ? measurement.meanGaze.x - measurement.target.x : 0
+  const offsetY = measurement.meanGaze ? measurement.meanGaze.y - measurement.target.y : 0
+  const correction = action === 'corrected'
+    ? { x: previousCorrection.x + offsetX, y: previousCorrection.y + offsetY }
+    : action === 'recalibrated'
+      ? { x: 0, y: 0 }
+      : previousCorrection
+
+  return {
+    timestamp: Date.now(),
+    targetX: measurement.target.x,
+    targetY: measurement.target.y,
+    offsetX,
+    offsetY,
+    errorDeg: measurement.errorDeg ?? 0,
+    sampleCount: measurement.sampleCount,
+    action,
+    correctionX: correction.x,
+    correctionY: correction.y,
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Fixation Detection
+ *
+ * Pluggable fixation detection for eye tracking sessions. All algorithms share one
+ * interface so an experiment can record which algorithm (and which thresholds) produced
+ * its fixations, and the results view can re-run detection with a different algorithm
+ * on the same gaze stream for comparison.
+ *
+ * Algorithms:
+ * - centroid: grows a fixation while each new point stays within a distance of the running centroid
+ *   (the original GlanceMap detector)
+ * - idt: dispersion-threshold identification (Salvucci & Goldberg, 2000)
+ * - ivt: velocity-threshold identification (Salvucci & Goldberg, 2000)
+ *
+ * Gaze points are expected in natural image coordinates. Thresholds can be given in
+ * pixels or in degrees of visual angle; degrees are converted using `pixelsPerDegree`.
+ * Detection runs separately on each stretch of samples between blinks and track loss,
+ * so no fixation spans a gap.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { GazeGap, splitAtGaps } from './gazeGaps'
+
+export type FixationAlgorithm = 'centroid' | 'idt' | 'ivt'
+export type ThresholdUnit = 'px' | 'deg'
+
+export interface FixationSample {
+  x: number
+  y: number
+  timestamp: number
+}
+
+export interface Fixation {
+  x: number
+  y: number
+  duration: number
+  startTime: number
+}
+
+export interface FixationDetectionParams {
+  algorithm: FixationAlgorithm
+  unit: ThresholdUnit
+  // Spatial threshold for centroid (max distance from centroid) and I-DT (max dispersion)
+  dispersionThreshold: number
+  // Velocity threshold for I-VT, in unit per second
+  velocityThreshold: number
+  minDurationMs: number
+  minPoints: number
+  // Natural image pixels per degree of visual angle (required when unit is 'deg')
+  pixelsPerDegree?: number
+}
+
+export const FIXATION_ALGORITHM_LABELS: Record<FixationAlgorithm, string> = {
+  centroid: 'Centroid distance',
+  idt: 'Dispersion threshold (I-DT)',
+  ivt: 'Velocity threshold (I-VT)',
+}
+
+// CSS reference pixel is 1/96 inch
+const CSS_PIXELS_PER_CM = 96 / 2.54
+
+/**
+ * Default parameters for an algorithm, taken from EYE_TRACKING_EXPERIMENT.
+ * I-DT and I-VT use thresholds in degrees when a pixels-per-degree estimate is given,
+ * otherwise they fall back to pixel thresholds. The centroid detector always uses pixels.
+ */
+export function getDefaultFixationParams(
+  algorithm: FixationAlgorithm = EYE_TRACKING_EXPERIMENT.FIXATION_ALGORITHM,
+  pixelsPerDegree?: number
+): FixationDetectionParams {
+  const useDegrees = algorithm !== 'centroid' && !!pixelsPerDegree && pixelsPerDegree > 0
+
+  return {
+    algorithm,
+    unit: useDegrees ? 'deg' : 'px',
+    dispersionThreshold: useDegrees
+      ? EYE_TRACKING_EXPERIMENT.FIXATION_DISPERSION_DEG
+      : EYE_TRACKING_EXPERIMENT.FIXATION_THRESHOLD_PX,
+    velocityThreshold: useDegrees
+      ? EYE_TRACKING_EXPERIMENT.FIXATION_VELOCITY_DEG_PER_SEC
+      : EYE_TRACKING_EXPERIMENT.FIXATION_VELOCITY_PX_PER_SEC,
+    minDurationMs: EYE_TRACKING_EXPERIMENT.FIXATION_DURATION_MS,
+    // I-VT groups consecutive slow samples, so a pair is already a valid group
+    minPoints: algorithm === 'ivt' ? 2 : EYE_TRACKING_EXPERIMENT.FIXATION_MIN_POINTS,
+    ...(useDegrees ? { pixelsPerDegree } : {}),
+  }
+}
+
+/**
+ * Compute how many natural image pixels span one degree of visual angle.
+ *
+ * Assumes the browser's nominal 96 CSS px/inch, so it is an estimate unless the
+ * physical screen density is known.
+ */
+export function computePixelsPerDegree(options: {
+  displayedWidth: number
+  naturalWidth: number
+  viewingDistanceCm?: number
+}): number {
+  const viewingDistanceCm = options.viewingDistanceCm ?? EYE_TRACKING_EXPERIMENT.VIEWING_DISTANCE_CM
+  // Size of one degree on screen: 2 * d * tan(0.5°)
+  const cmPerDegree = 2 * viewingDistanceCm * Math.tan((0.5 * Math.PI) / 180)
+  const cssPixelsPerDegree = cmPerDegree * CSS_PIXELS_PER_CM
+  const naturalPerCss = options.displayedWidth > 0 ? options.naturalWidth / options.displayedWidth : 1
+  return cssPixelsPerDegree * naturalPerCss
+}
+
+// Convert a threshold expressed in params.unit to natural image pixels
+function toPixels(value: number, params: FixationDetectionParams): number {
+  if (params.unit === 'px') return value
+  if (!params.pixelsPerDegree || params.pixelsPerDegree <= 0) {
+    throw new Error('pixelsPerDegree is required for thresholds in degrees of visual angle')
+  }
+  return value * params.pixelsPerDegree
+}
+
+function centroidOf(points: FixationSample[]): { x: number; y: number } {
+  const x = points.reduce((sum, p) => sum + p.x, 0) / points.length
+  const y = points.reduce((sum, p) => sum + p.y, 0) / points.length
+  return { x, y }
+}
+
+function dispersionOf(points: FixationSample[]): number {
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    if (p.x < minX) minX = p.x
+    if (p.x > maxX) maxX = p.x
+    if (p.y < minY) minY = p.y
+    if (p.y > maxY) maxY = p.y
+  }
+  return (maxX - minX) + (maxY - minY)
+}
+
+// Centroid-distance detector (original GlanceMap behaviour)
+function detectCentroid(points: FixationSample[], maxDistance: number, params: FixationDetectionParams): Fixation[] {
+  const fixations: Fixation[] = []
+  let current: FixationSample[] = []
+  let currentStart = 0
+
+  for (const point of points) {
+    if (current.length === 0) {
+      current = [point]
+      currentStart = point.timestamp
+      continue
+    }
+
+    const centroid = centroidOf(current)
+    const distance = Math.sqrt(Math.pow(point.x - centroid.x, 2) + Math.pow(point.y - centroid.y, 2))
+
+    if (distance <= maxDistance) {
+      current.push(point)
+    } else {
+      // Fixation ended at the first point outside the threshold
+      const duration = point.timestamp - currentStart
+      if (duration >= params.minDurationMs && current.length >= params.minPoints) {
+        fixations.push({ ...centroidOf(current), duration, startTime: currentStart })
+      }
+      current = [point]
+      currentStart = point.timestamp
+    }
+  }
+
+  // Check final fixation
+  if (current.length >= params.minPoints) {
+    const duration = points[points.length - 1].timestamp - currentStart
+    if (duration >= params.minDurationMs) {
+      fixations.push({ ...centroidOf(current), duration, startTime: currentStart })
+    }
+  }
+
+  return fixations
+}
+
+// Dispersion-threshold identification (I-DT)
+function detectIDT(points: FixationSample[], maxDispersion: number, params: FixationDetectionParams): Fixation[] {
+  const fixations: Fixation[] = []
+  let start = 0
+
+  while (start < points.length) {
+    // Initial window covers the minimum fixation duration
+    let end = start
+    while (end < points.length && points[end].timestamp - points[start].timestamp < params.minDurationMs) {
+      end++
+    }
+    if (end >= points.length) break
+
+    let window = points.slice(start, end + 1)
+    if (window.length < params.minPoints || dispersionOf(window) > maxDispersion) {
+      start++
+      continue
+    }
+
+    // Grow the window until dispersion exceeds the threshold
+    while (end + 1 < points.length && dispersionOf(points.slice(start, end + 2)) <= maxDispersion) {
+      end++
+    }
+    window = points.slice(start, end + 1)
+
+    fixations.push({
+      ...centroidOf(window),
+      duration: window[window.length - 1].timestamp - window[0].timestamp,
+      startTime: window[0].timestamp,
+    })
+    start = end + 1
+  }
+
+  return fixations
+}
+
+// Velocity-threshold identification (I-VT)
+function detectIVT(points: FixationSample[], maxVelocityPxPerSec: number, params: FixationDetectionParams): Fixation[] {
+  const fixations: Fixation[] = []
+  let group: FixationSample[] = []
+
+  const flush = () => {
+    if (group.length >= params.minPoints) {
+      const duration = group[group.length - 1].timestamp - group[0].timestamp
+      if (duration >= params.minDurationMs) {
+        fixations.push({ ...centroidOf(group), duration, startTime: group[0].timestamp })
+      }
+    }
+    group = []
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    if (i === 0) {
+      group = [points[0]]
+      continue
+    }
+    const prev = points[i - 1]
+    const point = points[i]
+    const dt = (point.timestamp - prev.timestamp) / 1000
+    const distance = Math.sqrt(Math.pow(point.x - prev.x, 2) + Math.pow(point.y - prev.y, 2))
+    const velocity = dt > 0 ? distance / dt : Infinity
+
+    if (velocity <= maxVelocityPxPerSec) {
+      if (group.length === 0) group.push(prev)
+      group.push(point)
+    } else {
+      flush()
+    }
+  }
+  flush()
+
+  return fixations
+}
+
+/**
+ * Detect fixations in a gaze stream.
+ *
+ * Missing fields in `params` are filled from the defaults for the chosen algorithm.
+ */
+export function detectFixations(
+  points: FixationSample[],
+  params: Partial<FixationDetectionParams> = {},
+  gaps: GazeGap[] = []
+): Fixation[] {
+  if (points.length < 2) return []
+
+  const resolved = resolveFixationParams(params)
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp)
+
+  return splitAtGaps(sorted, gaps).flatMap(segment => {
+    if (segment.length < 2) return []
+    switch (resolved.algorithm) {
+      case 'idt':
+        return detectIDT(segment, toPixels(resolved.dispersionThreshold, resolved), resolved)
+      case 'ivt':
+        return detectIVT(segment, toPixels(resolved.velocityThreshold, resolved), resolved)
+      case 'centroid':
+      default:
+        return detectCentroid(segment, toPixels(resolved.dispersionThreshold, resolved), resolved)
+    }
+  })
+}
+
+// Fill in defaults for any missing parameter
+export function resolveFixationParams(params: Partial<FixationDetectionParams> = {}): FixationDetectionParams {
+  return { ...getDefaultFixationParams(params.algorithm, params.pixelsPerDegree), ...params }
+}
+
+// Short human-readable summary of the parameters, e.g. for the results view
+export function describeFixationParams(params: FixationDetectionParams): string {
+  const unitLabel = params.unit === 'deg' ? '°' : 'px'
+  const threshold = params.algorithm === 'ivt'
+    ? `${params.velocityThreshold}${unitLabel}/s`
+    : `${params.dispersionThreshold}${unitLabel}`
+  return `${FIXATION_ALGORITHM_LABELS[params.algorithm]} • ${threshold} • min ${params.minDurationMs}ms`
+}
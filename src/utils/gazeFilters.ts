@@ -0,0 +1,213 @@
+/**
+ * Gaze Filters
+ *
+ * Smoothing stage between WebGazer's predictions and everything downstream. Modes:
+ * - none: predictions are used as they come
+ * - kalman: WebGazer's built-in constant-velocity Kalman filter. Live, WebGazer applies it
+ *   before predictions reach us; post-hoc, an equivalent filter runs here
+ * - ema: exponential moving average
+ * - one-euro: One Euro filter (Casiez et al., 2012), which smooths strongly while the eye
+ *   is still and follows quickly during saccades
+ *
+ * The same filters run live in `webgazerManager` and post-hoc on stored points through
+ * `applyGazeFilter`, so smoothed and unsmoothed results can be compared on one session.
+ * Filters restart after every blink or track-loss gap.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { GazeGap, splitAtGaps } from './gazeGaps'
+
+export type GazeFilterMode = 'none' | 'kalman' | 'ema' | 'one-euro'
+
+export interface GazeFilterSettings {
+  mode: GazeFilterMode
+  emaAlpha: number
+  oneEuroMinCutoff: number
+  oneEuroBeta: number
+  oneEuroDCutoff: number
+}
+
+export interface GazeFilter {
+  filter(x: number, y: number, timestamp: number): { x: number; y: number }
+  reset(): void
+}
+
+export const GAZE_FILTER_LABELS: Record<GazeFilterMode, string> = {
+  none: 'No smoothing',
+  kalman: 'Kalman (WebGazer)',
+  ema: 'Exponential moving average',
+  'one-euro': 'One Euro filter',
+}
+
+export const DEFAULT_GAZE_FILTER_SETTINGS: GazeFilterSettings = {
+  mode: EYE_TRACKING_EXPERIMENT.GAZE_FILTER_MODE,
+  emaAlpha: EYE_TRACKING_EXPERIMENT.GAZE_FILTER_EMA_ALPHA,
+  oneEuroMinCutoff: EYE_TRACKING_EXPERIMENT.GAZE_FILTER_ONE_EURO_MIN_CUTOFF,
+  oneEuroBeta: EYE_TRACKING_EXPERIMENT.GAZE_FILTER_ONE_EURO_BETA,
+  oneEuroDCutoff: EYE_TRACKING_EXPERIMENT.GAZE_FILTER_ONE_EURO_D_CUTOFF,
+}
+
+// Sample interval assumed when two samples share a timestamp (WebGazer runs at about 30 Hz)
+const FALLBACK_INTERVAL_S = 1 / 30
+
+class EmaFilter implements GazeFilter {
+  private last: { x: number; y: number } | null = null
+
+  constructor(private alpha: number) {}
+
+  filter(x: number, y: number): { x: number; y: number } {
+    this.last = this.last
+      ? { x: this.alpha * x + (1 - this.alpha) * this.last.x, y: this.alpha * y + (1 - this.alpha) * this.last.y }
+      : { x, y }
+    return this.last
+  }
+
+  reset(): void {
+    this.last = null
+  }
+}
+
+// Low-pass stage of the One Euro filter for one axis
+class OneEuroAxis {
+  private value: number | null = null
+  private derivative = 0
+
+  constructor(private minCutoff: number, private beta: number, private dCutoff: number) {}
+
+  filter(x: number, dt: number): number {
+    if (this.value === null) {
+      this.value = x
+      return x
+    }
+    const smoothing = (cutoff: number) => 1 / (1 + 1 / (2 * Math.PI * cutoff * dt))
+    const dAlpha = smoothing(this.dCutoff)
+    this.derivative = dAlpha * ((x - this.value) / dt) + (1 - dAlpha) * this.derivative
+    const alpha = smoothing(this.minCutoff + this.beta * Math.abs(this.derivative))
+    this.value = alpha * x + (1 - alpha) * this.value
+    return this.value
+  }
+}
+
+class OneEuroFilter implements GazeFilter {
+  private x: OneEuroAxis
+  private y: OneEuroAxis
+  private lastTimestamp: number | null = null
+
+  constructor(private settings: GazeFilterSettings) {
+    this.x = new OneEuroAxis(settings.oneEuroMinCutoff, settings.oneEuroBeta, settings.oneEuroDCutoff)
+    this.y = new OneEuroAxis(settings.oneEuroMinCutoff, settings.oneEuroBeta, settings.oneEuroDCutoff)
+  }
+
+  filter(x: number, y: number, timestamp: number): { x: number; y: number } {
+    const dt = this.lastTimestamp !== null && timestamp > this.lastTimestamp
+      ? (timestamp - this.lastTimestamp) / 1000
+      : FALLBACK_INTERVAL_S
+    this.lastTimestamp = timestamp
+    return { x: this.x.filter(x, dt), y: this.y.filter(y, dt) }
+  }
+
+  reset(): void {
+    this.x = new OneEuroAxis(this.settings.oneEuroMinCutoff, this.settings.oneEuroBeta, this.settings.oneEuroDCutoff)
+    this.y = new OneEuroAxis(this.settings.oneEuroMinCutoff, this.settings.oneEuroBeta, this.settings.oneEuroDCutoff)
+    this.lastTimestamp = null
+  }
+}
+
+// Constant-velocity Kalman filter for one axis with WebGazer's noise settings
+// (process noise scaled by a 0.1 time step, 47px measurement error, one step per sample)
+class KalmanAxis {
+  private state: [number, number] | null = null // position, velocity
+  private covariance: [[number, number], [number, number]] = [[0.0001, 0], [0, 0.0001]]
+
+  filter(z: number): number {
+    if (!this.state) {
+      this.state = [z, 0]
+      return z
+    }
+    const q = 0.1
+    const r = 47
+    const [[p00, p01], [p10, p11]] = this.covariance
+
+    // Predict: x = F x, P = F P F' + Q with F = [[1, 1], [0, 1]]
+    const position = this.state[0] + this.state[1]
+    const velocity = this.state[1]
+    const a00 = p00 + p01 + p10 + p11 + q / 4
+    const a01 = p01 + p11 + q / 2
+    const a10 = p10 + p11 + q / 2
+    const a11 = p11 + q
+
+    // Update with the measured position
+    const innovation = z - position
+    const s = a00 + r
+    const k0 = a00 / s
+    const k1 = a10 / s
+    this.state = [position + k0 * innovation, velocity + k1 * innovation]
+    this.covariance = [
+      [(1 - k0) * a00, (1 - k0) * a01],
+      [a10 - k1 * a00, a11 - k1 * a01],
+    ]
+    return this.state[0]
+  }
+}
+
+class KalmanFilter implements GazeFilter {
+  private x = new KalmanAxis()
+  private y = new KalmanAxis()
+
+  filter(x: number, y: number): { x: number; y: number } {
+    return { x: this.x.filter(x), y: this.y.filter(y) }
+  }
+
+  reset(): void {
+    this.x = new KalmanAxis()
+    this.y = new KalmanAxis()
+  }
+}
+
+/**
+ * Create a filter for the given settings (null for 'none').
+ */
+export function createGazeFilter(settings: GazeFilterSettings): GazeFilter | null {
+  switch (settings.mode) {
+    case 'ema':
+      return new EmaFilter(Math.max(0, Math.min(1, settings.emaAlpha)))
+    case 'one-euro':
+      return new OneEuroFilter(settings)
+    case 'kalman':
+      return new KalmanFilter()
+    case 'none':
+    default:
+      return null
+  }
+}
+
+/**
+ * Smooth stored gaze points post-hoc. Points are sorted by time and the filter restarts
+ * at every gap; other fields are kept.
+ */
+export function applyGazeFilter<T extends { x: number; y: number; timestamp: number }>(
+  points: T[],
+  settings: GazeFilterSettings,
+  gaps: GazeGap[] = []
+): T[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp)
+  const filter = createGazeFilter(settings)
+  if (!filter) return sorted
+
+  return splitAtGaps(sorted, gaps).flatMap(segment => {
+    filter.reset()
+    return segment.map(point => ({ ...point, ...filter.filter(point.x, point.y, point.timestamp) }))
+  })
+}
+
+// Short human-readable summary, e.g. for the experiment parameters
+export function describeGazeFilter(settings: GazeFilterSettings): string {
+  switch (settings.mode) {
+    case 'ema':
+      return `${GAZE_FILTER_LABELS.ema} • α ${settings.emaAlpha}`
+    case 'one-euro':
+      return `${GAZE_FILTER_LABELS['one-euro']} • min cutoff ${settings.oneEuroMinCutoff}Hz • β ${settings.oneEuroBeta}`
+    default:
+      return GAZE_FILTER_LABELS[settings.mode]
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Gaze Gaps
+ *
+ * WebGazer only emits a prediction when it finds a face, and keeps predicting (nonsense)
+ * while the eyes are closed. Without explicit gaps, fixation and saccade detection treat
+ * the samples on either side of a blink or a lost face as consecutive and bridge them.
+ *
+ * Gaps come from two sources while a session is recorded:
+ * - eye closure: the face mesh eye openness drops below a threshold (see headPose.ts);
+ *   samples are dropped until the eyes reopen. Short closures are blinks, long ones
+ *   count as track loss.
+ * - missing predictions: no sample for longer than GAP_MIN_MS, i.e. the face was lost.
+ *
+ * Gap times use the same clock as gaze point timestamps (Date.now()).
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+
+export type GazeGapType = 'blink' | 'track-loss'
+
+export interface GazeGap {
+  startTime: number
+  endTime: number
+  duration: number
+  type: GazeGapType
+}
+
+export interface GapSummary {
+  blinkCount: number
+  // Blinks per minute of session time (null without a session duration)
+  blinkRate: number | null
+  trackLossCount: number
+  trackLossMs: number
+  // Share of the session (0-1) covered by gaps of any type
+  gapFraction: number
+}
+
+/**
+ * Build a gap between the last sample before it and the first sample after it.
+ * `eyesClosed` gaps up to GAP_BLINK_MAX_MS are blinks; everything else is track loss.
+ */
+export function createGap(startTime: number, endTime: number, eyesClosed: boolean): GazeGap {
+  const duration = Math.max(0, endTime - startTime)
+  return {
+    startTime,
+    endTime,
+    duration,
+    type: eyesClosed && duration <= EYE_TRACKING_EXPERIMENT.GAP_BLINK_MAX_MS ? 'blink' : 'track-loss',
+  }
+}
+
+/**
+ * Split chronologically sorted samples into runs that no gap interrupts. Consecutive samples
+ * further apart than GAP_MIN_MS are split too, so sessions recorded before gaps were stored
+ * are handled the same way.
+ */
+export function splitAtGaps<T extends { timestamp: number }>(points: T[], gaps: GazeGap[] = []): T[][] {
+  const segments: T[][] = []
+  let current: T[] = []
+
+  for (const point of points) {
+    const previous = current[current.length - 1]
+    if (previous) {
+      const interrupted = point.timestamp - previous.timestamp > EYE_TRACKING_EXPERIMENT.GAP_MIN_MS ||
+        gaps.some(gap => gap.startTime < point.timestamp && gap.endTime > previous.timestamp)
+      if (interrupted) {
+        segments.push(current)
+        current = []
+      }
+    }
+    current.push(point)
+  }
+  if (current.length > 0) segments.push(current)
+
+  return segments
+}
+
+/**
+ * True when a gap lies (even partly) between two times.
+ */
+export function hasGapBetween(gaps: GazeGap[], startTime: number, endTime: number): boolean {
+  return gaps.some(gap => gap.startTime < endTime && gap.endTime > startTime)
+}
+
+/**
+ * Blink rate and track loss for the statistics view.
+ */
+export function summarizeGaps(gaps: GazeGap[], sessionDurationSeconds?: number): GapSummary {
+  const blinks = gaps.filter(gap => gap.type === 'blink')
+  const trackLoss = gaps.filter(gap => gap.type === 'track-loss')
+  const totalGapMs = gaps.reduce((sum, gap) => sum + gap.duration, 0)
+  const sessionMs = (sessionDurationSeconds ?? 0) * 1000
+
+  return {
+    blinkCount: blinks.length,
+    blinkRate: sessionDurationSeconds && sessionDurationSeconds > 0 ? blinks.length / (sessionDurationSeconds / 60) : null,
+    trackLossCount: trackLoss.length,
+    trackLossMs: trackLoss.reduce((sum, gap) => sum + gap.duration, 0),
+    gapFraction: sessionMs > 0 ? Math.min(1, totalGapMs / sessionMs) : 0,
+  }
+}
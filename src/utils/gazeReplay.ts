@@ -0,0 +1,162 @@
+/**
+ * Gaze Replay
+ *
+ * Frame rendering for animated playback of a recorded session. A frame shows, at a given
+ * time offset into the session:
+ * - a fading trail of the most recent gaze samples
+ * - fixations that have started so far, with the current fixation growing as it lasts
+ * - the gaze cursor, interpolated between samples
+ *
+ * Used by the Replay tab and by the video/GIF export, so both look identical.
+ * Coordinates are natural image pixels; the frame is scaled to the target canvas.
+ */
+
+export interface ReplayGazePoint {
+  x: number
+  y: number
+  timestamp: number
+}
+
+export interface ReplayFixation {
+  x: number
+  y: number
+  duration: number
+  startTime: number
+}
+
+export interface ReplayTimeline {
+  gazePoints: ReplayGazePoint[]
+  fixations: ReplayFixation[]
+  // Timestamp of the first sample (time offsets are relative to this)
+  startTime: number
+  // Session length in ms
+  duration: number
+}
+
+export interface ReplayFrameOptions {
+  // Offset into the session in ms
+  time: number
+  // Length of the gaze trail in ms
+  trailMs: number
+  imageWidth: number
+  imageHeight: number
+}
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+export const REPLAY_TRAIL_OPTIONS_MS = [250, 500, 1000, 2000, 5000]
+
+/**
+ * Sort the recorded data and compute the session time range.
+ */
+export function buildReplayTimeline(gazePoints: ReplayGazePoint[], fixations: ReplayFixation[]): ReplayTimeline {
+  const sortedPoints = [...gazePoints].sort((a, b) => a.timestamp - b.timestamp)
+  const sortedFixations = [...fixations].sort((a, b) => a.startTime - b.startTime)
+  const startTime = sortedPoints.length > 0 ? sortedPoints[0].timestamp : (sortedFixations[0]?.startTime ?? 0)
+  const lastPoint = sortedPoints.length > 0 ? sortedPoints[sortedPoints.length - 1].timestamp : startTime
+  const lastFixation = sortedFixations.reduce((end, f) => Math.max(end, f.startTime + f.duration), startTime)
+
+  return {
+    gazePoints: sortedPoints,
+    fixations: sortedFixations,
+    startTime,
+    duration: Math.max(lastPoint, lastFixation) - startTime,
+  }
+}
+
+/**
+ * Gaze position at a time offset, linearly interpolated between samples.
+ */
+export function gazePositionAt(timeline: ReplayTimeline, time: number): { x: number; y: number } | null {
+  const points = timeline.gazePoints
+  if (points.length === 0) return null
+  const t = timeline.startTime + time
+  if (t <= points[0].timestamp) return { x: points[0].x, y: points[0].y }
+
+  // Binary search for the last sample at or before t
+  let lo = 0
+  let hi = points.length - 1
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (points[mid].timestamp <= t) lo = mid
+    else hi = mid - 1
+  }
+
+  const a = points[lo]
+  const b = points[lo + 1]
+  if (!b) return { x: a.x, y: a.y }
+  const span = b.timestamp - a.timestamp
+  const f = span > 0 ? (t - a.timestamp) / span : 0
+  return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f }
+}
+
+/**
+ * Draw a single replay frame onto a canvas context sized to the displayed image.
+ */
+export function drawReplayFrame(ctx: CanvasRenderingContext2D, timeline: ReplayTimeline, options: ReplayFrameOptions): void {
+  const { width, height } = ctx.canvas
+  const scaleX = width / options.imageWidth
+  const scaleY = height / options.imageHeight
+  const now = timeline.startTime + options.time
+  const trailStart = now - options.trailMs
+
+  ctx.clearRect(0, 0, width, height)
+
+  // Gaze trail - older segments fade out
+  const trail = timeline.gazePoints.filter(p => p.timestamp >= trailStart && p.timestamp <= now)
+  ctx.lineWidth = 2
+  ctx.lineCap = 'round'
+  for (let i = 1; i < trail.length; i++) {
+    const age = (now - trail[i].timestamp) / options.trailMs
+    ctx.beginPath()
+    ctx.moveTo(trail[i - 1].x * scaleX, trail[i - 1].y * scaleY)
+    ctx.lineTo(trail[i].x * scaleX, trail[i].y * scaleY)
+    ctx.strokeStyle = `rgba(0, 200, 0, ${Math.max(0.05, 0.9 * (1 - age))})`
+    ctx.stroke()
+  }
+
+  // Fixations started so far; the active one grows with its elapsed duration
+  timeline.fixations.forEach((fixation, index) => {
+    if (fixation.startTime > now) return
+    const elapsed = Math.min(fixation.duration, now - fixation.startTime)
+    const isActive = now < fixation.startTime + fixation.duration
+    const radius = Math.max(6, Math.min(40, elapsed / 50))
+    const x = fixation.x * scaleX
+    const y = fixation.y * scaleY
+
+    ctx.beginPath()
+    ctx.arc(x, y, radius, 0, 2 * Math.PI)
+    ctx.fillStyle = isActive ? 'rgba(255, 165, 0, 0.75)' : 'rgba(255, 165, 0, 0.35)'
+    ctx.fill()
+    ctx.strokeStyle = 'orange'
+    ctx.lineWidth = isActive ? 3 : 1
+    ctx.stroke()
+
+    ctx.fillStyle = 'white'
+    ctx.font = 'bold 12px Arial'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText((index + 1).toString(), x, y)
+  })
+
+  // Gaze cursor
+  const cursor = gazePositionAt(timeline, options.time)
+  if (cursor) {
+    const x = cursor.x * scaleX
+    const y = cursor.y * scaleY
+    ctx.beginPath()
+    ctx.arc(x, y, 10, 0, 2 * Math.PI)
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.5)'
+    ctx.fill()
+    ctx.strokeStyle = 'white'
+    ctx.lineWidth = 2
+    ctx.stroke()
+  }
+}
+
+// Format a time offset as m:ss.s for the timeline
+export function formatReplayTime(ms: number): string {
+  const totalSeconds = Math.max(0, ms) / 1000
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds - minutes * 60
+  return `${minutes}:${seconds.toFixed(1).padStart(4, '0')}`
+}
@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { webgazerManager, ImageBounds } from './webgazerManager'
+import { parseGazeRecording } from './gazeSessionRecording'
+import { buildSessionResults, reprocessRawGazePoints } from './sessionResults'
+import { DEFAULT_GAZE_FILTER_SETTINGS } from './gazeFilters'
+import { Infer } from 'convex/values'
+import { eyeTrackingDataValidator } from '../../convex/validators'
+import fixture from './__fixtures__/replay-session.json'
+
+// The fixture holds three fixations on the displayed picture (viewport pixels), a blink during
+// the second one (eyes closed from 1100 to 1240 ms) and lost tracking during the third one
+// (no predictions from 2000 to 2300 ms). The picture is shown at half its natural size.
+const recording = parseGazeRecording(JSON.stringify(fixture))
+const imageBounds: ImageBounds = { ...recording.imageBounds!, naturalWidth: 1600, naturalHeight: 1200 }
+const START = 1_000_000
+
+// Fixation targets in natural image pixels
+const TARGETS = [
+  { x: 400, y: 300 },
+  { x: 1200, y: 300 },
+  { x: 800, y: 900 },
+]
+
+function replaySession() {
+  webgazerManager.setReplaySource(recording, { speed: 0, imageBounds: recording.imageBounds })
+  return webgazerManager.initialize()
+    .then(() => webgazerManager.startTracking())
+    .then(() => webgazerManager.stopTracking())
+}
+
+describe('replaying a recorded session through webgazerManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(START)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    await webgazerManager.setFilterSettings(DEFAULT_GAZE_FILTER_SETTINGS)
+    webgazerManager.clearReplaySource()
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('collects every sample with open eyes at the replayed timestamps', async () => {
+    const collected = await replaySession()
+    const openSamples = recording.samples.filter(s => (s.eyeOpenness ?? 1) >= 0.2)
+
+    expect(collected).toHaveLength(openSamples.length)
+    collected.forEach((point, index) => {
+      expect(point.timestamp).toBe(START + openSamples[index].t)
+      expect(point.x).toBe(openSamples[index].x)
+      expect(point.y).toBe(openSamples[index].y)
+      expect(point.quality).toBe('good')
+    })
+  })
+
+  it('logs the blink and the track loss as gaps', async () => {
+    await replaySession()
+    const gaps = webgazerManager.getGaps()
+
+    expect(gaps).toEqual([
+      { startTime: START + 1089, endTime: START + 1254, duration: 165, type: 'blink' },
+      { startTime: START + 1980, endTime: START + 2310, duration: 330, type: 'track-loss' },
+    ])
+  })
+
+  it('is deterministic', async () => {
+    const first = await replaySession()
+    const firstGaps = webgazerManager.getGaps()
+    const second = await replaySession()
+
+    expect(second).toEqual(first)
+    expect(webgazerManager.getGaps()).toEqual(firstGaps)
+  })
+
+  it('maps gaze to the picture and finds fixations that do not bridge gaps', async () => {
+    const collected = await replaySession()
+    const gaps = webgazerManager.getGaps()
+    const { data, validation } = buildSessionResults(collected, imageBounds, { gaps })
+
+    expect(validation.validPoints).toHaveLength(collected.length)
+    expect(data.fixationPoints.length).toBeGreaterThanOrEqual(TARGETS.length)
+
+    // Every fixation lies on one of the targets and none spans a gap
+    for (const fixation of data.fixationPoints) {
+      const distance = Math.min(...TARGETS.map(target => Math.hypot(fixation.x - target.x, fixation.y - target.y)))
+      expect(distance).toBeLessThan(10)
+      for (const gap of gaps) {
+        const overlaps = fixation.startTime < gap.endTime && fixation.startTime + fixation.duration > gap.startTime
+        expect(overlaps).toBe(false)
+      }
+    }
+
+    // All three targets are fixated, in order
+    const visited = data.fixationPoints
+      .map(fixation => TARGETS.findIndex(target => Math.hypot(fixation.x - target.x, fixation.y - target.y) < 10))
+      .filter((target, index, all) => index === 0 || all[index - 1] !== target)
+    expect(visited).toEqual([0, 1, 2])
+
+    // Saccades connect the targets; the heatmap covers the natural picture
+    expect(data.saccades!.length).toBeGreaterThanOrEqual(2)
+    expect(data.heatmapData).toMatchObject({ imageWidth: 1600, imageHeight: 1200 })
+  })
+
+  it('keeps the unsmoothed stream next to the smoothed one', async () => {
+    await webgazerManager.setFilterSettings({ mode: 'ema', emaAlpha: 0.3 })
+    const collected = await replaySession()
+    const raw = webgazerManager.getRawExperimentData()
+
+    expect(raw).toHaveLength(collected.length)
+    raw.forEach((point, index) => expect(point.timestamp).toBe(collected[index].timestamp))
+    expect(raw.map(p => [p.x, p.y])).not.toEqual(collected.map(p => [p.x, p.y]))
+
+    const openSamples = recording.samples.filter(s => (s.eyeOpenness ?? 1) >= 0.2)
+    expect(raw.map(p => [p.x, p.y])).toEqual(openSamples.map(s => [s.x, s.y]))
+    expect(webgazerManager.getMappingContext(imageBounds).gazeFilter).toMatchObject({ mode: 'ema', emaAlpha: 0.3 })
+  })
+
+  it('rebuilds the saved gaze points from the unsmoothed stream', async () => {
+    await webgazerManager.setFilterSettings({ mode: 'one-euro' })
+    const collected = await replaySession()
+    const gaps = webgazerManager.getGaps()
+    const mappingContext = webgazerManager.getMappingContext(imageBounds)
+    const { data } = buildSessionResults(collected, imageBounds, { gaps, mappingContext })
+    const raw = webgazerManager.getRawExperimentData()
+
+    const rebuilt = reprocessRawGazePoints(raw, mappingContext, mappingContext.gazeFilter!, { gaps })
+    expect(rebuilt).toHaveLength(data.gazePoints.length)
+    rebuilt.forEach((point, index) => {
+      expect(point.x).toBeCloseTo(data.gazePoints[index].x, 6)
+      expect(point.y).toBeCloseTo(data.gazePoints[index].y, 6)
+    })
+
+    // Without smoothing the points follow the recording exactly
+    const unsmoothed = reprocessRawGazePoints(raw, mappingContext, { ...mappingContext.gazeFilter!, mode: 'none' }, { gaps })
+    expect(unsmoothed.map(p => p.x)).not.toEqual(rebuilt.map(p => p.x))
+    expect(unsmoothed[0].x).toBeCloseTo(webgazerManager.mapToImageCoordinates(raw[0], imageBounds).x, 6)
+  })
+
+  it('produces a payload updateEyeTrackingResults accepts', async () => {
+    const collected = await replaySession()
+    const { data } = buildSessionResults(collected, imageBounds, {
+      gaps: webgazerManager.getGaps(),
+      rawGazePoints: webgazerManager.getRawExperimentData(),
+      mappingContext: webgazerManager.getMappingContext(imageBounds)
+    })
+
+    // Fails the type-check when the saved data no longer matches the mutation's validators
+    const eyeTrackingData: Infer<typeof eyeTrackingDataValidator> = data
+
+    expect(eyeTrackingData.gazePoints).toHaveLength(data.gazePoints.length)
+    expect(data.rawGazePoints).toHaveLength(collected.length)
+    expect(data.mappingContext?.imageBounds).toEqual(imageBounds)
+  })
+})
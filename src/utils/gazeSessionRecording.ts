@@ -0,0 +1,229 @@
+/**
+ * Gaze Session Recording
+ *
+ * A recording captures the raw WebGazer prediction stream of a session - predicted
+ * position, confidence, the face mesh measurements derived from the same frame and the
+ * time since the recording started - so the session can be fed through
+ * `webgazerManager` again without a camera. Replays go through the same path as live
+ * predictions (drift correction, blink and track-loss gaps, head pose flags, gaze
+ * listeners), so fixation detection, coordinate mapping and result saving can be
+ * exercised deterministically.
+ *
+ * Positions are viewport (CSS) pixels before drift correction. When the recording and
+ * the replay both know where the picture was displayed, samples are moved with the
+ * picture so they land on the same image content; otherwise they are scaled with the
+ * viewport.
+ */
+
+import { HeadPose } from './headPose'
+
+export const GAZE_RECORDING_VERSION = 1
+
+export interface RecordedGazeSample {
+  // Milliseconds since the recording started
+  t: number
+  x: number
+  y: number
+  confidence: number
+  eyeOpenness: number | null
+  headPose: HeadPose | null
+}
+
+export interface RecordingRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface GazeSessionRecording {
+  version: typeof GAZE_RECORDING_VERSION
+  // 'synthetic' recordings are generated rather than captured from a camera
+  source: 'webcam' | 'synthetic'
+  recordedAt: number
+  viewport: { width: number; height: number }
+  // Where the picture was displayed, if the session showed one
+  imageBounds?: RecordingRegion
+  samples: RecordedGazeSample[]
+}
+
+export interface ReplayOptions {
+  // 1 = real time, 2 = twice as fast; 0 replays every sample synchronously in start()
+  speed?: number
+  // Current viewport and picture position; default to the recorded ones
+  viewport?: { width: number; height: number }
+  imageBounds?: RecordingRegion
+  onFinished?: () => void
+}
+
+export type ReplaySink = (sample: RecordedGazeSample, timestamp: number) => void
+
+/**
+ * Collects samples for a recording.
+ */
+export class GazeSessionRecorder {
+  private samples: RecordedGazeSample[] = []
+  private startedAt: number | null = null
+
+  addSample(sample: Omit<RecordedGazeSample, 't'>, timestamp: number): void {
+    if (this.startedAt === null) this.startedAt = timestamp
+    this.samples.push({ ...sample, t: timestamp - this.startedAt })
+  }
+
+  finish(meta: {
+    source?: GazeSessionRecording['source']
+    viewport: { width: number; height: number }
+    imageBounds?: RecordingRegion
+  }): GazeSessionRecording {
+    return {
+      version: GAZE_RECORDING_VERSION,
+      source: meta.source ?? 'webcam',
+      recordedAt: this.startedAt ?? Date.now(),
+      viewport: meta.viewport,
+      ...(meta.imageBounds ? { imageBounds: meta.imageBounds } : {}),
+      samples: this.samples,
+    }
+  }
+}
+
+/**
+ * Parse a recording from JSON, rejecting files that are not recordings.
+ */
+export function parseGazeRecording(json: string): GazeSessionRecording {
+  let parsed: any
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('Recording is not valid JSON')
+  }
+
+  if (!parsed || parsed.version !== GAZE_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${parsed?.version ?? 'missing'}`)
+  }
+  if (!parsed.viewport || !(parsed.viewport.width > 0) || !(parsed.viewport.height > 0)) {
+    throw new Error('Recording has no viewport size')
+  }
+  if (!Array.isArray(parsed.samples) || parsed.samples.some((s: any) =>
+    typeof s?.t !== 'number' || typeof s.x !== 'number' || typeof s.y !== 'number')) {
+    throw new Error('Recording samples are malformed')
+  }
+
+  return {
+    ...parsed,
+    samples: parsed.samples.map((s: any) => ({
+      t: s.t,
+      x: s.x,
+      y: s.y,
+      confidence: typeof s.confidence === 'number' ? s.confidence : 0.5,
+      eyeOpenness: typeof s.eyeOpenness === 'number' ? s.eyeOpenness : null,
+      headPose: s.headPose ?? null,
+    })),
+  }
+}
+
+/**
+ * Move recorded samples to the current layout: with the picture when both picture positions
+ * are known, otherwise proportionally to the viewport.
+ */
+export function remapRecordedSample(
+  sample: RecordedGazeSample,
+  recording: GazeSessionRecording,
+  target: { viewport?: { width: number; height: number }; imageBounds?: RecordingRegion }
+): RecordedGazeSample {
+  const from = recording.imageBounds && target.imageBounds
+    ? recording.imageBounds
+    : { x: 0, y: 0, ...recording.viewport }
+  const to = recording.imageBounds && target.imageBounds
+    ? target.imageBounds
+    : { x: 0, y: 0, ...(target.viewport ?? recording.viewport) }
+
+  if (from.width <= 0 || from.height <= 0) return sample
+  return {
+    ...sample,
+    x: to.x + (sample.x - from.x) * (to.width / from.width),
+    y: to.y + (sample.y - from.y) * (to.height / from.height),
+  }
+}
+
+/**
+ * Plays a recording into a sink with its original timing. Sample timestamps are the replay
+ * start time plus the recorded offset, so replays at any speed produce the same intervals.
+ */
+export class GazeReplayProvider {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private index = 0
+  private startTimestamp = 0
+  private wallClockStart = 0
+  private playing = false
+
+  constructor(
+    private recording: GazeSessionRecording,
+    private options: ReplayOptions = {}
+  ) {}
+
+  getRecording(): GazeSessionRecording {
+    return this.recording
+  }
+
+  isPlaying(): boolean {
+    return this.playing
+  }
+
+  // Current time on the replay clock (matches the timestamps given to the sink)
+  now(): number {
+    if (!this.playing) {
+      const last = this.recording.samples[this.index - 1]
+      return this.startTimestamp + (last?.t ?? 0)
+    }
+    const speed = this.options.speed ?? 1
+    return this.startTimestamp + (Date.now() - this.wallClockStart) * speed
+  }
+
+  start(sink: ReplaySink, startTimestamp: number = Date.now()): void {
+    this.stop()
+    this.index = 0
+    this.startTimestamp = startTimestamp
+    this.wallClockStart = Date.now()
+    this.playing = true
+
+    const speed = this.options.speed ?? 1
+    if (speed <= 0) {
+      while (this.index < this.recording.samples.length) this.emit(sink)
+      this.finish()
+      return
+    }
+    this.scheduleNext(sink, speed)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.playing = false
+  }
+
+  private emit(sink: ReplaySink): void {
+    const sample = remapRecordedSample(this.recording.samples[this.index], this.recording, this.options)
+    sink(sample, this.startTimestamp + sample.t)
+    this.index++
+  }
+
+  private scheduleNext(sink: ReplaySink, speed: number): void {
+    if (this.index >= this.recording.samples.length) {
+      this.finish()
+      return
+    }
+    const dueIn = this.recording.samples[this.index].t / speed - (Date.now() - this.wallClockStart)
+    this.timer = setTimeout(() => {
+      this.emit(sink)
+      this.scheduleNext(sink, speed)
+    }, Math.max(0, dueIn))
+  }
+
+  private finish(): void {
+    this.timer = null
+    this.playing = false
+    this.options.onFinished?.()
+  }
+}
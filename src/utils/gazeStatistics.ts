@@ -0,0 +1,183 @@
+/**
+ * Gaze Dispersion Statistics
+ *
+ * Standard measures of how focused or spread out viewing was in a single session:
+ * - Stationary gaze entropy: Shannon entropy of the fixation-time distribution over a grid
+ *   of equal cells. Normalized by its maximum (time spread evenly over every cell) to 0-1,
+ *   it is the headline "focused vs. wandering" number
+ * - Gaze transition entropy: conditional entropy of the next cell given the current one
+ *   (Krejtz et al., 2015). Low when the eye moves between cells in a predictable order
+ * - Convex hull area: the smallest convex region containing every fixation
+ * - Nearest neighbour index (Clark & Evans, 1954): mean distance from each fixation to its
+ *   nearest neighbour, divided by the mean expected for fixations scattered at random over
+ *   the picture. Below 1 fixations cluster, above 1 they spread out evenly
+ * - Coverage: share of the picture where the fixation-duration heatmap reaches a threshold
+ *   of its peak
+ *
+ * Fixations are in natural image pixels.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { computeHeatmap, getDefaultHeatmapBandwidth } from './heatmap'
+import { Fixation } from './fixationDetection'
+
+export interface GazeStatistics {
+  // Bits, and normalized to 0-1 by the maximum for the grid (null without fixations)
+  stationaryEntropy: number | null
+  normalizedStationaryEntropy: number | null
+  // Bits, and normalized to 0-1 (null with fewer than 2 fixations)
+  transitionEntropy: number | null
+  normalizedTransitionEntropy: number | null
+  // Square natural image pixels, and as a share of the picture (0-1)
+  convexHullArea: number
+  convexHullShare: number
+  // null with fewer than 2 fixations
+  nearestNeighborIndex: number | null
+  // Share of the picture covered by attention (0-1)
+  coverage: number
+  gridSize: number
+}
+
+export type DispersionLevel = 'focused' | 'moderate' | 'wandering'
+
+export const DISPERSION_LABELS: Record<DispersionLevel, string> = {
+  focused: 'Focused',
+  moderate: 'Moderate',
+  wandering: 'Wandering',
+}
+
+export interface GazeStatisticsOptions {
+  imageWidth: number
+  imageHeight: number
+  gridSize?: number
+  coverageThreshold?: number
+}
+
+type Point = { x: number; y: number }
+
+// Grid cell index of a point, clamped so points on the far edges stay inside
+function cellIndex(point: Point, imageWidth: number, imageHeight: number, gridSize: number): number {
+  const column = Math.min(gridSize - 1, Math.max(0, Math.floor((point.x / imageWidth) * gridSize)))
+  const row = Math.min(gridSize - 1, Math.max(0, Math.floor((point.y / imageHeight) * gridSize)))
+  return row * gridSize + column
+}
+
+function entropy(probabilities: number[]): number {
+  return probabilities.reduce((sum, p) => p > 0 ? sum - p * Math.log2(p) : sum, 0)
+}
+
+/**
+ * Area of the convex hull (Andrew's monotone chain, then the shoelace formula).
+ */
+export function convexHullArea(points: Point[]): number {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return 0
+
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const lower: Point[] = []
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop()
+    lower.push(point)
+  }
+  const upper: Point[] = []
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop()
+    upper.push(point)
+  }
+  const hull = lower.slice(0, -1).concat(upper.slice(0, -1))
+
+  let twiceArea = 0
+  hull.forEach((point, index) => {
+    const next = hull[(index + 1) % hull.length]
+    twiceArea += point.x * next.y - next.x * point.y
+  })
+  return Math.abs(twiceArea) / 2
+}
+
+/**
+ * Clark-Evans nearest neighbour index over the picture area (null with fewer than 2 points).
+ */
+export function nearestNeighborIndex(points: Point[], area: number): number | null {
+  if (points.length < 2 || area <= 0) return null
+  let total = 0
+  points.forEach((point, i) => {
+    let nearest = Infinity
+    points.forEach((other, j) => {
+      if (i !== j) nearest = Math.min(nearest, Math.hypot(point.x - other.x, point.y - other.y))
+    })
+    total += nearest
+  })
+  const expected = 0.5 * Math.sqrt(area / points.length)
+  return (total / points.length) / expected
+}
+
+/**
+ * Dispersion statistics for one session's fixations.
+ */
+export function computeGazeStatistics(fixations: Fixation[], options: GazeStatisticsOptions): GazeStatistics {
+  const { imageWidth, imageHeight } = options
+  const gridSize = Math.max(1, Math.round(options.gridSize ?? EYE_TRACKING_EXPERIMENT.GAZE_ENTROPY_GRID_SIZE))
+  const cellCount = gridSize * gridSize
+  const maxEntropy = Math.log2(cellCount)
+  const sorted = [...fixations].sort((a, b) => a.startTime - b.startTime)
+  const cells = sorted.map(f => cellIndex(f, imageWidth, imageHeight, gridSize))
+
+  // Stationary entropy over fixation time per cell
+  const dwell = new Array(cellCount).fill(0)
+  sorted.forEach((fixation, index) => {
+    dwell[cells[index]] += fixation.duration
+  })
+  const totalDwell = dwell.reduce((sum, value) => sum + value, 0)
+  const stationaryEntropy = totalDwell > 0 ? entropy(dwell.map(value => value / totalDwell)) : null
+
+  // Transition entropy: sum over source cells of p(source) × H(next cell | source)
+  const transitions = new Map<number, Map<number, number>>()
+  for (let i = 0; i < cells.length - 1; i++) {
+    const row = transitions.get(cells[i]) ?? new Map<number, number>()
+    row.set(cells[i + 1], (row.get(cells[i + 1]) ?? 0) + 1)
+    transitions.set(cells[i], row)
+  }
+  const transitionCount = Math.max(0, cells.length - 1)
+  let transitionEntropy: number | null = null
+  if (transitionCount > 0) {
+    transitionEntropy = 0
+    for (const row of transitions.values()) {
+      const outgoing = Array.from(row.values()).reduce((sum, count) => sum + count, 0)
+      transitionEntropy += (outgoing / transitionCount) * entropy(Array.from(row.values()).map(count => count / outgoing))
+    }
+  }
+
+  const imageArea = imageWidth * imageHeight
+  const hullArea = convexHullArea(sorted)
+
+  const heatmap = computeHeatmap([], sorted, {
+    imageWidth,
+    imageHeight,
+    bandwidth: getDefaultHeatmapBandwidth(imageWidth),
+    weighting: 'fixationDuration',
+  })
+  const threshold = options.coverageThreshold ?? EYE_TRACKING_EXPERIMENT.GAZE_COVERAGE_THRESHOLD
+  const heatmapCells = heatmap.values.flat()
+  const covered = heatmapCells.filter(value => value > 0 && value >= threshold).length
+
+  return {
+    stationaryEntropy,
+    normalizedStationaryEntropy: stationaryEntropy !== null && maxEntropy > 0 ? stationaryEntropy / maxEntropy : null,
+    transitionEntropy,
+    normalizedTransitionEntropy: transitionEntropy !== null && maxEntropy > 0 ? transitionEntropy / maxEntropy : null,
+    convexHullArea: hullArea,
+    convexHullShare: imageArea > 0 ? hullArea / imageArea : 0,
+    nearestNeighborIndex: nearestNeighborIndex(sorted, imageArea),
+    coverage: heatmapCells.length > 0 ? covered / heatmapCells.length : 0,
+    gridSize,
+  }
+}
+
+/**
+ * Classify viewing by normalized stationary entropy.
+ */
+export function describeDispersion(normalizedEntropy: number): DispersionLevel {
+  if (normalizedEntropy < 0.5) return 'focused'
+  if (normalizedEntropy < 0.75) return 'moderate'
+  return 'wandering'
+}
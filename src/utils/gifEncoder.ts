@@ -0,0 +1,204 @@
+/**
+ * GIF Encoder
+ *
+ * Minimal animated GIF89a encoder for exporting replays without an extra dependency.
+ * Frames are quantized to a fixed 252-color palette (6 red × 7 green × 6 blue levels),
+ * which is fast and good enough for overlays on photographs, then LZW-compressed.
+ */
+
+const RED_LEVELS = 6
+const GREEN_LEVELS = 7
+const BLUE_LEVELS = 6
+const MIN_CODE_SIZE = 8
+
+// Build the fixed palette as a 256-entry RGB table (unused entries are black)
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3)
+  let index = 0
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[index * 3] = Math.round((r * 255) / (RED_LEVELS - 1))
+        palette[index * 3 + 1] = Math.round((g * 255) / (GREEN_LEVELS - 1))
+        palette[index * 3 + 2] = Math.round((b * 255) / (BLUE_LEVELS - 1))
+        index++
+      }
+    }
+  }
+  return palette
+}
+
+// Map RGBA pixels to palette indices
+function quantize(rgba: Uint8ClampedArray): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4)
+  for (let i = 0; i < indices.length; i++) {
+    const r = Math.round((rgba[i * 4] * (RED_LEVELS - 1)) / 255)
+    const g = Math.round((rgba[i * 4 + 1] * (GREEN_LEVELS - 1)) / 255)
+    const b = Math.round((rgba[i * 4 + 2] * (BLUE_LEVELS - 1)) / 255)
+    indices[i] = r * GREEN_LEVELS * BLUE_LEVELS + g * BLUE_LEVELS + b
+  }
+  return indices
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = []
+  private buffer = new Uint8Array(64 * 1024)
+  private length = 0
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush()
+    this.buffer[this.length++] = value & 0xff
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i])
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i))
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length))
+    this.length = 0
+  }
+
+  toBlob(): Blob {
+    this.flush()
+    return new Blob(this.chunks as BlobPart[], { type: 'image/gif' })
+  }
+}
+
+// LZW-compress palette indices and write them as GIF data sub-blocks
+function writeImageData(writer: ByteWriter, indices: Uint8Array) {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const eoiCode = clearCode + 1
+  // Dictionary keyed by (prefix code << 8 | next index)
+  const table = new Int16Array(4096 * 256).fill(-1)
+
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = eoiCode + 1
+  let bitBuffer = 0
+  let bitCount = 0
+  const block: number[] = []
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+      if (block.length === 255) {
+        writer.byte(255)
+        writer.bytes(block)
+        block.length = 0
+      }
+    }
+  }
+
+  writer.byte(MIN_CODE_SIZE)
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]
+    const key = (prefix << 8) | k
+    const existing = table[key]
+    if (existing !== -1) {
+      prefix = existing
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === 4096) {
+      // Dictionary full - start over
+      emit(clearCode)
+      table.fill(-1)
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = eoiCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table[key] = nextCode++
+    }
+    prefix = k
+  }
+
+  emit(prefix)
+  emit(eoiCode)
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff)
+  }
+  if (block.length > 0) {
+    writer.byte(block.length)
+    writer.bytes(block)
+  }
+  // Block terminator
+  writer.byte(0)
+}
+
+export class GifEncoder {
+  private writer = new ByteWriter()
+  private palette = buildPalette()
+
+  constructor(private width: number, private height: number) {
+    const writer = this.writer
+    writer.string('GIF89a')
+    // Logical screen descriptor with a 256-entry global color table
+    writer.word(width)
+    writer.word(height)
+    writer.byte(0xf7)
+    writer.byte(0) // background color index
+    writer.byte(0) // pixel aspect ratio
+    writer.bytes(this.palette)
+
+    // Netscape extension - loop forever
+    writer.byte(0x21)
+    writer.byte(0xff)
+    writer.byte(11)
+    writer.string('NETSCAPE2.0')
+    writer.byte(3)
+    writer.byte(1)
+    writer.word(0)
+    writer.byte(0)
+  }
+
+  /**
+   * Add a frame. `delayMs` is rounded to GIF's 10ms resolution.
+   */
+  addFrame(imageData: ImageData, delayMs: number) {
+    if (imageData.width !== this.width || imageData.height !== this.height) {
+      throw new Error('GIF frame size does not match the encoder size')
+    }
+    const writer = this.writer
+
+    // Graphic control extension
+    writer.byte(0x21)
+    writer.byte(0xf9)
+    writer.byte(4)
+    writer.byte(0) // no transparency, no disposal
+    writer.word(Math.max(2, Math.round(delayMs / 10)))
+    writer.byte(0)
+    writer.byte(0)
+
+    // Image descriptor (full frame, uses the global color table)
+    writer.byte(0x2c)
+    writer.word(0)
+    writer.word(0)
+    writer.word(this.width)
+    writer.word(this.height)
+    writer.byte(0)
+
+    writeImageData(writer, quantize(imageData.data))
+  }
+
+  finish(): Blob {
+    this.writer.byte(0x3b)
+    return this.writer.toBlob()
+  }
+}
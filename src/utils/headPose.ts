@@ -0,0 +1,165 @@
+/**
+ * Head Pose Monitoring
+ *
+ * WebGazer's regression model maps eye patches to screen positions for the head pose held
+ * during calibration. Turning the head, leaning in or sliding out of the camera frame
+ * breaks that mapping without any drop in reported confidence. This module estimates the
+ * head pose from the face mesh landmarks WebGazer's TFFacemesh tracker already computes
+ * and flags samples recorded outside the calibrated range.
+ *
+ * Angles are in degrees. Face scale is the distance between the outer eye corners as a
+ * fraction of the video width, so it grows as the participant moves closer.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+
+export interface HeadPose {
+  yaw: number
+  pitch: number
+  roll: number
+  faceScale: number
+  // Face center, normalized to the video frame (0-1)
+  centerX: number
+  centerY: number
+  // False when part of the face is outside (or at the edge of) the video frame
+  faceInFrame: boolean
+}
+
+// Mean pose held during calibration
+export interface HeadPoseBaseline {
+  yaw: number
+  pitch: number
+  faceScale: number
+  sampleCount: number
+}
+
+export type TrackingQuality = 'good' | 'no-face' | 'face-edge' | 'head-turned' | 'too-close' | 'too-far'
+
+export const TRACKING_QUALITY_MESSAGES: Record<Exclude<TrackingQuality, 'good'>, string> = {
+  'no-face': 'Face not detected - look at the screen and check your lighting',
+  'face-edge': 'Move back to the center of the camera view',
+  'head-turned': 'Keep your head facing the screen as during calibration',
+  'too-close': 'You moved closer to the screen - lean back a little',
+  'too-far': 'You moved away from the screen - come a little closer',
+}
+
+// MediaPipe face mesh landmark indices
+const LANDMARK = {
+  rightEyeOuter: 33,
+  rightEyeInner: 133,
+  rightEyeUpper: 159,
+  rightEyeLower: 145,
+  leftEyeOuter: 263,
+  leftEyeInner: 362,
+  leftEyeUpper: 386,
+  leftEyeLower: 374,
+  forehead: 10,
+  chin: 152,
+} as const
+
+const FACE_MESH_LANDMARK_COUNT = 468
+
+// Faces closer than this to the frame edge (fraction of the frame) count as leaving it
+const FRAME_EDGE_MARGIN = 0.02
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI
+
+/**
+ * Estimate head pose from face mesh landmarks ([x, y, z] in video pixels).
+ */
+export function estimateHeadPose(
+  landmarks: number[][] | null | undefined,
+  frame: { width: number; height: number }
+): HeadPose | null {
+  if (!landmarks || landmarks.length < FACE_MESH_LANDMARK_COUNT || frame.width <= 0 || frame.height <= 0) {
+    return null
+  }
+
+  const [rx, ry, rz] = landmarks[LANDMARK.rightEyeOuter]
+  const [lx, ly, lz] = landmarks[LANDMARK.leftEyeOuter]
+  const [, fy, fz] = landmarks[LANDMARK.forehead]
+  const [, cy, cz] = landmarks[LANDMARK.chin]
+
+  const eyeDistance = Math.hypot(lx - rx, ly - ry)
+  if (eyeDistance === 0) return null
+
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const [x, y] of landmarks) {
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minY = Math.min(minY, y)
+    maxY = Math.max(maxY, y)
+  }
+
+  const margin = FRAME_EDGE_MARGIN
+  return {
+    // Depth difference across the eye line turns with the head; forehead to chin tilts with it
+    yaw: toDegrees(Math.atan2(lz - rz, lx - rx)),
+    pitch: toDegrees(Math.atan2(cz - fz, cy - fy)),
+    roll: toDegrees(Math.atan2(ly - ry, lx - rx)),
+    faceScale: eyeDistance / frame.width,
+    centerX: (minX + maxX) / 2 / frame.width,
+    centerY: (minY + maxY) / 2 / frame.height,
+    faceInFrame: minX >= frame.width * margin && maxX <= frame.width * (1 - margin) &&
+                 minY >= frame.height * margin && maxY <= frame.height * (1 - margin),
+  }
+}
+
+/**
+ * Eye openness from the face mesh: lid distance over eye width, averaged over both eyes
+ * (about 0.25-0.35 when open, near 0 when closed). Null without a face.
+ */
+export function estimateEyeOpenness(landmarks: number[][] | null | undefined): number | null {
+  if (!landmarks || landmarks.length < FACE_MESH_LANDMARK_COUNT) return null
+
+  const distance = (a: number, b: number) =>
+    Math.hypot(landmarks[a][0] - landmarks[b][0], landmarks[a][1] - landmarks[b][1])
+  const openness = (outer: number, inner: number, upper: number, lower: number) => {
+    const width = distance(outer, inner)
+    return width > 0 ? distance(upper, lower) / width : null
+  }
+
+  const right = openness(LANDMARK.rightEyeOuter, LANDMARK.rightEyeInner, LANDMARK.rightEyeUpper, LANDMARK.rightEyeLower)
+  const left = openness(LANDMARK.leftEyeOuter, LANDMARK.leftEyeInner, LANDMARK.leftEyeUpper, LANDMARK.leftEyeLower)
+  if (right === null || left === null) return null
+  return (right + left) / 2
+}
+
+/**
+ * Mean pose over the samples recorded during calibration.
+ */
+export function computeHeadPoseBaseline(poses: HeadPose[]): HeadPoseBaseline | null {
+  if (poses.length === 0) return null
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  return {
+    yaw: mean(poses.map(p => p.yaw)),
+    pitch: mean(poses.map(p => p.pitch)),
+    faceScale: mean(poses.map(p => p.faceScale)),
+    sampleCount: poses.length,
+  }
+}
+
+/**
+ * Quality flag for one frame. Without a baseline (e.g. a calibration restored from before
+ * poses were recorded), angles are compared to facing the camera and distance is not checked.
+ */
+export function assessHeadPose(pose: HeadPose | null, baseline: HeadPoseBaseline | null): TrackingQuality {
+  if (!pose) return 'no-face'
+  if (!pose.faceInFrame) return 'face-edge'
+
+  if (Math.abs(pose.yaw - (baseline?.yaw ?? 0)) > EYE_TRACKING_EXPERIMENT.HEAD_POSE_MAX_YAW_DEG ||
+      Math.abs(pose.pitch - (baseline?.pitch ?? 0)) > EYE_TRACKING_EXPERIMENT.HEAD_POSE_MAX_PITCH_DEG) {
+    return 'head-turned'
+  }
+
+  if (baseline && baseline.faceScale > 0) {
+    const scaleRatio = pose.faceScale / baseline.faceScale
+    if (scaleRatio > 1 + EYE_TRACKING_EXPERIMENT.HEAD_DISTANCE_TOLERANCE) return 'too-close'
+    if (scaleRatio < 1 - EYE_TRACKING_EXPERIMENT.HEAD_DISTANCE_TOLERANCE) return 'too-far'
+  }
+
+  return 'good'
+}
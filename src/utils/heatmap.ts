@@ -0,0 +1,243 @@
+/**
+ * Heatmap Generation
+ *
+ * Gaussian kernel density estimation (KDE) of gaze on a coarse grid in natural image
+ * coordinates. Samples are either raw gaze points (each weighted equally) or fixations
+ * weighted by their duration. The grid is normalized to [0, 1] so it can be persisted in
+ * `eyeTrackingData.heatmapData` and rendered with any colormap later.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+
+export type HeatmapWeighting = 'gaze' | 'fixationDuration'
+export type HeatmapColormap = 'jet' | 'viridis' | 'grayscale'
+export type HeatmapMode = 'color' | 'fog'
+
+export interface HeatmapGrid {
+  // Grid dimensions in cells
+  columns: number
+  rows: number
+  // Natural image dimensions the grid covers
+  imageWidth: number
+  imageHeight: number
+  // Gaussian standard deviation in natural image pixels
+  bandwidth: number
+  weighting: HeatmapWeighting
+  // Row-major density values normalized to [0, 1]
+  values: number[][]
+}
+
+export interface HeatmapOptions {
+  imageWidth: number
+  imageHeight: number
+  // Gaussian standard deviation in natural image pixels
+  bandwidth: number
+  weighting?: HeatmapWeighting
+  // Number of grid columns (rows follow the image aspect ratio)
+  columns?: number
+}
+
+interface WeightedSample {
+  x: number
+  y: number
+  weight: number
+}
+
+export const HEATMAP_COLORMAP_LABELS: Record<HeatmapColormap, string> = {
+  jet: 'Jet',
+  viridis: 'Viridis',
+  grayscale: 'Grayscale',
+}
+
+/**
+ * Default bandwidth in natural image pixels, as a percentage of the image width.
+ */
+export function getDefaultHeatmapBandwidth(imageWidth: number): number {
+  return (imageWidth * EYE_TRACKING_EXPERIMENT.HEATMAP_BANDWIDTH_PERCENT) / 100
+}
+
+/**
+ * Compute a normalized Gaussian KDE grid.
+ *
+ * Each sample spreads its weight over cells within 3 standard deviations, which keeps
+ * the cost proportional to samples × kernel area rather than samples × grid size.
+ */
+export function computeHeatmap(
+  gazePoints: { x: number; y: number }[],
+  fixations: { x: number; y: number; duration: number }[],
+  options: HeatmapOptions
+): HeatmapGrid {
+  const weighting = options.weighting || 'gaze'
+  const columns = Math.max(1, Math.round(options.columns || EYE_TRACKING_EXPERIMENT.HEATMAP_GRID_COLUMNS))
+  const rows = Math.max(1, Math.round(columns * (options.imageHeight / options.imageWidth)))
+  const cellWidth = options.imageWidth / columns
+  const cellHeight = options.imageHeight / rows
+  const bandwidth = Math.max(1, options.bandwidth)
+
+  const samples: WeightedSample[] = weighting === 'fixationDuration'
+    ? fixations.map(f => ({ x: f.x, y: f.y, weight: f.duration }))
+    : gazePoints.map(p => ({ x: p.x, y: p.y, weight: 1 }))
+
+  const density: number[][] = Array.from({ length: rows }, () => new Array(columns).fill(0))
+  const twoSigmaSq = 2 * bandwidth * bandwidth
+  const radius = 3 * bandwidth
+
+  for (const sample of samples) {
+    if (!Number.isFinite(sample.x) || !Number.isFinite(sample.y) || sample.weight <= 0) continue
+
+    const minCol = Math.max(0, Math.floor((sample.x - radius) / cellWidth))
+    const maxCol = Math.min(columns - 1, Math.floor((sample.x + radius) / cellWidth))
+    const minRow = Math.max(0, Math.floor((sample.y - radius) / cellHeight))
+    const maxRow = Math.min(rows - 1, Math.floor((sample.y + radius) / cellHeight))
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const cy = (row + 0.5) * cellHeight
+      const dySq = (cy - sample.y) * (cy - sample.y)
+      for (let col = minCol; col <= maxCol; col++) {
+        const cx = (col + 0.5) * cellWidth
+        const distSq = (cx - sample.x) * (cx - sample.x) + dySq
+        density[row][col] += sample.weight * Math.exp(-distSq / twoSigmaSq)
+      }
+    }
+  }
+
+  let max = 0
+  for (const row of density) {
+    for (const value of row) {
+      if (value > max) max = value
+    }
+  }
+
+  // Normalize and round to keep the persisted grid compact
+  const values = density.map(row => row.map(value => max > 0 ? Math.round((value / max) * 1000) / 1000 : 0))
+
+  return {
+    columns,
+    rows,
+    imageWidth: options.imageWidth,
+    imageHeight: options.imageHeight,
+    bandwidth,
+    weighting,
+    values,
+  }
+}
+
+/**
+ * Check whether a stored heatmapData value is a grid produced by computeHeatmap.
+ * Older experiments stored null here.
+ */
+export function isHeatmapGrid(value: unknown): value is HeatmapGrid {
+  const grid = value as HeatmapGrid
+  return !!grid &&
+    typeof grid === 'object' &&
+    typeof grid.columns === 'number' &&
+    typeof grid.rows === 'number' &&
+    Array.isArray(grid.values) &&
+    grid.values.length === grid.rows
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+// Piecewise-linear approximation of matplotlib's viridis
+const VIRIDIS_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [72, 40, 120],
+  [62, 74, 137],
+  [49, 104, 142],
+  [38, 130, 142],
+  [31, 158, 137],
+  [53, 183, 121],
+  [110, 206, 88],
+  [181, 222, 43],
+  [253, 231, 37],
+]
+
+/**
+ * Map a normalized value in [0, 1] to an RGB color.
+ */
+export function colormapColor(colormap: HeatmapColormap, t: number): [number, number, number] {
+  const v = Math.min(1, Math.max(0, t))
+
+  if (colormap === 'grayscale') {
+    const c = Math.round(v * 255)
+    return [c, c, c]
+  }
+
+  if (colormap === 'viridis') {
+    const scaled = v * (VIRIDIS_STOPS.length - 1)
+    const i = Math.min(VIRIDIS_STOPS.length - 2, Math.floor(scaled))
+    const f = scaled - i
+    const a = VIRIDIS_STOPS[i]
+    const b = VIRIDIS_STOPS[i + 1]
+    return [Math.round(lerp(a[0], b[0], f)), Math.round(lerp(a[1], b[1], f)), Math.round(lerp(a[2], b[2], f))]
+  }
+
+  // Jet: blue -> cyan -> yellow -> red
+  const r = Math.min(1, Math.max(0, 1.5 - Math.abs(4 * v - 3)))
+  const g = Math.min(1, Math.max(0, 1.5 - Math.abs(4 * v - 2)))
+  const b = Math.min(1, Math.max(0, 1.5 - Math.abs(4 * v - 1)))
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)]
+}
+
+/**
+ * CSS linear-gradient for a colormap legend.
+ */
+export function colormapGradient(colormap: HeatmapColormap): string {
+  const stops = [0, 0.25, 0.5, 0.75, 1].map(t => {
+    const [r, g, b] = colormapColor(colormap, t)
+    return `rgb(${r}, ${g}, ${b}) ${t * 100}%`
+  })
+  return `linear-gradient(to right, ${stops.join(', ')})`
+}
+
+/**
+ * Render a heatmap grid onto a canvas covering the displayed image.
+ *
+ * - color: attended regions are painted with the colormap, unattended regions stay transparent
+ * - fog: the image is covered with a dark fog that clears where attention was high
+ */
+export function renderHeatmap(
+  canvas: HTMLCanvasElement,
+  grid: HeatmapGrid,
+  options: { colormap: HeatmapColormap; mode: HeatmapMode; opacity: number }
+): void {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  // Paint the grid at its native resolution, then let the browser smooth it while scaling up
+  const offscreen = document.createElement('canvas')
+  offscreen.width = grid.columns
+  offscreen.height = grid.rows
+  const offscreenCtx = offscreen.getContext('2d')
+  if (!offscreenCtx) return
+
+  const imageData = offscreenCtx.createImageData(grid.columns, grid.rows)
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.columns; col++) {
+      const value = grid.values[row]?.[col] || 0
+      const index = (row * grid.columns + col) * 4
+
+      if (options.mode === 'fog') {
+        imageData.data[index] = 0
+        imageData.data[index + 1] = 0
+        imageData.data[index + 2] = 0
+        imageData.data[index + 3] = Math.round(255 * options.opacity * (1 - value))
+      } else {
+        const [r, g, b] = colormapColor(options.colormap, value)
+        imageData.data[index] = r
+        imageData.data[index + 1] = g
+        imageData.data[index + 2] = b
+        // Fade out low densities so the image stays visible outside attended regions
+        imageData.data[index + 3] = value < 0.02 ? 0 : Math.round(255 * options.opacity * Math.min(1, value * 1.5))
+      }
+    }
+  }
+  offscreenCtx.putImageData(imageData, 0, 0)
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(offscreen, 0, 0, canvas.width, canvas.height)
+}
@@ -0,0 +1,257 @@
+/**
+ * Heatmap Comparison
+ *
+ * Compares the attention of two eye tracking sessions, e.g. version A and version B of a
+ * painting or one picture viewed by two groups. The pictures may differ as long as they
+ * share an aspect ratio: session B is scaled into picture A's natural pixels so both
+ * heatmaps cover the same grid.
+ *
+ * Both grids are turned into distributions (summing to 1) before subtracting, so the
+ * signed difference map shows where A received a larger share of attention than B
+ * (positive) or a smaller one (negative), regardless of how long each session was.
+ */
+
+import { computeHeatmap, HeatmapGrid, HeatmapWeighting } from './heatmap'
+import { heatmapCorrelation } from './studyAggregation'
+import { createThirdsGrid } from './attentionFlow'
+
+// Largest relative difference in aspect ratio for two pictures to be compared
+export const ASPECT_RATIO_TOLERANCE = 0.02
+
+export interface ComparisonSession {
+  gazePoints: { x: number; y: number }[]
+  fixationPoints: { x: number; y: number; duration: number }[]
+  // Natural dimensions of the picture the session was recorded on
+  imageWidth: number
+  imageHeight: number
+}
+
+export interface HeatmapDifference {
+  columns: number
+  rows: number
+  imageWidth: number
+  imageHeight: number
+  // Row-major A share minus B share, scaled to [-1, 1] by the largest absolute difference
+  values: number[][]
+  // Largest absolute difference in share of attention per cell (0 when identical)
+  maxAbsDifference: number
+}
+
+export interface RegionShift {
+  name: string
+  // Share of attention (0-1) in the region for each session
+  shareA: number
+  shareB: number
+  change: number
+}
+
+export interface HeatmapComparison {
+  heatmapA: HeatmapGrid
+  heatmapB: HeatmapGrid
+  difference: HeatmapDifference
+  // Pearson correlation between the two heatmaps
+  correlation: number
+  // Share of attention that would have to move to turn A into B (total variation distance, 0-1)
+  shiftedShare: number
+  // Attention-weighted centers in picture A's natural pixels
+  centerA: { x: number; y: number }
+  centerB: { x: number; y: number }
+  // Distance between the centers as a share of the picture diagonal
+  centerShift: number
+  // Rule-of-thirds cells, ordered by how much attention B gained over A
+  regions: RegionShift[]
+}
+
+export interface HeatmapComparisonOptions {
+  // Gaussian standard deviation as a percentage of the picture width
+  bandwidthPercent: number
+  weighting?: HeatmapWeighting
+}
+
+/**
+ * Whether two pictures can be compared cell by cell.
+ */
+export function haveMatchingAspectRatio(
+  a: { width: number; height: number },
+  b: { width: number; height: number }
+): boolean {
+  if (a.width <= 0 || a.height <= 0 || b.width <= 0 || b.height <= 0) return false
+  const ratioA = a.width / a.height
+  const ratioB = b.width / b.height
+  return Math.abs(ratioA - ratioB) / ratioA <= ASPECT_RATIO_TOLERANCE
+}
+
+// Grid values divided by their sum (all zeros for an empty grid)
+function toDistribution(grid: HeatmapGrid): number[][] {
+  const total = grid.values.reduce((sum, row) => sum + row.reduce((rowSum, value) => rowSum + value, 0), 0)
+  return grid.values.map(row => row.map(value => total > 0 ? value / total : 0))
+}
+
+function centerOfMass(distribution: number[][], cellWidth: number, cellHeight: number): { x: number; y: number } {
+  let x = 0
+  let y = 0
+  let total = 0
+  distribution.forEach((row, r) => row.forEach((value, c) => {
+    x += value * (c + 0.5) * cellWidth
+    y += value * (r + 0.5) * cellHeight
+    total += value
+  }))
+  const columns = distribution[0]?.length ?? 0
+  return total > 0
+    ? { x: x / total, y: y / total }
+    : { x: (columns * cellWidth) / 2, y: (distribution.length * cellHeight) / 2 }
+}
+
+/**
+ * Compare two sessions. Returns null when the pictures' aspect ratios differ.
+ */
+export function compareHeatmaps(
+  a: ComparisonSession,
+  b: ComparisonSession,
+  options: HeatmapComparisonOptions
+): HeatmapComparison | null {
+  const sizeA = { width: a.imageWidth, height: a.imageHeight }
+  const sizeB = { width: b.imageWidth, height: b.imageHeight }
+  if (!haveMatchingAspectRatio(sizeA, sizeB)) return null
+
+  // Scale B into picture A's pixels
+  const scaleX = a.imageWidth / b.imageWidth
+  const scaleY = a.imageHeight / b.imageHeight
+  const scaledB = {
+    gazePoints: b.gazePoints.map(p => ({ x: p.x * scaleX, y: p.y * scaleY })),
+    fixationPoints: b.fixationPoints.map(f => ({ ...f, x: f.x * scaleX, y: f.y * scaleY })),
+  }
+
+  const heatmapOptions = {
+    imageWidth: a.imageWidth,
+    imageHeight: a.imageHeight,
+    bandwidth: (a.imageWidth * options.bandwidthPercent) / 100,
+    weighting: options.weighting,
+  }
+  const heatmapA = computeHeatmap(a.gazePoints, a.fixationPoints, heatmapOptions)
+  const heatmapB = computeHeatmap(scaledB.gazePoints, scaledB.fixationPoints, heatmapOptions)
+
+  const shareA = toDistribution(heatmapA)
+  const shareB = toDistribution(heatmapB)
+  const signed = shareA.map((row, r) => row.map((value, c) => value - (shareB[r]?.[c] ?? 0)))
+
+  let maxAbsDifference = 0
+  let absoluteSum = 0
+  for (const row of signed) {
+    for (const value of row) {
+      maxAbsDifference = Math.max(maxAbsDifference, Math.abs(value))
+      absoluteSum += Math.abs(value)
+    }
+  }
+
+  const cellWidth = a.imageWidth / heatmapA.columns
+  const cellHeight = a.imageHeight / heatmapA.rows
+  const centerA = centerOfMass(shareA, cellWidth, cellHeight)
+  const centerB = centerOfMass(shareB, cellWidth, cellHeight)
+
+  const regions = createThirdsGrid(a.imageWidth, a.imageHeight).map((region, index) => {
+    // Cells are numbered row by row from the top left
+    const regionRow = Math.floor(index / 3)
+    const regionColumn = index % 3
+    let inA = 0
+    let inB = 0
+    shareA.forEach((row, r) => row.forEach((value, c) => {
+      if (Math.min(2, Math.floor((3 * (r + 0.5)) / heatmapA.rows)) !== regionRow) return
+      if (Math.min(2, Math.floor((3 * (c + 0.5)) / heatmapA.columns)) !== regionColumn) return
+      inA += value
+      inB += shareB[r]?.[c] ?? 0
+    }))
+    return { name: region.name, shareA: inA, shareB: inB, change: inB - inA }
+  })
+
+  return {
+    heatmapA,
+    heatmapB,
+    difference: {
+      columns: heatmapA.columns,
+      rows: heatmapA.rows,
+      imageWidth: a.imageWidth,
+      imageHeight: a.imageHeight,
+      values: signed.map(row => row.map(value => maxAbsDifference > 0 ? value / maxAbsDifference : 0)),
+      maxAbsDifference,
+    },
+    correlation: heatmapCorrelation(heatmapA, heatmapB),
+    shiftedShare: absoluteSum / 2,
+    centerA,
+    centerB,
+    centerShift: Math.hypot(centerB.x - centerA.x, centerB.y - centerA.y) / Math.hypot(a.imageWidth, a.imageHeight),
+    regions: regions.sort((x, y) => y.change - x.change),
+  }
+}
+
+/**
+ * Direction from A's center of attention to B's, e.g. "up and to the left".
+ */
+export function describeCenterShift(comparison: HeatmapComparison): string {
+  const dx = comparison.centerB.x - comparison.centerA.x
+  const dy = comparison.centerB.y - comparison.centerA.y
+  // Ignore movement along an axis smaller than 2% of the picture diagonal
+  const threshold = Math.hypot(comparison.difference.imageWidth, comparison.difference.imageHeight) * 0.02
+  const vertical = Math.abs(dy) > threshold ? (dy < 0 ? 'up' : 'down') : null
+  const horizontal = Math.abs(dx) > threshold ? (dx < 0 ? 'to the left' : 'to the right') : null
+  if (vertical && horizontal) return `${vertical} and ${horizontal}`
+  return vertical ?? horizontal ?? 'nowhere in particular'
+}
+
+/**
+ * Diverging color for a signed value in [-1, 1]: blue where B received more attention,
+ * red where A did, fading to transparent around 0.
+ */
+export function divergingColor(t: number): [number, number, number, number] {
+  const v = Math.min(1, Math.max(-1, t))
+  const [r, g, b] = v >= 0 ? [220, 38, 38] : [37, 99, 235]
+  return [r, g, b, Math.abs(v)]
+}
+
+/**
+ * CSS linear-gradient for the difference map legend (B more ... A more).
+ */
+export function divergingGradient(): string {
+  const stops = [-1, -0.5, 0, 0.5, 1].map(t => {
+    const [r, g, b, alpha] = divergingColor(t)
+    return `rgba(${r}, ${g}, ${b}, ${alpha}) ${((t + 1) / 2) * 100}%`
+  })
+  return `linear-gradient(to right, ${stops.join(', ')})`
+}
+
+/**
+ * Render a difference map onto a canvas covering the displayed image.
+ */
+export function renderDifferenceMap(
+  canvas: HTMLCanvasElement,
+  difference: HeatmapDifference,
+  options: { opacity: number }
+): void {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  // Paint the grid at its native resolution, then let the browser smooth it while scaling up
+  const offscreen = document.createElement('canvas')
+  offscreen.width = difference.columns
+  offscreen.height = difference.rows
+  const offscreenCtx = offscreen.getContext('2d')
+  if (!offscreenCtx) return
+
+  const imageData = offscreenCtx.createImageData(difference.columns, difference.rows)
+  for (let row = 0; row < difference.rows; row++) {
+    for (let col = 0; col < difference.columns; col++) {
+      const [r, g, b, alpha] = divergingColor(difference.values[row]?.[col] || 0)
+      const index = (row * difference.columns + col) * 4
+      imageData.data[index] = r
+      imageData.data[index + 1] = g
+      imageData.data[index + 2] = b
+      imageData.data[index + 3] = Math.round(255 * options.opacity * Math.min(1, alpha * 1.5))
+    }
+  }
+  offscreenCtx.putImageData(imageData, 0, 0)
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(offscreen, 0, 0, canvas.width, canvas.height)
+}
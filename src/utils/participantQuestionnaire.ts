@@ -0,0 +1,108 @@
+/**
+ * Participant Questionnaire
+ *
+ * Consent and the optional demographic questions asked before a study session, plus the
+ * helpers that filter study sessions by the recorded answers (e.g. trained artists vs.
+ * novices). Answers are stored with each experiment as `participantInfo`.
+ */
+
+export type QuestionnaireField = 'ageRange' | 'artTraining' | 'visionCorrection' | 'handedness'
+
+export interface ParticipantInfo {
+  consentGivenAt?: number
+  ageRange?: string
+  artTraining?: string
+  visionCorrection?: string
+  handedness?: string
+}
+
+// Accepted answers per field; a field without accepted answers is not filtered
+export type ParticipantFilter = Partial<Record<QuestionnaireField, string[]>>
+
+export interface QuestionnaireQuestion {
+  field: QuestionnaireField
+  label: string
+  // Short name used in filters and tables
+  shortLabel: string
+  options: { value: string; label: string }[]
+}
+
+// Offered with every question so participants never have to disclose anything
+export const UNDISCLOSED = 'undisclosed'
+
+export const QUESTIONNAIRE_QUESTIONS: QuestionnaireQuestion[] = [
+  {
+    field: 'ageRange',
+    label: 'What is your age range?',
+    shortLabel: 'Age',
+    options: [
+      { value: 'under18', label: 'Under 18' },
+      { value: '18-24', label: '18–24' },
+      { value: '25-34', label: '25–34' },
+      { value: '35-44', label: '35–44' },
+      { value: '45-54', label: '45–54' },
+      { value: '55-64', label: '55–64' },
+      { value: '65+', label: '65 or older' },
+    ],
+  },
+  {
+    field: 'artTraining',
+    label: 'How much art training do you have?',
+    shortLabel: 'Art training',
+    options: [
+      { value: 'none', label: 'None' },
+      { value: 'hobbyist', label: 'Self-taught / hobbyist' },
+      { value: 'student', label: 'Art student' },
+      { value: 'professional', label: 'Professional artist' },
+    ],
+  },
+  {
+    field: 'visionCorrection',
+    label: 'Are you wearing vision correction right now?',
+    shortLabel: 'Vision correction',
+    options: [
+      { value: 'none', label: 'None' },
+      { value: 'glasses', label: 'Glasses' },
+      { value: 'contacts', label: 'Contact lenses' },
+    ],
+  },
+  {
+    field: 'handedness',
+    label: 'Which is your dominant hand?',
+    shortLabel: 'Handedness',
+    options: [
+      { value: 'right', label: 'Right' },
+      { value: 'left', label: 'Left' },
+      { value: 'ambidextrous', label: 'Ambidextrous' },
+    ],
+  },
+]
+
+export const DEFAULT_CONSENT_TEXT =
+  'This study uses your webcam to estimate where you look on a picture. Video is processed in your browser ' +
+  'and is never recorded or uploaded; only the estimated gaze positions and your answers below are saved. ' +
+  'Taking part is voluntary and you can stop at any time by closing the page.'
+
+/**
+ * Display label for a recorded answer.
+ */
+export function formatParticipantAnswer(field: QuestionnaireField, value: string | undefined): string {
+  if (!value) return '—'
+  if (value === UNDISCLOSED) return 'Prefer not to say'
+  const question = QUESTIONNAIRE_QUESTIONS.find(q => q.field === field)
+  return question?.options.find(option => option.value === value)?.label || value
+}
+
+/**
+ * Whether a participant's answers match every active filter, e.g.
+ * `{ artTraining: ['student', 'professional'] }` keeps trained artists only.
+ * Sessions without an answer for a filtered field are excluded.
+ */
+export function matchesParticipantFilter(info: ParticipantInfo | undefined, filter: ParticipantFilter): boolean {
+  return (Object.keys(filter) as QuestionnaireField[]).every(field => {
+    const accepted = filter[field]
+    if (!accepted || accepted.length === 0) return true
+    const answer = info?.[field]
+    return !!answer && accepted.includes(answer)
+  })
+}
@@ -0,0 +1,205 @@
+/**
+ * Replay Export
+ *
+ * Renders the picture with an animated overlay into a downloadable file:
+ * - WebM: frames are drawn onto a canvas in real time and captured with MediaRecorder
+ * - GIF: frames are rendered offscreen and encoded with the built-in GIF encoder
+ *
+ * Overlays:
+ * - scanpath: the same frames as the Replay tab (trail, growing fixations, gaze cursor)
+ * - heatmap: a heatmap that accumulates as the session progresses
+ */
+
+import { buildReplayTimeline, drawReplayFrame, ReplayFixation, ReplayGazePoint } from './gazeReplay'
+import { computeHeatmap, getDefaultHeatmapBandwidth, renderHeatmap, HeatmapColormap } from './heatmap'
+import { GifEncoder } from './gifEncoder'
+
+export type ReplayExportOverlay = 'scanpath' | 'heatmap'
+export type ReplayExportFormat = 'webm' | 'gif'
+
+export interface ReplayExportOptions {
+  imageUrl: string
+  gazePoints: ReplayGazePoint[]
+  fixationPoints: ReplayFixation[]
+  overlay: ReplayExportOverlay
+  // Playback speed multiplier (2 = twice as fast as real time)
+  speed?: number
+  fps?: number
+  // Longest side of the output in pixels
+  maxSize?: number
+  trailMs?: number
+  colormap?: HeatmapColormap
+  onProgress?: (progress: number) => void
+}
+
+const DEFAULT_WEBM_FPS = 30
+const DEFAULT_GIF_FPS = 10
+const DEFAULT_WEBM_SIZE = 1280
+const DEFAULT_GIF_SIZE = 480
+
+/**
+ * Load an image with CORS enabled so canvases drawn from it can be read back.
+ */
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Failed to load image for export'))
+    image.src = url
+  })
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+// Build a function that draws the frame at a given time offset onto the output canvas
+async function prepareRenderer(options: ReplayExportOptions, defaultSize: number) {
+  const image = await loadImage(options.imageUrl)
+  const imageWidth = image.naturalWidth
+  const imageHeight = image.naturalHeight
+  const scale = Math.min(1, (options.maxSize || defaultSize) / Math.max(imageWidth, imageHeight))
+  // Even dimensions keep video encoders happy
+  const width = Math.max(2, Math.round((imageWidth * scale) / 2) * 2)
+  const height = Math.max(2, Math.round((imageHeight * scale) / 2) * 2)
+
+  const output = createCanvas(width, height)
+  const overlay = createCanvas(width, height)
+  const outputCtx = output.getContext('2d')
+  const overlayCtx = overlay.getContext('2d')
+  if (!outputCtx || !overlayCtx) {
+    throw new Error('Canvas is not supported in this browser')
+  }
+
+  const timeline = buildReplayTimeline(options.gazePoints, options.fixationPoints)
+  const bandwidth = getDefaultHeatmapBandwidth(imageWidth)
+
+  const render = (time: number) => {
+    if (options.overlay === 'heatmap') {
+      // Heatmap of everything seen up to this point
+      const cutoff = timeline.startTime + time
+      const grid = computeHeatmap(
+        timeline.gazePoints.filter(p => p.timestamp <= cutoff),
+        [],
+        { imageWidth, imageHeight, bandwidth }
+      )
+      renderHeatmap(overlay, grid, { colormap: options.colormap || 'jet', mode: 'color', opacity: 0.6 })
+    } else {
+      drawReplayFrame(overlayCtx, timeline, {
+        time,
+        trailMs: options.trailMs || 1000,
+        imageWidth,
+        imageHeight
+      })
+    }
+
+    outputCtx.clearRect(0, 0, width, height)
+    outputCtx.drawImage(image, 0, 0, width, height)
+    outputCtx.drawImage(overlay, 0, 0)
+  }
+
+  return { output, outputCtx, render, duration: timeline.duration }
+}
+
+/**
+ * Whether this browser can record canvas video.
+ */
+export function isWebMExportSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    (MediaRecorder.isTypeSupported('video/webm;codecs=vp9') || MediaRecorder.isTypeSupported('video/webm'))
+}
+
+/**
+ * Record the replay as WebM. Recording runs in real time (divided by the speed).
+ */
+export async function exportReplayAsWebM(options: ReplayExportOptions): Promise<Blob> {
+  if (!isWebMExportSupported()) {
+    throw new Error('WebM recording is not supported in this browser')
+  }
+
+  const fps = options.fps || DEFAULT_WEBM_FPS
+  const speed = options.speed || 1
+  const { output, render, duration } = await prepareRenderer(options, DEFAULT_WEBM_SIZE)
+
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm'
+  const stream = output.captureStream(fps)
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve()
+  })
+
+  render(0)
+  recorder.start()
+
+  const startedAt = performance.now()
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const time = Math.min(duration, (performance.now() - startedAt) * speed)
+      render(time)
+      options.onProgress?.(duration > 0 ? time / duration : 1)
+      if (time >= duration) {
+        resolve()
+        return
+      }
+      setTimeout(tick, 1000 / fps)
+    }
+    tick()
+  })
+
+  // Hold the last frame briefly so players don't cut it off
+  await new Promise(resolve => setTimeout(resolve, 500))
+  recorder.stop()
+  await stopped
+  stream.getTracks().forEach(track => track.stop())
+
+  return new Blob(chunks, { type: 'video/webm' })
+}
+
+/**
+ * Encode the replay as an animated GIF.
+ */
+export async function exportReplayAsGIF(options: ReplayExportOptions): Promise<Blob> {
+  const fps = options.fps || DEFAULT_GIF_FPS
+  const speed = options.speed || 1
+  const { output, outputCtx, render, duration } = await prepareRenderer(options, DEFAULT_GIF_SIZE)
+
+  const encoder = new GifEncoder(output.width, output.height)
+  const frameDelay = 1000 / fps
+  const step = frameDelay * speed
+  const frameCount = Math.max(1, Math.ceil(duration / step) + 1)
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const time = Math.min(duration, frame * step)
+    render(time)
+    // Hold the final frame for a second before looping
+    encoder.addFrame(outputCtx.getImageData(0, 0, output.width, output.height), frame === frameCount - 1 ? 1000 : frameDelay)
+    options.onProgress?.((frame + 1) / frameCount)
+    // Yield so the UI can update progress
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  return encoder.finish()
+}
+
+/**
+ * Trigger a browser download for a blob.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking right after click() can cancel the download in some browsers (Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,132 @@
+/**
+ * Saccade Detection
+ *
+ * Segments the gaze stream into saccades: the rapid eye movements between consecutive
+ * fixations. Each saccade runs from the last gaze sample of one fixation to the first
+ * sample of the next, and records amplitude, direction, peak velocity and duration.
+ *
+ * Coordinates are natural image pixels. Direction is in degrees where 0 points right
+ * and 90 points up (screen y is inverted so the angle reads like a compass on the image).
+ */
+
+import { Fixation, FixationSample } from './fixationDetection'
+import { GazeGap, hasGapBetween } from './gazeGaps'
+
+export interface Saccade {
+  startX: number
+  startY: number
+  endX: number
+  endY: number
+  startTime: number
+  duration: number
+  // Euclidean distance in natural image pixels
+  amplitude: number
+  // Amplitude in degrees of visual angle (only when a pixels-per-degree estimate is known)
+  amplitudeDeg?: number
+  // Degrees in [0, 360), 0 = right, 90 = up
+  direction: number
+  // Highest sample-to-sample velocity within the saccade, in pixels per second
+  peakVelocity: number
+}
+
+export interface SaccadeSummary {
+  count: number
+  averageAmplitude: number
+  averageDuration: number
+  averagePeakVelocity: number
+  maxPeakVelocity: number
+}
+
+/**
+ * Detect saccades between consecutive fixations.
+ *
+ * Fixations are expected in chronological order (as returned by detectFixations).
+ * Fixation pairs separated by a blink or track-loss gap are skipped: the eye movement
+ * between them was not observed.
+ */
+export function detectSaccades(
+  points: FixationSample[],
+  fixations: Fixation[],
+  pixelsPerDegree?: number,
+  gaps: GazeGap[] = []
+): Saccade[] {
+  if (points.length < 2 || fixations.length < 2) return []
+
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp)
+  const saccades: Saccade[] = []
+
+  for (let i = 0; i < fixations.length - 1; i++) {
+    const from = fixations[i]
+    const to = fixations[i + 1]
+    const fromEnd = from.startTime + from.duration
+    if (hasGapBetween(gaps, fromEnd, to.startTime)) continue
+
+    // Last sample belonging to the first fixation (and strictly before the next one starts)
+    let startIndex = -1
+    for (let j = sorted.length - 1; j >= 0; j--) {
+      if (sorted[j].timestamp <= fromEnd && sorted[j].timestamp < to.startTime) {
+        startIndex = j
+        break
+      }
+    }
+    // First sample of the next fixation
+    const endIndex = sorted.findIndex(p => p.timestamp >= to.startTime)
+    if (startIndex < 0 || endIndex < 0 || endIndex <= startIndex) continue
+
+    const start = sorted[startIndex]
+    const end = sorted[endIndex]
+
+    let peakVelocity = 0
+    for (let j = startIndex + 1; j <= endIndex; j++) {
+      const dt = (sorted[j].timestamp - sorted[j - 1].timestamp) / 1000
+      if (dt <= 0) continue
+      const distance = Math.sqrt(
+        Math.pow(sorted[j].x - sorted[j - 1].x, 2) + Math.pow(sorted[j].y - sorted[j - 1].y, 2)
+      )
+      peakVelocity = Math.max(peakVelocity, distance / dt)
+    }
+
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const amplitude = Math.sqrt(dx * dx + dy * dy)
+    // Negate dy because image y grows downwards
+    const direction = ((Math.atan2(-dy, dx) * 180) / Math.PI + 360) % 360
+
+    saccades.push({
+      startX: start.x,
+      startY: start.y,
+      endX: end.x,
+      endY: end.y,
+      startTime: start.timestamp,
+      duration: end.timestamp - start.timestamp,
+      amplitude,
+      ...(pixelsPerDegree && pixelsPerDegree > 0 ? { amplitudeDeg: amplitude / pixelsPerDegree } : {}),
+      direction,
+      peakVelocity,
+    })
+  }
+
+  return saccades
+}
+
+// Aggregate metrics for the results view
+export function summarizeSaccades(saccades: Saccade[]): SaccadeSummary {
+  if (saccades.length === 0) {
+    return { count: 0, averageAmplitude: 0, averageDuration: 0, averagePeakVelocity: 0, maxPeakVelocity: 0 }
+  }
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+  return {
+    count: saccades.length,
+    averageAmplitude: sum(saccades.map(s => s.amplitude)) / saccades.length,
+    averageDuration: sum(saccades.map(s => s.duration)) / saccades.length,
+    averagePeakVelocity: sum(saccades.map(s => s.peakVelocity)) / saccades.length,
+    maxPeakVelocity: Math.max(...saccades.map(s => s.peakVelocity)),
+  }
+}
+
+// Eight-way compass label for a direction in degrees
+export function directionLabel(direction: number): string {
+  const labels = ['E', 'NE', 'N', 'NW', 'W', 'SW', 'S', 'SE']
+  return labels[Math.round(direction / 45) % 8]
+}
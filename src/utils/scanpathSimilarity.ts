@@ -0,0 +1,246 @@
+/**
+ * Scan Path Similarity
+ *
+ * Quantifies how alike two viewing sequences on the same picture are:
+ * - Sequence similarity: fixations become a string of the regions they fall in (rule-of-thirds
+ *   cells or areas of interest, repeats collapsed) and the strings are compared with the
+ *   Levenshtein edit distance, normalized by the longer string (1 = same order of regions)
+ * - MultiMatch (Jarodzka et al., 2010; Dewhurst et al., 2012): scan paths become chains of
+ *   saccade vectors, which are aligned so that the summed vector difference is smallest.
+ *   Aligned pairs are compared on shape (vector difference), direction, length, position and
+ *   duration of the fixations they start from. Each measure is 1 minus the median normalized
+ *   difference, so 1 means identical. The optional simplification step is not applied.
+ *
+ * Fixations are in natural image pixels.
+ */
+
+import { Fixation } from './fixationDetection'
+import { FlowRegion, findRegion } from './attentionFlow'
+
+export interface MultiMatchScores {
+  shape: number
+  direction: number
+  length: number
+  position: number
+  duration: number
+}
+
+export interface ScanpathComparison {
+  // Region ids visited in order, repeats collapsed
+  sequenceA: string[]
+  sequenceB: string[]
+  editDistance: number
+  sequenceSimilarity: number
+  // null when either scan path has fewer than 2 fixations (no saccade vectors)
+  multiMatch: MultiMatchScores | null
+}
+
+export interface ScanpathComparisonOptions {
+  regions: FlowRegion[]
+  imageWidth: number
+  imageHeight: number
+}
+
+export type SimilarityMeasure = 'sequence' | keyof MultiMatchScores | 'multiMatch'
+
+export const SIMILARITY_MEASURE_LABELS: Record<SimilarityMeasure, string> = {
+  sequence: 'Region sequence (edit distance)',
+  multiMatch: 'MultiMatch (mean of all 5)',
+  shape: 'MultiMatch shape',
+  direction: 'MultiMatch direction',
+  length: 'MultiMatch length',
+  position: 'MultiMatch position',
+  duration: 'MultiMatch duration',
+}
+
+interface SaccadeVector {
+  dx: number
+  dy: number
+  // Fixation the saccade starts from
+  from: Fixation
+}
+
+/**
+ * Region ids of the fixations in time order. Fixations outside every region are skipped;
+ * consecutive fixations in the same region count once unless `collapseRepeats` is false.
+ */
+export function toRegionSequence(fixations: Fixation[], regions: FlowRegion[], collapseRepeats = true): string[] {
+  const sequence: string[] = []
+  for (const fixation of [...fixations].sort((a, b) => a.startTime - b.startTime)) {
+    const region = findRegion(fixation, regions)
+    if (!region) continue
+    if (collapseRepeats && sequence[sequence.length - 1] === region._id) continue
+    sequence.push(region._id)
+  }
+  return sequence
+}
+
+/**
+ * Levenshtein distance: the fewest insertions, deletions and substitutions turning a into b.
+ */
+export function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 - distance / longer length (two empty sequences are identical)
+export function sequenceSimilarity(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length)
+  return longest > 0 ? 1 - editDistance(a, b) / longest : 1
+}
+
+function toVectors(fixations: Fixation[]): SaccadeVector[] {
+  const sorted = [...fixations].sort((a, b) => a.startTime - b.startTime)
+  return sorted.slice(1).map((to, index) => ({
+    dx: to.x - sorted[index].x,
+    dy: to.y - sorted[index].y,
+    from: sorted[index],
+  }))
+}
+
+// Cheapest path through the vector difference matrix from the first pair to the last,
+// stepping to the next vector of either scan path or both
+function alignVectors(a: SaccadeVector[], b: SaccadeVector[]): Array<[number, number]> {
+  const cost = a.map(u => b.map(v => Math.hypot(u.dx - v.dx, u.dy - v.dy)))
+  const total = cost.map(row => row.map(() => Infinity))
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      const best = i === 0 && j === 0
+        ? 0
+        : Math.min(
+          i > 0 ? total[i - 1][j] : Infinity,
+          j > 0 ? total[i][j - 1] : Infinity,
+          i > 0 && j > 0 ? total[i - 1][j - 1] : Infinity
+        )
+      total[i][j] = best + cost[i][j]
+    }
+  }
+
+  const path: Array<[number, number]> = []
+  let i = a.length - 1
+  let j = b.length - 1
+  while (i > 0 || j > 0) {
+    path.push([i, j])
+    const diagonal = i > 0 && j > 0 ? total[i - 1][j - 1] : Infinity
+    const up = i > 0 ? total[i - 1][j] : Infinity
+    const left = j > 0 ? total[i][j - 1] : Infinity
+    if (diagonal <= up && diagonal <= left) {
+      i--
+      j--
+    } else if (up <= left) {
+      i--
+    } else {
+      j--
+    }
+  }
+  path.push([0, 0])
+  return path.reverse()
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * MultiMatch similarity of two scan paths (null when either has fewer than 2 fixations).
+ */
+export function multiMatch(a: Fixation[], b: Fixation[], imageWidth: number, imageHeight: number): MultiMatchScores | null {
+  const vectorsA = toVectors(a)
+  const vectorsB = toVectors(b)
+  if (vectorsA.length === 0 || vectorsB.length === 0) return null
+
+  const diagonal = Math.hypot(imageWidth, imageHeight) || 1
+  const pairs = alignVectors(vectorsA, vectorsB).map(([i, j]) => [vectorsA[i], vectorsB[j]] as const)
+
+  const angleBetween = (u: SaccadeVector, v: SaccadeVector) => {
+    const difference = Math.abs(Math.atan2(u.dy, u.dx) - Math.atan2(v.dy, v.dx))
+    return Math.min(difference, 2 * Math.PI - difference)
+  }
+  const score = (differences: number[]) => Math.max(0, 1 - median(differences))
+
+  return {
+    shape: score(pairs.map(([u, v]) => Math.hypot(u.dx - v.dx, u.dy - v.dy) / (2 * diagonal))),
+    direction: score(pairs.map(([u, v]) => angleBetween(u, v) / Math.PI)),
+    length: score(pairs.map(([u, v]) => Math.abs(Math.hypot(u.dx, u.dy) - Math.hypot(v.dx, v.dy)) / diagonal)),
+    position: score(pairs.map(([u, v]) => Math.hypot(u.from.x - v.from.x, u.from.y - v.from.y) / diagonal)),
+    duration: score(pairs.map(([u, v]) => {
+      const longer = Math.max(u.from.duration, v.from.duration)
+      return longer > 0 ? Math.abs(u.from.duration - v.from.duration) / longer : 0
+    })),
+  }
+}
+
+/**
+ * Compare two scan paths on the same picture.
+ */
+export function compareScanpaths(a: Fixation[], b: Fixation[], options: ScanpathComparisonOptions): ScanpathComparison {
+  const sequenceA = toRegionSequence(a, options.regions)
+  const sequenceB = toRegionSequence(b, options.regions)
+  return {
+    sequenceA,
+    sequenceB,
+    editDistance: editDistance(sequenceA, sequenceB),
+    sequenceSimilarity: sequenceSimilarity(sequenceA, sequenceB),
+    multiMatch: multiMatch(a, b, options.imageWidth, options.imageHeight),
+  }
+}
+
+/**
+ * Value of one measure for a comparison (null when it cannot be computed).
+ */
+export function similarityValue(comparison: ScanpathComparison, measure: SimilarityMeasure): number | null {
+  if (measure === 'sequence') return comparison.sequenceSimilarity
+  const scores = comparison.multiMatch
+  if (!scores) return null
+  if (measure === 'multiMatch') {
+    return (scores.shape + scores.direction + scores.length + scores.position + scores.duration) / 5
+  }
+  return scores[measure]
+}
+
+/**
+ * Pairwise comparisons of all scan paths. The matrix is symmetric with null on the diagonal.
+ */
+export function similarityMatrix(
+  scanpaths: Fixation[][],
+  options: ScanpathComparisonOptions
+): Array<Array<ScanpathComparison | null>> {
+  const matrix: Array<Array<ScanpathComparison | null>> = scanpaths.map(() => scanpaths.map(() => null))
+  for (let i = 0; i < scanpaths.length; i++) {
+    for (let j = i + 1; j < scanpaths.length; j++) {
+      const comparison = compareScanpaths(scanpaths[i], scanpaths[j], options)
+      matrix[i][j] = comparison
+      matrix[j][i] = { ...comparison, sequenceA: comparison.sequenceB, sequenceB: comparison.sequenceA }
+    }
+  }
+  return matrix
+}
+
+/**
+ * Mean of a measure over all pairs (null with fewer than 2 scan paths).
+ */
+export function meanPairwiseSimilarity(
+  matrix: Array<Array<ScanpathComparison | null>>,
+  measure: SimilarityMeasure
+): number | null {
+  const values: number[] = []
+  matrix.forEach((row, i) => row.forEach((comparison, j) => {
+    if (j <= i || !comparison) return
+    const value = similarityValue(comparison, measure)
+    if (value !== null) values.push(value)
+  }))
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
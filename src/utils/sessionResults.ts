@@ -0,0 +1,129 @@
+/**
+ * Session Results
+ *
+ * Turns the viewport gaze stream of a finished session into the eye tracking data saved
+ * with the experiment: samples are mapped to natural image pixels, samples inside blink and
+ * track-loss gaps or with very low confidence are dropped, and fixations, saccades and the
+ * heatmap are computed from what remains.
+ *
+ * Live sessions and replayed recordings (see gazeSessionRecording.ts) both end here, so a
+ * replay produces exactly the data a live session would have saved. Stored sessions can be
+ * analysed again from their unsmoothed stream with `reprocessRawGazePoints`.
+ */
+
+import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import { webgazerManager, GazePoint, ImageBounds, GazeMappingContext } from './webgazerManager'
+import { DriftCorrectionEvent } from './driftCorrection'
+import { GazeGap } from './gazeGaps'
+import { applyGazeFilter, GazeFilterSettings } from './gazeFilters'
+import {
+  detectFixations,
+  resolveFixationParams,
+  computePixelsPerDegree,
+  FixationDetectionParams
+} from './fixationDetection'
+import { detectSaccades, Saccade } from './saccadeDetection'
+import { computeHeatmap, getDefaultHeatmapBandwidth, HeatmapGrid } from './heatmap'
+
+export interface EyeTrackingData {
+  gazePoints: GazePoint[]
+  fixationPoints: Array<{
+    x: number
+    y: number
+    duration: number
+    startTime: number
+  }>
+  saccades?: Saccade[]
+  scanPath: GazePoint[]
+  sessionDuration: number
+  heatmapData?: HeatmapGrid | null
+  driftCorrections?: DriftCorrectionEvent[]
+  gaps?: GazeGap[]
+  // Viewport stream before our smoothing, drift correction, mapping and validation, and the
+  // layout and filter it was processed with. With the 'kalman' filter WebGazer smooths its
+  // predictions itself, so the stream is already Kalman-filtered
+  rawGazePoints?: GazePoint[]
+  mappingContext?: GazeMappingContext
+}
+
+export interface SessionResults {
+  data: EyeTrackingData
+  // Every collected sample in natural image pixels, before validation
+  mappedGazePoints: GazePoint[]
+  validation: { isValid: boolean; validPoints: GazePoint[]; issues: string[] }
+  detectionParams: FixationDetectionParams
+}
+
+export interface SessionResultsOptions {
+  gaps: GazeGap[]
+  driftCorrections?: DriftCorrectionEvent[]
+  rawGazePoints?: GazePoint[]
+  mappingContext?: GazeMappingContext
+  sessionDuration?: number
+}
+
+/**
+ * Process the gaze samples collected during a session (viewport pixels, drift-corrected).
+ */
+export function buildSessionResults(
+  collectedData: GazePoint[],
+  imageBounds: ImageBounds,
+  options: SessionResultsOptions
+): SessionResults {
+  const { gaps } = options
+  const mappedGazePoints = collectedData.map(point => webgazerManager.mapToImageCoordinates(point, imageBounds))
+  const validation = webgazerManager.validateGazeData(mappedGazePoints, gaps)
+
+  const detectionParams = resolveFixationParams({
+    algorithm: EYE_TRACKING_EXPERIMENT.FIXATION_ALGORITHM,
+    pixelsPerDegree: computePixelsPerDegree({
+      displayedWidth: imageBounds.width,
+      naturalWidth: imageBounds.naturalWidth
+    })
+  })
+
+  const fixationPoints = detectFixations(validation.validPoints, detectionParams, gaps)
+
+  const data: EyeTrackingData = {
+    gazePoints: validation.validPoints,
+    fixationPoints,
+    saccades: detectSaccades(validation.validPoints, fixationPoints, detectionParams.pixelsPerDegree, gaps),
+    scanPath: validation.validPoints,
+    sessionDuration: options.sessionDuration ?? EYE_TRACKING_EXPERIMENT.DURATION_SECONDS,
+    heatmapData: computeHeatmap(validation.validPoints, fixationPoints, {
+      imageWidth: imageBounds.naturalWidth,
+      imageHeight: imageBounds.naturalHeight,
+      bandwidth: getDefaultHeatmapBandwidth(imageBounds.naturalWidth)
+    }),
+    ...(options.driftCorrections && options.driftCorrections.length > 0 ? { driftCorrections: options.driftCorrections } : {}),
+    gaps,
+    ...(options.rawGazePoints ? { rawGazePoints: options.rawGazePoints } : {}),
+    ...(options.mappingContext ? { mappingContext: options.mappingContext } : {})
+  }
+
+  return { data, mappedGazePoints, validation, detectionParams }
+}
+
+/**
+ * Gaze points (natural image pixels, validated) of a stored session, rebuilt from its
+ * unsmoothed viewport stream with another filter: the stream is smoothed, the drift correction
+ * in effect at each sample is subtracted and the result is mapped with the recorded layout.
+ */
+export function reprocessRawGazePoints(
+  rawGazePoints: GazePoint[],
+  mappingContext: GazeMappingContext,
+  filter: GazeFilterSettings,
+  options: { gaps?: GazeGap[]; driftCorrections?: DriftCorrectionEvent[] } = {}
+): GazePoint[] {
+  const gaps = options.gaps ?? []
+  const corrections = [...(options.driftCorrections ?? [])].sort((a, b) => a.timestamp - b.timestamp)
+
+  const corrected = applyGazeFilter(rawGazePoints, filter, gaps).map(point => {
+    const correction = corrections.filter(event => event.timestamp <= point.timestamp).pop()
+    return correction
+      ? { ...point, x: point.x - correction.correctionX, y: point.y - correction.correctionY }
+      : point
+  })
+  const mapped = corrected.map(point => webgazerManager.mapToImageCoordinates(point, mappingContext.imageBounds))
+  return webgazerManager.validateGazeData(mapped, gaps).validPoints
+}
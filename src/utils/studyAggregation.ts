@@ -0,0 +1,192 @@
+/**
+ * Study Aggregation
+ *
+ * Combines eye tracking sessions from many participants on the same picture:
+ * - Aggregate heatmap: mean of the per-participant KDE grids, so every participant
+ *   contributes equally regardless of how many samples their session recorded
+ * - Mean time to first fixation per AOI (via the AOI metrics)
+ * - Inter-participant agreement: Pearson correlation between participants' heatmaps.
+ *   The study score is the mean over all participant pairs; each participant also gets a
+ *   leave-one-out score (correlation with the aggregate of everyone else).
+ *
+ * All coordinates are natural image pixels.
+ */
+
+import { computeHeatmap, HeatmapGrid, HeatmapWeighting } from './heatmap'
+import { computeAOIMetrics, AOIMetrics, AreaOfInterest } from './aoiMetrics'
+import { Fixation } from './fixationDetection'
+import { ParticipantInfo } from './participantQuestionnaire'
+
+export interface StudySession {
+  experimentId: string
+  label: string
+  gazePoints: { x: number; y: number; timestamp: number }[]
+  fixationPoints: Fixation[]
+  participantInfo?: ParticipantInfo
+}
+
+export interface ParticipantAgreement {
+  experimentId: string
+  label: string
+  // Correlation with the aggregate heatmap of all other participants (null with < 2 participants)
+  agreement: number | null
+}
+
+export interface StudyAggregate {
+  sessionCount: number
+  heatmap: HeatmapGrid
+  // Mean pairwise heatmap correlation (null with < 2 participants)
+  agreement: number | null
+  participants: ParticipantAgreement[]
+  aoiMetrics: AOIMetrics[]
+  // Mean delay before the first fixation anywhere on the picture
+  meanFirstFixationDelay: number | null
+  meanSessionDuration: number
+  meanFixationCount: number
+}
+
+export interface StudyAggregationOptions {
+  imageWidth: number
+  imageHeight: number
+  bandwidth: number
+  weighting?: HeatmapWeighting
+}
+
+/**
+ * Element-wise mean of grids with identical dimensions, renormalized to [0, 1].
+ */
+export function averageHeatmaps(grids: HeatmapGrid[], template: HeatmapGrid): HeatmapGrid {
+  const sums = template.values.map(row => row.map(() => 0))
+  for (const grid of grids) {
+    grid.values.forEach((row, r) => row.forEach((value, c) => {
+      sums[r][c] += value
+    }))
+  }
+
+  let max = 0
+  for (const row of sums) {
+    for (const value of row) {
+      if (value > max) max = value
+    }
+  }
+
+  return {
+    ...template,
+    values: sums.map(row => row.map(value => max > 0 ? Math.round((value / max) * 1000) / 1000 : 0)),
+  }
+}
+
+/**
+ * Pearson correlation between two grids with identical dimensions.
+ * Returns 0 when either grid is flat (e.g. a session without samples).
+ */
+export function heatmapCorrelation(a: HeatmapGrid, b: HeatmapGrid): number {
+  const x = a.values.flat()
+  const y = b.values.flat()
+  const n = Math.min(x.length, y.length)
+  if (n === 0) return 0
+
+  let meanX = 0
+  let meanY = 0
+  for (let i = 0; i < n; i++) {
+    meanX += x[i]
+    meanY += y[i]
+  }
+  meanX /= n
+  meanY /= n
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX
+    const dy = y[i] - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  }
+
+  if (varianceX === 0 || varianceY === 0) return 0
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * Aggregate all sessions of a study.
+ */
+export function aggregateStudy(
+  sessions: StudySession[],
+  aois: AreaOfInterest[],
+  options: StudyAggregationOptions
+): StudyAggregate {
+  const heatmapOptions = {
+    imageWidth: options.imageWidth,
+    imageHeight: options.imageHeight,
+    bandwidth: options.bandwidth,
+    weighting: options.weighting,
+  }
+  const grids = sessions.map(session => computeHeatmap(session.gazePoints, session.fixationPoints, heatmapOptions))
+  const template = grids[0] ?? computeHeatmap([], [], heatmapOptions)
+  const heatmap = averageHeatmaps(grids, template)
+
+  // Mean pairwise correlation
+  let pairSum = 0
+  let pairCount = 0
+  for (let i = 0; i < grids.length; i++) {
+    for (let j = i + 1; j < grids.length; j++) {
+      pairSum += heatmapCorrelation(grids[i], grids[j])
+      pairCount++
+    }
+  }
+
+  // Leave-one-out agreement per participant
+  const participants = sessions.map((session, index) => {
+    const others = grids.filter((_, i) => i !== index)
+    return {
+      experimentId: session.experimentId,
+      label: session.label,
+      agreement: others.length > 0
+        ? heatmapCorrelation(grids[index], averageHeatmaps(others, template))
+        : null,
+    }
+  })
+
+  const firstFixationDelays = sessions
+    .filter(session => session.fixationPoints.length > 0)
+    .map(session => {
+      const firstFixation = Math.min(...session.fixationPoints.map(f => f.startTime))
+      const sessionStart = session.gazePoints.length > 0
+        ? Math.min(...session.gazePoints.map(p => p.timestamp))
+        : firstFixation
+      return Math.max(0, firstFixation - sessionStart)
+    })
+
+  const sessionDurations = sessions.map(session => {
+    if (session.gazePoints.length === 0) return 0
+    const timestamps = session.gazePoints.map(p => p.timestamp)
+    return Math.max(...timestamps) - Math.min(...timestamps)
+  })
+
+  const average = (values: number[]) => values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0
+
+  return {
+    sessionCount: sessions.length,
+    heatmap,
+    agreement: pairCount > 0 ? pairSum / pairCount : null,
+    participants,
+    aoiMetrics: computeAOIMetrics(aois, sessions),
+    meanFirstFixationDelay: firstFixationDelays.length > 0 ? average(firstFixationDelays) : null,
+    meanSessionDuration: average(sessionDurations),
+    meanFixationCount: average(sessions.map(session => session.fixationPoints.length)),
+  }
+}
+
+/**
+ * Describe an agreement score for display.
+ */
+export function describeAgreement(agreement: number): string {
+  if (agreement >= 0.7) return 'High'
+  if (agreement >= 0.4) return 'Moderate'
+  return 'Low'
+}
@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { webgazerManager, ImageBounds } from './webgazerManager'
+import {
+  createRandomScenario,
+  generateSyntheticGaze,
+  scoreFixations,
+  toSyntheticRecording,
+  SyntheticGazeScenario
+} from './syntheticGaze'
+import {
+  detectFixations,
+  resolveFixationParams,
+  computePixelsPerDegree,
+  FixationAlgorithm,
+  FIXATION_ALGORITHM_LABELS
+} from './fixationDetection'
+
+// Picture shown at half its natural size
+const imageBounds: ImageBounds = { x: 240, y: 100, width: 800, height: 600, naturalWidth: 1600, naturalHeight: 1200 }
+const viewport = { width: 1280, height: 800 }
+
+// Eight fixations spread over the picture (natural image pixels)
+const fixations = [
+  { x: 300, y: 250, durationMs: 400 },
+  { x: 1200, y: 300, durationMs: 300 },
+  { x: 800, y: 600, durationMs: 500 },
+  { x: 350, y: 950, durationMs: 350 },
+  { x: 1300, y: 1000, durationMs: 450 },
+  { x: 900, y: 200, durationMs: 300 },
+  { x: 500, y: 600, durationMs: 600 },
+  { x: 1400, y: 650, durationMs: 400 },
+]
+
+const ALGORITHMS = Object.keys(FIXATION_ALGORITHM_LABELS) as FixationAlgorithm[]
+// Detected fixations further than this from the true one (natural pixels) do not match it
+const MATCH_DISTANCE_PX = 100
+
+// Generate a scenario, map it to the picture and score one algorithm against the ground truth
+function runScenario(algorithm: FixationAlgorithm, scenario: Partial<SyntheticGazeScenario>) {
+  const session = generateSyntheticGaze({ fixations, imageBounds, seed: 7, ...scenario })
+  const mapped = session.gazePoints.map(point => webgazerManager.mapToImageCoordinates(point, imageBounds))
+  const params = resolveFixationParams({
+    algorithm,
+    pixelsPerDegree: computePixelsPerDegree({ displayedWidth: imageBounds.width, naturalWidth: imageBounds.naturalWidth })
+  })
+  const detected = detectFixations(mapped, params, session.gaps)
+  return { session, detected, score: scoreFixations(detected, session.groundTruth, MATCH_DISTANCE_PX) }
+}
+
+describe.each(ALGORITHMS)('%s fixation detection on synthetic gaze', (algorithm) => {
+  it('recovers every fixation exactly from a clean stream', () => {
+    const { score } = runScenario(algorithm, {})
+
+    expect(score.f1).toBe(1)
+    expect(score.meanPositionErrorPx).toBeLessThan(1)
+  })
+
+  it.each([1, 3, 11])('stays accurate with measurement noise (seed %i)', (seed) => {
+    const { score } = runScenario(algorithm, { noisePx: 4, seed })
+
+    expect(score.f1).toBeGreaterThanOrEqual(0.9)
+    expect(score.meanPositionErrorPx).toBeLessThan(8)
+  })
+
+  it('reports drift as position error without losing fixations', () => {
+    const drift = { x: 10, y: -6 }
+    const { session, score } = runScenario(algorithm, { noisePx: 4, drift })
+
+    // Drift at the middle of each fixation, scaled from viewport to natural pixels
+    const scale = imageBounds.naturalWidth / imageBounds.width
+    const expectedError = session.groundTruth.reduce((sum, truth) => {
+      const seconds = (truth.startTime + truth.duration / 2) / 1000
+      return sum + Math.hypot(drift.x, drift.y) * seconds * scale
+    }, 0) / session.groundTruth.length
+
+    expect(score.f1).toBe(1)
+    expect(score.meanPositionErrorPx!).toBeGreaterThan(expectedError * 0.75)
+    expect(score.meanPositionErrorPx!).toBeLessThan(expectedError * 1.25)
+  })
+
+  it('does not bridge blinks', () => {
+    const blinks = [{ startMs: 150, durationMs: 150 }, { startMs: 1500, durationMs: 200 }]
+    const { session, detected, score } = runScenario(algorithm, { noisePx: 4, blinks })
+
+    expect(session.gaps.map(gap => gap.type)).toEqual(['blink', 'blink'])
+    for (const fixation of detected) {
+      for (const gap of session.gaps) {
+        expect(fixation.startTime >= gap.endTime || fixation.startTime + fixation.duration <= gap.startTime).toBe(true)
+      }
+    }
+    expect(score.f1).toBeGreaterThanOrEqual(0.9)
+  })
+})
+
+describe('synthetic recordings', () => {
+  afterEach(() => {
+    webgazerManager.clearReplaySource()
+    vi.restoreAllMocks()
+  })
+
+  it('replay through webgazerManager with the generated samples and gaps', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const blinks = [{ startMs: 1500, durationMs: 200 }]
+    const session = generateSyntheticGaze({ fixations, imageBounds, noisePx: 4, blinks, startTimestamp: 5000 })
+    const recording = toSyntheticRecording(session, { fixations, imageBounds }, viewport)
+
+    webgazerManager.setReplaySource(recording, { speed: 0, imageBounds: recording.imageBounds })
+    await webgazerManager.initialize()
+    const replayStart = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(replayStart)
+    await webgazerManager.startTracking()
+    const collected = webgazerManager.stopTracking()
+
+    // Same samples on the replay clock, which starts when tracking starts
+    const offset = replayStart - session.samples[0].timestamp
+    expect(collected.map(p => ({ x: p.x, y: p.y, timestamp: p.timestamp - offset })))
+      .toEqual(session.gazePoints.map(p => ({ x: p.x, y: p.y, timestamp: p.timestamp })))
+    expect(webgazerManager.getGaps().map(gap => ({ ...gap, startTime: gap.startTime - offset, endTime: gap.endTime - offset })))
+      .toEqual(session.gaps)
+    expect(collected.every(p => p.quality === 'good')).toBe(true)
+  })
+
+  it('random scenarios fill the session with fixations on the picture', () => {
+    const scenario = createRandomScenario(imageBounds, { durationMs: 15000, seed: 42 })
+    const session = generateSyntheticGaze(scenario)
+    const last = session.groundTruth[session.groundTruth.length - 1]
+
+    expect(last.startTime + last.duration).toBeGreaterThanOrEqual(15000)
+    expect(scenario.blinks!.length).toBeGreaterThan(0)
+    for (const fixation of scenario.fixations) {
+      expect(fixation.x).toBeGreaterThan(0)
+      expect(fixation.x).toBeLessThan(imageBounds.naturalWidth)
+      expect(fixation.y).toBeGreaterThan(0)
+      expect(fixation.y).toBeLessThan(imageBounds.naturalHeight)
+    }
+    expect(generateSyntheticGaze(createRandomScenario(imageBounds, { durationMs: 15000, seed: 42 }))).toEqual(session)
+  })
+})
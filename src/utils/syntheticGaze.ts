@@ -0,0 +1,322 @@
+/**
+ * Synthetic Gaze
+ *
+ * Generates gaze streams with known ground truth from a scripted scenario, so the
+ * processing pipeline (coordinate mapping, fixation and saccade detection, heatmaps)
+ * can be checked and scored without a participant.
+ *
+ * A scenario lists fixations in natural image coordinates. The generator places the
+ * picture at `imageBounds` on screen and samples the eye position at a fixed rate:
+ * holding still during each fixation, moving between fixations with a minimum-jerk
+ * profile whose duration follows the saccadic main sequence, and closing during blinks.
+ * Measurement error (Gaussian noise and a slow linear drift) is then added on top, so
+ * the ground truth always describes where the eye really was.
+ *
+ * Output gaze points are viewport pixels, like those from `webgazerManager`; ground-truth
+ * fixations are natural image pixels, like those from `detectFixations` after mapping.
+ */
+
+import { GazePoint, ImageBounds } from './webgazerManager'
+import { Fixation, computePixelsPerDegree } from './fixationDetection'
+import { GazeGap, createGap } from './gazeGaps'
+import { GAZE_RECORDING_VERSION, GazeSessionRecording, RecordedGazeSample } from './gazeSessionRecording'
+import { HeadPose } from './headPose'
+
+export interface ScriptedFixation {
+  // Natural image pixels
+  x: number
+  y: number
+  durationMs: number
+}
+
+export interface ScriptedBlink {
+  // Milliseconds since the session started
+  startMs: number
+  durationMs: number
+}
+
+export interface SyntheticGazeScenario {
+  fixations: ScriptedFixation[]
+  // Where the picture is displayed, in viewport pixels
+  imageBounds: ImageBounds
+  samplingRateHz?: number
+  // Saccade duration = base + perDegree × amplitude (main sequence, Carpenter 1988)
+  saccadeBaseDurationMs?: number
+  saccadeDurationPerDegreeMs?: number
+  // Viewport pixels per degree of visual angle; defaults to the nominal 96 px/inch estimate
+  pixelsPerDegree?: number
+  // Standard deviation of the per-sample measurement noise, in viewport pixels
+  noisePx?: number
+  // Measurement drift accumulating over the session, in viewport pixels per second
+  drift?: { x: number; y: number }
+  blinks?: ScriptedBlink[]
+  // Timestamp of the first sample (defaults to 0)
+  startTimestamp?: number
+  // Seed for the noise, so the same scenario always produces the same stream
+  seed?: number
+  // Head pose held throughout, reported in recordings (defaults to facing the camera)
+  headPose?: HeadPose
+}
+
+export interface SyntheticGazeSession {
+  // Measured gaze in viewport pixels, without samples during blinks
+  gazePoints: GazePoint[]
+  // True fixations in natural image pixels, timed from when the eye landed
+  groundTruth: Fixation[]
+  gaps: GazeGap[]
+  // Every sample including closed-eye ones, for building a replayable recording
+  samples: Array<GazePoint & { eyesClosed: boolean }>
+}
+
+export interface FixationScore {
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number
+  recall: number
+  f1: number
+  // Averages over matched fixations (null when nothing matched)
+  meanPositionErrorPx: number | null
+  meanOnsetErrorMs: number | null
+  meanDurationErrorMs: number | null
+}
+
+const DEFAULT_SAMPLING_RATE_HZ = 30
+const DEFAULT_SACCADE_BASE_MS = 21
+const DEFAULT_SACCADE_PER_DEGREE_MS = 2.2
+const SYNTHETIC_CONFIDENCE = 0.9
+// Face mesh eye openness reported for open and closed eyes in recordings
+const OPEN_EYE_OPENNESS = 0.3
+const CLOSED_EYE_OPENNESS = 0.05
+const FRONTAL_HEAD_POSE: HeadPose = {
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  faceScale: 0.3,
+  centerX: 0.5,
+  centerY: 0.5,
+  faceInFrame: true,
+}
+
+// Small seeded PRNG (mulberry32) so generated sessions are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+// Minimum-jerk position profile: 0 at the start of the movement, 1 at the end
+const minimumJerk = (s: number) => s * s * s * (10 - 15 * s + 6 * s * s)
+
+/**
+ * Scenario with random fixations over the whole picture, lasting about `durationMs`, with
+ * some measurement noise and a blink every few seconds - a stand-in participant for trying
+ * the pipeline without a webcam.
+ */
+export function createRandomScenario(
+  imageBounds: ImageBounds,
+  options: { durationMs: number; seed?: number; noisePx?: number; headPose?: HeadPose }
+): SyntheticGazeScenario {
+  const random = createRandom(options.seed ?? 1)
+  const fixations: ScriptedFixation[] = []
+  let elapsed = 0
+  while (elapsed < options.durationMs) {
+    // Typical fixations on pictures last 200-600 ms; keep them off the outermost 5%
+    const fixation = {
+      x: imageBounds.naturalWidth * (0.05 + 0.9 * random()),
+      y: imageBounds.naturalHeight * (0.05 + 0.9 * random()),
+      durationMs: Math.round(200 + 400 * random()),
+    }
+    fixations.push(fixation)
+    // Saccades come on top, so the session lasts at least durationMs
+    elapsed += fixation.durationMs
+  }
+
+  const blinks: ScriptedBlink[] = []
+  for (let start = 2000 + 2000 * random(); start < options.durationMs - 500; start += 3000 + 2000 * random()) {
+    blinks.push({ startMs: Math.round(start), durationMs: Math.round(100 + 150 * random()) })
+  }
+
+  return {
+    fixations,
+    imageBounds,
+    noisePx: options.noisePx ?? 6,
+    blinks,
+    seed: options.seed,
+    headPose: options.headPose,
+  }
+}
+
+/**
+ * Generate a gaze session from a scenario.
+ */
+export function generateSyntheticGaze(scenario: SyntheticGazeScenario): SyntheticGazeSession {
+  const bounds = scenario.imageBounds
+  const scaleX = bounds.width / bounds.naturalWidth
+  const scaleY = bounds.height / bounds.naturalHeight
+  const toViewport = (f: ScriptedFixation) => ({ x: bounds.x + f.x * scaleX, y: bounds.y + f.y * scaleY })
+
+  const samplingRate = scenario.samplingRateHz ?? DEFAULT_SAMPLING_RATE_HZ
+  const pixelsPerDegree = scenario.pixelsPerDegree ??
+    computePixelsPerDegree({ displayedWidth: bounds.width, naturalWidth: bounds.width })
+  const saccadeBase = scenario.saccadeBaseDurationMs ?? DEFAULT_SACCADE_BASE_MS
+  const saccadePerDegree = scenario.saccadeDurationPerDegreeMs ?? DEFAULT_SACCADE_PER_DEGREE_MS
+  const startTimestamp = scenario.startTimestamp ?? 0
+
+  // Lay out the true eye movement: fixation, saccade, fixation, ...
+  type Segment = { startMs: number; endMs: number; from: { x: number; y: number }; to: { x: number; y: number } }
+  const segments: Segment[] = []
+  const groundTruth: Fixation[] = []
+  let clock = 0
+  scenario.fixations.forEach((fixation, index) => {
+    const position = toViewport(fixation)
+    if (index > 0) {
+      const previous = segments[segments.length - 1].to
+      const amplitudeDeg = Math.hypot(position.x - previous.x, position.y - previous.y) / pixelsPerDegree
+      const duration = saccadeBase + saccadePerDegree * amplitudeDeg
+      segments.push({ startMs: clock, endMs: clock + duration, from: previous, to: position })
+      clock += duration
+    }
+    segments.push({ startMs: clock, endMs: clock + fixation.durationMs, from: position, to: position })
+    groundTruth.push({ x: fixation.x, y: fixation.y, duration: fixation.durationMs, startTime: startTimestamp + clock })
+    clock += fixation.durationMs
+  })
+
+  const eyeAt = (ms: number) => {
+    const segment = segments.find(s => ms < s.endMs) ?? segments[segments.length - 1]
+    const span = segment.endMs - segment.startMs
+    const progress = span > 0 ? minimumJerk(Math.min(1, Math.max(0, (ms - segment.startMs) / span))) : 1
+    return {
+      x: segment.from.x + (segment.to.x - segment.from.x) * progress,
+      y: segment.from.y + (segment.to.y - segment.from.y) * progress,
+    }
+  }
+
+  const blinks = scenario.blinks ?? []
+  const isBlinking = (ms: number) => blinks.some(b => ms >= b.startMs && ms < b.startMs + b.durationMs)
+
+  const random = createRandom(scenario.seed ?? 1)
+  const noise = scenario.noisePx ?? 0
+  const drift = scenario.drift ?? { x: 0, y: 0 }
+  const samples: SyntheticGazeSession['samples'] = []
+  const interval = 1000 / samplingRate
+  for (let ms = 0; segments.length > 0 && ms < clock; ms += interval) {
+    const eye = eyeAt(ms)
+    samples.push({
+      x: eye.x + drift.x * ms / 1000 + noise * gaussian(random),
+      y: eye.y + drift.y * ms / 1000 + noise * gaussian(random),
+      timestamp: startTimestamp + Math.round(ms),
+      confidence: SYNTHETIC_CONFIDENCE,
+      eyesClosed: isBlinking(ms),
+    })
+  }
+
+  // Blink gaps run from the last open-eye sample to the first one after the blink
+  const gaps: GazeGap[] = []
+  let lastOpen: number | null = null
+  let closedSince: number | null = null
+  for (const sample of samples) {
+    if (sample.eyesClosed) {
+      if (closedSince === null) closedSince = lastOpen ?? sample.timestamp
+    } else {
+      if (closedSince !== null) gaps.push(createGap(closedSince, sample.timestamp, true))
+      closedSince = null
+      lastOpen = sample.timestamp
+    }
+  }
+  if (closedSince !== null && samples.length > 0) {
+    gaps.push(createGap(closedSince, samples[samples.length - 1].timestamp, true))
+  }
+
+  return {
+    gazePoints: samples.filter(s => !s.eyesClosed).map(({ eyesClosed, ...point }) => point),
+    groundTruth,
+    gaps,
+    samples,
+  }
+}
+
+/**
+ * Package a synthetic session as a recording that `webgazerManager` can replay.
+ */
+export function toSyntheticRecording(
+  session: SyntheticGazeSession,
+  scenario: SyntheticGazeScenario,
+  viewport: { width: number; height: number }
+): GazeSessionRecording {
+  const first = session.samples[0]?.timestamp ?? 0
+  const samples: RecordedGazeSample[] = session.samples.map(s => ({
+    t: s.timestamp - first,
+    x: s.x,
+    y: s.y,
+    confidence: s.confidence,
+    eyeOpenness: s.eyesClosed ? CLOSED_EYE_OPENNESS : OPEN_EYE_OPENNESS,
+    headPose: scenario.headPose ?? FRONTAL_HEAD_POSE,
+  }))
+  const { x, y, width, height } = scenario.imageBounds
+  return {
+    version: GAZE_RECORDING_VERSION,
+    source: 'synthetic',
+    recordedAt: first,
+    viewport,
+    imageBounds: { x, y, width, height },
+    samples,
+  }
+}
+
+/**
+ * Score detected fixations against the ground truth. Each true fixation is matched to the
+ * unmatched detected fixation overlapping it longest in time within `maxDistancePx`.
+ * Both lists are in natural image pixels.
+ */
+export function scoreFixations(detected: Fixation[], groundTruth: Fixation[], maxDistancePx: number): FixationScore {
+  const used = new Set<number>()
+  const matches: Array<{ truth: Fixation; found: Fixation }> = []
+
+  for (const truth of groundTruth) {
+    let best = -1
+    let bestOverlap = 0
+    detected.forEach((found, index) => {
+      if (used.has(index)) return
+      if (Math.hypot(found.x - truth.x, found.y - truth.y) > maxDistancePx) return
+      const overlap = Math.min(found.startTime + found.duration, truth.startTime + truth.duration) -
+        Math.max(found.startTime, truth.startTime)
+      if (overlap > bestOverlap) {
+        best = index
+        bestOverlap = overlap
+      }
+    })
+    if (best >= 0) {
+      used.add(best)
+      matches.push({ truth, found: detected[best] })
+    }
+  }
+
+  const truePositives = matches.length
+  const precision = detected.length > 0 ? truePositives / detected.length : 0
+  const recall = groundTruth.length > 0 ? truePositives / groundTruth.length : 0
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+  return {
+    truePositives,
+    falsePositives: detected.length - truePositives,
+    falseNegatives: groundTruth.length - truePositives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0,
+    meanPositionErrorPx: mean(matches.map(m => Math.hypot(m.found.x - m.truth.x, m.found.y - m.truth.y))),
+    meanOnsetErrorMs: mean(matches.map(m => Math.abs(m.found.startTime - m.truth.startTime))),
+    meanDurationErrorMs: mean(matches.map(m => Math.abs(m.found.duration - m.truth.duration))),
+  }
+}
@@ -2,12 +2,53 @@
 // This manages WebGazer outside of React's lifecycle to avoid conflicts
 
 import { EYE_TRACKING_EXPERIMENT } from '../constants'
+import {
+  CalibrationValidation,
+  ValidationPointResult,
+  ValidationSample,
+  ValidationTarget,
+  computeValidationPoint
+} from './calibrationValidation'
+import {
+  CalibrationGrid,
+  CalibrationLayout,
+  DEFAULT_CALIBRATION_LAYOUT,
+  generateCalibrationPoints
+} from './calibrationGrids'
+import {
+  DeviceFingerprint,
+  DeviceInfo,
+  FingerprintCheck,
+  ScreenInfo,
+  captureDeviceFingerprint,
+  compareDeviceFingerprints
+} from './deviceFingerprint'
+import {
+  HeadPose,
+  HeadPoseBaseline,
+  TrackingQuality,
+  assessHeadPose,
+  computeHeadPoseBaseline,
+  estimateEyeOpenness,
+  estimateHeadPose
+} from './headPose'
+import { GazeGap, createGap } from './gazeGaps'
+import { DEFAULT_GAZE_FILTER_SETTINGS, GazeFilter, GazeFilterSettings, createGazeFilter } from './gazeFilters'
+import {
+  GazeReplayProvider,
+  GazeSessionRecorder,
+  GazeSessionRecording,
+  RecordingRegion,
+  ReplayOptions
+} from './gazeSessionRecording'
 
 export interface GazePoint {
   x: number
   y: number
   timestamp: number
   confidence: number
+  // Head pose quality when the sample was recorded (see headPose.ts)
+  quality?: TrackingQuality
 }
 
 export interface CalibrationResult {
@@ -18,8 +59,33 @@ export interface CalibrationResult {
   lightingQuality?: 'good' | 'fair' | 'poor'
   eyeglassesDetected?: boolean
   cameraPositioning?: 'optimal' | 'suboptimal'
+  // Accuracy/precision measured on validation targets after the click calibration
+  validation?: CalibrationValidation
+  // Head pose held during calibration; later samples are compared against it
+  headPose?: HeadPoseBaseline
 }
 
+// Everything stored for a saved calibration (see convex/calibrations.ts)
+export interface CalibrationSnapshot {
+  regressionBeta: Array<number | number[]>
+  regressionWeights?: Array<number | number[]>
+  trainingData?: any
+  grid?: CalibrationGrid
+  isValid: boolean
+  pointsCollected: number
+  averageConfidence: number
+  validation?: CalibrationValidation
+  headPose?: HeadPoseBaseline
+  device: DeviceInfo
+  screen: ScreenInfo
+}
+
+// Saved calibration record the current model belongs to; the "webgazer" prefix means it is
+// cleared together with WebGazer's own storage
+const CALIBRATION_ID_STORAGE_KEY = 'webgazer_calibrationId'
+// Screen/camera setup the model in WebGazer's storage was trained on
+const FINGERPRINT_STORAGE_KEY = 'webgazer_fingerprint'
+
 export interface ImageBounds {
   x: number
   y: number
@@ -29,6 +95,19 @@ export interface ImageBounds {
   naturalHeight: number
 }
 
+// Layout a session's viewport gaze stream was mapped with (stored next to the raw stream)
+export interface GazeMappingContext {
+  imageBounds: ImageBounds
+  viewportWidth: number
+  viewportHeight: number
+  scrollX: number
+  scrollY: number
+  devicePixelRatio: number
+  calibrationDomain?: { minX: number; maxX: number; minY: number; maxY: number }
+  // Smoothing applied live; drift corrections are stored with the session's drift events
+  gazeFilter?: GazeFilterSettings
+}
+
 class WebGazerManager {
   private webgazer: any = null
   private isInitialized = false
@@ -36,28 +115,33 @@ class WebGazerManager {
   private gazeListeners: ((data: GazePoint) => void)[] = []
   private calibrationData: GazePoint[] = []
   private experimentData: GazePoint[] = []
+  private rawExperimentData: GazePoint[] = [] // experimentData before our smoothing and drift correction
   private isCalibrating = false
   private isTracking = false
   private currentGazePoint: GazePoint | null = null
   private debugMode = false
   private isPaused = false
   private lastCalibrationResult: CalibrationResult | null = null
-  private kalmanFilterEnabled = true // Default to enabled
+  private kalmanFilterEnabled = DEFAULT_GAZE_FILTER_SETTINGS.mode === 'kalman'
   private shouldClearStorageOnInit = false // Flag to clear storage before next initialization
   private calibrationJustCleared = false // Flag to indicate calibration was just cleared
-  
-  // ============================================================================
-  // FACTORED OUT: Custom Exponential Smoothing (can be re-enabled if needed)
-  // ============================================================================
-  // The following smoothing code has been disabled in favor of WebGazer's
-  // built-in Kalman filter. To re-enable, uncomment the smoothing logic
-  // in the setGazeListener callback and restore these properties:
-  //
-  // private smoothedGazePoint: { x: number; y: number } | null = null
-  // private smoothingAlpha = 0.3 // Exponential moving average coefficient (0-1), lower = more smoothing
-  //
-  // See the commented section in setGazeListener for the smoothing implementation.
-  // ============================================================================
+  private calibrationGrid: CalibrationGrid | null = null // Layout used for the last point-based calibration
+  private driftCorrection = { x: 0, y: 0 } // Offset subtracted from gaze samples after a drift check
+  private isRecordingPaused = false // Drift checks pause session recording
+  private calibrationPoses: HeadPose[] = [] // Head poses sampled during calibration
+  private headPoseBaseline: HeadPoseBaseline | null = null // Pose the current model was calibrated at
+  private lastGazeTimestamp = 0 // WebGazer stops predicting while no face is detected
+  private gaps: GazeGap[] = [] // Blinks and track loss during the session
+  private lastRecordedTimestamp: number | null = null // Last sample added to experimentData
+  private eyesClosedSince: number | null = null // Start of the current eye closure
+  private lastHeadPose: HeadPose | null = null // Head pose of the latest prediction
+  private sessionRecorder: GazeSessionRecorder | null = null // Captures predictions for offline replay
+  private replayProvider: GazeReplayProvider | null = null // Replaces WebGazer as the prediction source
+  private filterSettings: GazeFilterSettings = { ...DEFAULT_GAZE_FILTER_SETTINGS } // Smoothing stage (see gazeFilters.ts)
+  // EMA / One Euro filter; null for none and for WebGazer's Kalman, which runs inside WebGazer
+  private liveFilter: GazeFilter | null = DEFAULT_GAZE_FILTER_SETTINGS.mode === 'kalman'
+    ? null
+    : createGazeFilter(DEFAULT_GAZE_FILTER_SETTINGS)
 
   // Clear all WebGazer storage (called before initialization to prevent loading old data)
   private async clearAllWebGazerStorage(): Promise<void> {
@@ -136,6 +220,13 @@ class WebGazerManager {
       return
     }
 
+    // Replays need neither the webcam nor WebGazer
+    if (this.replayProvider) {
+      this.isInitialized = true
+      console.log('📼 [WebGazerManager] Initialized for replay (no webcam)')
+      return
+    }
+
     this.isInitializing = true
     console.log('🚀 [WebGazerManager] Starting initialization...')
 
@@ -192,86 +283,25 @@ class WebGazerManager {
         .applyKalmanFilter(this.kalmanFilterEnabled) // Use configured Kalman filter setting
         .setGazeListener((data: any, clock: any) => {
           if (data && data.x !== undefined && data.y !== undefined) {
-            // WebGazer's Kalman filter is already applied to data.x and data.y
-            // No additional custom smoothing needed - relying on WebGazer's filter only
-            
-            // ============================================================================
-            // FACTORED OUT: Custom Exponential Smoothing (can be re-enabled if needed)
-            // ============================================================================
-            // To re-enable custom smoothing on top of Kalman filter, uncomment below:
-            //
-            // let smoothedX = data.x
-            // let smoothedY = data.y
-            // 
-            // // Detect large movements (user actually moved eyes, not drift)
-            // const largeMovementThreshold = 100 // pixels
-            // let shouldResetSmoothing = false
-            // 
-            // if (this.smoothedGazePoint) {
-            //   const movementDistance = Math.sqrt(
-            //     Math.pow(data.x - this.smoothedGazePoint.x, 2) + 
-            //     Math.pow(data.y - this.smoothedGazePoint.y, 2)
-            //   )
-            //   
-            //   if (movementDistance > largeMovementThreshold) {
-            //     shouldResetSmoothing = true
-            //     console.log(`🔄 [WebGazerManager] Large movement detected (${Math.round(movementDistance)}px), resetting smoothing`)
-            //   } else {
-            //     smoothedX = this.smoothingAlpha * data.x + (1 - this.smoothingAlpha) * this.smoothedGazePoint.x
-            //     smoothedY = this.smoothingAlpha * data.y + (1 - this.smoothingAlpha) * this.smoothedGazePoint.y
-            //   }
-            // }
-            // 
-            // if (shouldResetSmoothing || !this.smoothedGazePoint) {
-            //   this.smoothedGazePoint = { x: data.x, y: data.y }
-            //   smoothedX = data.x
-            //   smoothedY = data.y
-            // } else {
-            //   this.smoothedGazePoint = { x: smoothedX, y: smoothedY }
-            // }
-            // ============================================================================
+            // WebGazer's Kalman filter is already applied to data.x and data.y when the filter
+            // mode is 'kalman'; the other smoothing modes run in handlePrediction
             
-            // IMPORTANT: data.x and data.y are raw WebGazer coordinates (Kalman-filtered but not clamped)
+            // IMPORTANT: data.x and data.y are raw WebGazer coordinates (not clamped)
             // These coordinates are typically viewport-relative but CAN exceed viewport bounds due to:
             // - Calibration inaccuracy
             // - User looking outside viewport
             // - Model extrapolation beyond calibration range
             // They will be mapped/clamped later in mapWebgazerToViewport() and mapToImageCoordinates()
-            const gazePoint: GazePoint = {
-              x: data.x, // Raw WebGazer coordinate (may exceed viewport bounds)
-              y: data.y, // Raw WebGazer coordinate (may exceed viewport bounds)
-              timestamp: Date.now(),
-              confidence: data.confidence || 0.5
-            }
-
-            this.currentGazePoint = gazePoint
-
-            // Collect calibration data if calibrating
-            if (this.isCalibrating) {
-              this.calibrationData.push(gazePoint)
-              // console.log(`🔍 [WebGazerManager] Calibration point #${this.calibrationData.length}: (${Math.round(data.x)}, ${Math.round(data.y)})`)
-            }
-
-            // Collect experiment data if tracking
-            if (this.isTracking) {
-              this.experimentData.push(gazePoint)
-              
-              // Enhanced logging: show raw WebGazer coordinates with viewport context
-              const viewportWidth = window.innerWidth
-              const viewportHeight = window.innerHeight
-              const isWithinViewport = data.x >= 0 && data.x <= viewportWidth && 
-                                      data.y >= 0 && data.y <= viewportHeight
-              const outOfBounds = !isWithinViewport
-              
-              if (outOfBounds) {
-                console.warn(`👁️ [WebGazerManager] Gaze point #${this.experimentData.length} OUT OF BOUNDS: (${Math.round(data.x)}, ${Math.round(data.y)}) | Viewport: ${viewportWidth}x${viewportHeight} | Raw WebGazer coordinates may exceed viewport bounds`)
-              } else {
-                console.log(`👁️ [WebGazerManager] Gaze point #${this.experimentData.length}: (${Math.round(data.x)}, ${Math.round(data.y)})`)
-              }
-            }
-
-            // Notify all listeners with Kalman-filtered data
-            this.gazeListeners.forEach(listener => listener(gazePoint))
+            // Live predictions are ignored while a recorded session is replayed
+            if (this.replayProvider) return
+
+            const landmarks = this.readFaceLandmarks()
+            this.handlePrediction(
+              { x: data.x, y: data.y, confidence: data.confidence || 0.5 },
+              landmarks ? estimateHeadPose(landmarks.positions, landmarks.frame) : null,
+              landmarks ? estimateEyeOpenness(landmarks.positions) : null,
+              Date.now()
+            )
           }
         })
         .saveDataAcrossSessions(true)
@@ -459,15 +489,21 @@ class WebGazerManager {
     console.log('🖱️ [WebGazerManager] Mouse tracking remains disabled to prevent model recalculation')
   }
 
-  // Start point-based calibration (9-point grid - recommended)
-  async startPointBasedCalibration(): Promise<{ points: Array<{ x: number; y: number }> }> {
+  // Start point-based calibration (9-point grid by default)
+  async startPointBasedCalibration(
+    layout: CalibrationLayout = DEFAULT_CALIBRATION_LAYOUT
+  ): Promise<{ points: Array<{ x: number; y: number }>; grid: CalibrationGrid }> {
     if (!this.isInitialized) {
       await this.initialize()
     }
 
-    console.log('🎯 [WebGazerManager] Starting point-based calibration (9-point grid)...')
+    console.log('🎯 [WebGazerManager] Starting point-based calibration:', layout)
     this.isCalibrating = true
     this.calibrationData = []
+    this.calibrationPoses = []
+    // A new model is trained, so it no longer matches any saved calibration
+    this.setCalibrationId(null)
+    this.storeFingerprint(this.getDeviceFingerprint())
 
     // Disable saveDataAcrossSessions during calibration to avoid blocking IndexedDB writes on each click
     // Will be re-enabled right before the final click to save calibration data
@@ -495,34 +531,17 @@ class WebGazerManager {
       this.webgazer.params.showFaceFeedbackBox = this.debugMode
     }
 
-    // Generate 9-point grid (3x3) + 1 center point (10 total)
-    // Points are positioned at: left(0%), center(50%), right(100%) for both axes
-    const margin = 50 // Margin from viewport edges
-    const viewportWidth = window.innerWidth
-    const viewportHeight = window.innerHeight
-    const availableWidth = viewportWidth - (margin * 2)
-    const availableHeight = viewportHeight - (margin * 2)
-
-    const points: Array<{ x: number; y: number }> = []
-    for (let row = 0; row < 3; row++) {
-      for (let col = 0; col < 3; col++) {
-        // Position at 0%, 50%, or 100% of available space
-        const xPercent = col === 0 ? 0 : col === 1 ? 0.5 : 1
-        const yPercent = row === 0 ? 0 : row === 1 ? 0.5 : 1
-        const x = margin + (availableWidth * xPercent)
-        const y = margin + (availableHeight * yPercent)
-        points.push({ x, y })
-      }
-    }
-    
-    // Note: Center point is already included in the 3x3 grid at row 1, col 1 (point 5, 0-indexed: 4)
+    // Place the layout's points in viewport pixels (presets keep a margin from the viewport edges)
+    const grid = generateCalibrationPoints(layout, { width: window.innerWidth, height: window.innerHeight })
+    const points = grid.points
+    this.calibrationGrid = grid
 
     // Mouse tracking is disabled to prevent the regression model from being recalculated
     // The calibration model remains frozen and stable
     console.log('🖱️ [WebGazerManager] Mouse tracking disabled - model will remain frozen during calibration')
 
-    console.log('📐 [WebGazerManager] Generated 9-point calibration grid (3x3, center is point 5):', points)
-    return { points }
+    console.log(`📐 [WebGazerManager] Generated ${grid.label} calibration grid:`, points)
+    return { points, grid }
   }
 
   // Note: We no longer manually record clicks - WebGazer learns naturally from user clicks
@@ -549,8 +568,23 @@ class WebGazerManager {
     return lowConfidenceRatio > 0.6
   }
 
-  // Check camera positioning based on gaze point distribution
+  // Check camera positioning from the face mesh: the face should be fully in frame, roughly
+  // centered and facing the camera. Falls back to gaze point spread without face data
   private checkCameraPositioning(): 'optimal' | 'suboptimal' {
+    if (this.calibrationPoses.length > 0) {
+      const outOfFrame = this.calibrationPoses.filter(pose => !pose.faceInFrame).length
+      const baseline = computeHeadPoseBaseline(this.calibrationPoses)!
+      const meanCenterX = this.calibrationPoses.reduce((sum, pose) => sum + pose.centerX, 0) / this.calibrationPoses.length
+      const meanCenterY = this.calibrationPoses.reduce((sum, pose) => sum + pose.centerY, 0) / this.calibrationPoses.length
+
+      const isFramed = outOfFrame / this.calibrationPoses.length < 0.2
+      const isCentered = Math.abs(meanCenterX - 0.5) < 0.25 && Math.abs(meanCenterY - 0.5) < 0.25
+      const isFacingCamera = Math.abs(baseline.yaw) <= EYE_TRACKING_EXPERIMENT.HEAD_POSE_MAX_YAW_DEG &&
+                             Math.abs(baseline.pitch) <= EYE_TRACKING_EXPERIMENT.HEAD_POSE_MAX_PITCH_DEG
+
+      return isFramed && isCentered && isFacingCamera ? 'optimal' : 'suboptimal'
+    }
+
     if (this.calibrationData.length < 5) return 'suboptimal'
     
     // Calculate gaze point distribution
@@ -635,6 +669,7 @@ class WebGazerManager {
     const lightingQuality = this.analyzeLightingQuality(averageConfidence)
     const eyeglassesDetected = this.detectEyeglassesIssues()
     const cameraPositioning = this.checkCameraPositioning()
+    this.headPoseBaseline = computeHeadPoseBaseline(this.calibrationPoses)
 
     const result: CalibrationResult = {
       isValid,
@@ -643,6 +678,7 @@ class WebGazerManager {
       lightingQuality,
       eyeglassesDetected,
       cameraPositioning,
+      ...(this.headPoseBaseline ? { headPose: this.headPoseBaseline } : {}),
       errorMessage: !isValid ? 
         (!hasValidPoints ? 'Not enough gaze points collected (need at least 20)' :
          !hasGoodConfidence ? 'Low confidence in gaze detection (need >30%)' :
@@ -715,6 +751,233 @@ class WebGazerManager {
     return result
   }
 
+  // Measure accuracy and precision at one validation target
+  // The caller displays the target; samples only count after the eyes had time to settle
+  async measureValidationTarget(target: ValidationTarget): Promise<ValidationPointResult> {
+    await new Promise(resolve => setTimeout(resolve, EYE_TRACKING_EXPERIMENT.VALIDATION_SETTLE_MS))
+
+    const samples: ValidationSample[] = []
+    const listener = (data: GazePoint) => {
+      samples.push({ x: data.x, y: data.y, timestamp: data.timestamp })
+    }
+    this.addGazeListener(listener)
+    await new Promise(resolve => setTimeout(resolve, EYE_TRACKING_EXPERIMENT.VALIDATION_SAMPLE_MS))
+    this.removeGazeListener(listener)
+
+    const result = computeValidationPoint(target, samples)
+    console.log('🎯 [WebGazerManager] Validation target measured:', result)
+    return result
+  }
+
+  // Attach validation results to the last calibration result
+  // A failed validation fails the calibration, whatever the click calibration reported
+  applyValidation(validation: CalibrationValidation): CalibrationResult {
+    const base: CalibrationResult = this.lastCalibrationResult || {
+      isValid: true,
+      pointsCollected: this.calibrationData.length,
+      averageConfidence: 0
+    }
+
+    const result: CalibrationResult = {
+      ...base,
+      validation,
+      isValid: base.isValid && validation.passed,
+      errorMessage: base.errorMessage || validation.failureReason
+    }
+
+    // Stored with the calibration, so extractCalibrationData() saves the validation too
+    this.lastCalibrationResult = result
+    console.log('📊 [WebGazerManager] Calibration validation:', validation)
+    return result
+  }
+
+  // Pause/resume recording session samples (e.g. while a drift check target is shown)
+  setRecordingPaused(paused: boolean): void {
+    // The paused interval itself is not a gap: recording resumes from a fresh reference
+    if (paused && !this.isRecordingPaused) this.closeOpenGap()
+    this.isRecordingPaused = paused
+  }
+
+  // Set the offset subtracted from every later gaze sample
+  setDriftCorrection(correction: { x: number; y: number }): void {
+    this.driftCorrection = { ...correction }
+    console.log('🧭 [WebGazerManager] Drift correction set to:', this.driftCorrection)
+  }
+
+  getDriftCorrection(): { x: number; y: number } {
+    return { ...this.driftCorrection }
+  }
+
+  // Add a training sample for a screen position the participant is looking at and clicked
+  // Used by the quick recalibration, where WebGazer's own click listener is already disabled
+  recordCalibrationClick(x: number, y: number): void {
+    if (!this.webgazer) return
+    if (typeof this.webgazer.recordScreenPosition === 'function') {
+      this.webgazer.recordScreenPosition(x, y, 'click')
+    } else {
+      console.warn('⚠️ [WebGazerManager] recordScreenPosition not available - click not recorded')
+    }
+  }
+  // TFFacemesh landmarks of the latest video frame, with the frame size they refer to
+  private readFaceLandmarks(): { positions: number[][]; frame: { width: number; height: number } } | null {
+    const tracker = this.webgazer?.getTracker?.()
+    const positions = tracker?.getPositions?.()
+    const videoElement = document.getElementById('webgazerVideoFeed') as HTMLVideoElement | null
+    if (!positions || !videoElement) return null
+    return { positions, frame: { width: videoElement.videoWidth, height: videoElement.videoHeight } }
+  }
+
+  // Process one prediction - live from WebGazer or replayed from a recording. Positions are raw
+  // viewport coordinates; drift correction, gaps and head pose flags are applied here
+  private handlePrediction(
+    data: { x: number; y: number; confidence: number },
+    headPose: HeadPose | null,
+    eyeOpenness: number | null,
+    timestamp: number
+  ): void {
+    const eyesClosed = eyeOpenness !== null && eyeOpenness < EYE_TRACKING_EXPERIMENT.BLINK_EYE_OPENNESS_THRESHOLD
+
+    // Smoothing restarts after blinks and lost faces so it does not pull in stale positions
+    if (eyesClosed || timestamp - this.lastGazeTimestamp > EYE_TRACKING_EXPERIMENT.GAP_MIN_MS) {
+      this.liveFilter?.reset()
+    }
+    const smoothed = this.liveFilter && !eyesClosed ? this.liveFilter.filter(data.x, data.y, timestamp) : data
+
+    // Drift correction (zero unless a drift check measured an offset this session)
+    const gazePoint: GazePoint = {
+      x: smoothed.x - this.driftCorrection.x, // Raw WebGazer coordinate (may exceed viewport bounds)
+      y: smoothed.y - this.driftCorrection.y, // Raw WebGazer coordinate (may exceed viewport bounds)
+      timestamp,
+      confidence: data.confidence,
+      quality: assessHeadPose(headPose, this.headPoseBaseline)
+    }
+
+    this.currentGazePoint = gazePoint
+    this.lastGazeTimestamp = gazePoint.timestamp
+    this.lastHeadPose = headPose
+    this.sessionRecorder?.addSample({ x: data.x, y: data.y, confidence: data.confidence, eyeOpenness, headPose }, timestamp)
+
+    // Collect calibration data if calibrating
+    if (this.isCalibrating) {
+      this.calibrationData.push(gazePoint)
+      if (headPose) this.calibrationPoses.push(headPose)
+      // console.log(`🔍 [WebGazerManager] Calibration point #${this.calibrationData.length}: (${Math.round(data.x)}, ${Math.round(data.y)})`)
+    }
+
+    // Collect experiment data if tracking (samples recorded with closed eyes are dropped)
+    if (this.isTracking && !this.isRecordingPaused && this.recordGapsBefore(gazePoint.timestamp, eyesClosed)) {
+      this.experimentData.push(gazePoint)
+      this.rawExperimentData.push({ ...gazePoint, x: data.x, y: data.y })
+      
+      // Enhanced logging: show raw WebGazer coordinates with viewport context
+      const viewportWidth = window.innerWidth
+      const viewportHeight = window.innerHeight
+      const isWithinViewport = data.x >= 0 && data.x <= viewportWidth && 
+                              data.y >= 0 && data.y <= viewportHeight
+      const outOfBounds = !isWithinViewport
+      
+      if (outOfBounds) {
+        console.warn(`👁️ [WebGazerManager] Gaze point #${this.experimentData.length} OUT OF BOUNDS: (${Math.round(data.x)}, ${Math.round(data.y)}) | Viewport: ${viewportWidth}x${viewportHeight} | Raw WebGazer coordinates may exceed viewport bounds`)
+      } else {
+        console.log(`👁️ [WebGazerManager] Gaze point #${this.experimentData.length}: (${Math.round(data.x)}, ${Math.round(data.y)})`)
+      }
+    }
+
+    // Notify all listeners with smoothed data
+    this.gazeListeners.forEach(listener => listener(gazePoint))
+  }
+
+  // Log blinks and track loss before a new sample. Returns false while the eyes are closed,
+  // in which case the sample should not be recorded
+  private recordGapsBefore(timestamp: number, eyesClosed: boolean): boolean {
+    if (eyesClosed) {
+      if (this.eyesClosedSince === null) this.eyesClosedSince = this.lastRecordedTimestamp ?? timestamp
+      return false
+    }
+
+    if (this.eyesClosedSince !== null) {
+      this.gaps.push(createGap(this.eyesClosedSince, timestamp, true))
+      this.eyesClosedSince = null
+    } else if (this.lastRecordedTimestamp !== null &&
+               timestamp - this.lastRecordedTimestamp > EYE_TRACKING_EXPERIMENT.GAP_MIN_MS) {
+      this.gaps.push(createGap(this.lastRecordedTimestamp, timestamp, false))
+    }
+    this.lastRecordedTimestamp = timestamp
+    return true
+  }
+
+  // Close a gap still open when recording pauses or stops
+  private closeOpenGap(): void {
+    const now = this.now()
+    if (this.eyesClosedSince !== null) {
+      this.gaps.push(createGap(this.eyesClosedSince, now, true))
+    } else if (this.lastRecordedTimestamp !== null && now - this.lastRecordedTimestamp > EYE_TRACKING_EXPERIMENT.GAP_MIN_MS) {
+      this.gaps.push(createGap(this.lastRecordedTimestamp, now, false))
+    }
+    this.eyesClosedSince = null
+    this.lastRecordedTimestamp = null
+  }
+
+  // Blinks and track loss recorded in the current (or last) session
+  getGaps(): GazeGap[] {
+    return [...this.gaps]
+  }
+
+  // Current head pose and its quality flag, for live warnings. Without a recent prediction the
+  // face is treated as lost, since the tracker keeps its last landmarks
+  getTrackingQuality(): { quality: TrackingQuality; pose: HeadPose | null } {
+    if (this.now() - this.lastGazeTimestamp > EYE_TRACKING_EXPERIMENT.HEAD_POSE_WARNING_DELAY_MS) {
+      return { quality: 'no-face', pose: null }
+    }
+    return { quality: assessHeadPose(this.lastHeadPose, this.headPoseBaseline), pose: this.lastHeadPose }
+  }
+
+  getHeadPoseBaseline(): HeadPoseBaseline | null {
+    return this.headPoseBaseline
+  }
+
+  // Clock of the prediction source: the replay clock while replaying, otherwise wall time
+  private now(): number {
+    return this.replayProvider ? this.replayProvider.now() : Date.now()
+  }
+
+  // Start capturing the raw prediction stream (see gazeSessionRecording.ts)
+  startSessionRecording(): void {
+    this.sessionRecorder = new GazeSessionRecorder()
+  }
+
+  // Stop capturing and return the recording (null if none was started)
+  stopSessionRecording(imageBounds?: RecordingRegion): GazeSessionRecording | null {
+    if (!this.sessionRecorder) return null
+    const recording = this.sessionRecorder.finish({
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      imageBounds
+    })
+    this.sessionRecorder = null
+    return recording
+  }
+
+  // Feed a recorded or synthetic session instead of the webcam. Playback starts with
+  // startTracking() and goes through the same path as live predictions
+  setReplaySource(recording: GazeSessionRecording, options: ReplayOptions = {}): void {
+    this.replayProvider?.stop()
+    this.replayProvider = new GazeReplayProvider(recording, options)
+    console.log(`📼 [WebGazerManager] Replay source set: ${recording.samples.length} samples (${recording.source})`)
+  }
+
+  clearReplaySource(): void {
+    if (!this.replayProvider) return
+    this.replayProvider.stop()
+    this.replayProvider = null
+    // A replay-only initialization has no WebGazer to fall back to
+    if (!this.webgazer) this.isInitialized = false
+  }
+
+  isReplaying(): boolean {
+    return this.replayProvider !== null
+  }
+
+
   // Resume WebGazer if it was paused
   private async resumeIfPaused(): Promise<void> {
     if (this.isPaused && this.webgazer) {
@@ -834,7 +1097,8 @@ class WebGazerManager {
     
     // CRITICAL: Verify calibration coefficients are loaded before tracking
     // This ensures we're using the same coefficients created during calibration
-    const hasCoefficients = this.verifyCalibrationCoefficients()
+    // (replayed predictions were already produced by a calibrated model)
+    const hasCoefficients = this.replayProvider !== null || this.verifyCalibrationCoefficients()
     if (!hasCoefficients) {
       console.error('❌ [WebGazerManager] WARNING: Starting tracking without calibration coefficients!')
       console.error('   The experiment screen may not be using the same calibration as the calibration screen.')
@@ -843,7 +1107,13 @@ class WebGazerManager {
     
     this.isTracking = true
     this.experimentData = []
-    // Note: Custom smoothing is disabled - using WebGazer's Kalman filter only
+    this.rawExperimentData = []
+    this.driftCorrection = { x: 0, y: 0 }
+    this.isRecordingPaused = false
+    this.gaps = []
+    this.lastRecordedTimestamp = null
+    this.eyesClosedSince = null
+    this.resetSmoothing()
 
     // Ensure mouse tracking is disabled to prevent drift
     // The model should be frozen at calibration state
@@ -889,17 +1159,32 @@ class WebGazerManager {
         console.warn('⚠️ [WebGazerManager] No active video stream detected after resume - tracking may not work')
       }
     }
+
+    // Replays start delivering predictions once tracking is set up
+    this.replayProvider?.start((sample, timestamp) => {
+      this.handlePrediction(sample, sample.headPose, sample.eyeOpenness, timestamp)
+    })
   }
 
   // Stop tracking
   stopTracking(): GazePoint[] {
     console.log('🛑 [WebGazerManager] Stopping tracking...')
+    if (this.isTracking && !this.isRecordingPaused) this.closeOpenGap()
+    this.replayProvider?.stop()
     this.isTracking = false
+    this.isRecordingPaused = false
     const data = [...this.experimentData]
     console.log(`📊 [WebGazerManager] Collected ${data.length} gaze points`)
     return data
   }
 
+  // Samples of the last session as WebGazer delivered them, one per collected gaze point. The
+  // EMA and One Euro filters and drift correction are not applied; WebGazer's own Kalman filter
+  // is, when it is the selected filter
+  getRawExperimentData(): GazePoint[] {
+    return [...this.rawExperimentData]
+  }
+
   // Add gaze listener
   addGazeListener(listener: (data: GazePoint) => void): void {
     this.gazeListeners.push(listener)
@@ -1029,33 +1314,38 @@ class WebGazerManager {
     }
   }
 
-  // ============================================================================
-  // FACTORED OUT: Custom Smoothing Methods (disabled - using WebGazer's Kalman filter)
-  // ============================================================================
-  // These methods are kept for backward compatibility but are no-ops.
-  // To re-enable custom smoothing, restore the smoothing state properties
-  // and uncomment the smoothing logic in setGazeListener.
-  // ============================================================================
-  
-  // Set smoothing coefficient (0-1, lower = more smoothing/inertia)
-  // DISABLED: Using WebGazer's Kalman filter instead
+  // Select the smoothing stage. 'kalman' switches WebGazer's own filter on; every other
+  // mode switches it off so predictions reach the custom filter unsmoothed
+  async setFilterSettings(settings: Partial<GazeFilterSettings>): Promise<void> {
+    this.filterSettings = { ...this.filterSettings, ...settings }
+    this.liveFilter = this.filterSettings.mode === 'kalman' ? null : createGazeFilter(this.filterSettings)
+    console.log(`🔧 [WebGazerManager] Gaze filter set to ${this.filterSettings.mode}`)
+
+    const useKalman = this.filterSettings.mode === 'kalman'
+    if (useKalman !== this.kalmanFilterEnabled) {
+      await this.setKalmanFilter(useKalman)
+    }
+  }
+
+  getFilterSettings(): GazeFilterSettings {
+    return { ...this.filterSettings }
+  }
+
+  // Set smoothing coefficient (0-1, lower = more smoothing/inertia) and switch to the moving average
   setSmoothingAlpha(alpha: number): void {
-    // this.smoothingAlpha = Math.max(0, Math.min(1, alpha))
-    console.log(`🔧 [WebGazerManager] Smoothing alpha setter called (${alpha}), but custom smoothing is disabled. Using WebGazer's Kalman filter.`)
+    this.setFilterSettings({ mode: 'ema', emaAlpha: Math.max(0, Math.min(1, alpha)) }).catch(error => {
+      console.error('❌ [WebGazerManager] Failed to switch to moving average smoothing:', error)
+    })
   }
 
-  // Get smoothing coefficient
-  // DISABLED: Using WebGazer's Kalman filter instead
+  // Get smoothing coefficient (1.0 when the moving average is not in use)
   getSmoothingAlpha(): number {
-    // return this.smoothingAlpha
-    return 1.0 // Return 1.0 to indicate no custom smoothing is applied
+    return this.filterSettings.mode === 'ema' ? this.filterSettings.emaAlpha : 1.0
   }
 
   // Reset smoothing state (useful when starting new calibration or tracking)
-  // DISABLED: Using WebGazer's Kalman filter instead
   resetSmoothing(): void {
-    // this.smoothedGazePoint = null
-    console.log('🔄 [WebGazerManager] Reset smoothing called, but custom smoothing is disabled. Using WebGazer\'s Kalman filter.')
+    this.liveFilter?.reset()
   }
 
   // Compute a domain (min/max) for an array of gaze points
@@ -1195,8 +1485,23 @@ class WebGazerManager {
     }
   }
 
-  // Validate gaze data quality
-  validateGazeData(gazePoints: GazePoint[]): {
+  // Capture the current layout for mapping with the given image bounds
+  getMappingContext(imageBounds: ImageBounds): GazeMappingContext {
+    const calibrationDomain = this.getCalibrationDomain()
+    return {
+      imageBounds,
+      viewportWidth: window.innerWidth,
+      viewportHeight: window.innerHeight,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      devicePixelRatio: window.devicePixelRatio,
+      ...(calibrationDomain ? { calibrationDomain } : {}),
+      gazeFilter: this.getFilterSettings()
+    }
+  }
+
+  // Validate gaze data quality. Samples inside a blink or track-loss gap are dropped
+  validateGazeData(gazePoints: GazePoint[], gaps: GazeGap[] = []): {
     isValid: boolean
     validPoints: GazePoint[]
     issues: string[]
@@ -1215,6 +1520,9 @@ class WebGazerManager {
         // Skip only very low confidence points
         return
       }
+      if (gaps.some(gap => point.timestamp > gap.startTime && point.timestamp < gap.endTime)) {
+        return
+      }
       
       validPoints.push(point)
     })
@@ -1237,6 +1545,16 @@ class WebGazerManager {
     if (xRange < 20 || yRange < 20) {
       issues.push('Poor gaze point distribution - user may not have looked around enough')
     }
+
+    // Sessions mostly spent with closed eyes or without a detected face
+    if (gaps.length > 0) {
+      const timestamps = gazePoints.map(p => p.timestamp)
+      const spanMs = Math.max(...timestamps, ...gaps.map(g => g.endTime)) - Math.min(...timestamps, ...gaps.map(g => g.startTime))
+      const gapMs = gaps.reduce((sum, gap) => sum + gap.duration, 0)
+      if (spanMs > 0 && gapMs / spanMs > EYE_TRACKING_EXPERIMENT.GAP_MAX_FRACTION) {
+        issues.push(`Tracking lost for ${(gapMs / spanMs * 100).toFixed(0)}% of the session`)
+      }
+    }
     
     return {
       isValid: issues.length === 0,
@@ -1448,6 +1766,11 @@ class WebGazerManager {
     return this.lastCalibrationResult
   }
 
+  // Get the layout used for the last point-based calibration
+  getCalibrationGrid(): CalibrationGrid | null {
+    return this.calibrationGrid
+  }
+
   // Extract calibration data from WebGazer for saving to database
   extractCalibrationData(): any | null {
     if (!this.webgazer) return null
@@ -1479,6 +1802,14 @@ class WebGazerManager {
     if (this.lastCalibrationResult) {
       calibrationData.result = this.lastCalibrationResult
     }
+
+    // Record which layout was used, to correlate grid choice with accuracy
+    if (this.calibrationGrid) {
+      calibrationData.grid = this.calibrationGrid
+    }
+
+    // Record the setup the model was trained on, so restores on other hardware can be refused
+    calibrationData.fingerprint = this.getStoredFingerprint() ?? this.getDeviceFingerprint()
     
     // Only return if we have actual calibration data
     if (calibrationData.regressionBeta && calibrationData.regressionBeta.length > 0) {
@@ -1494,9 +1825,89 @@ class WebGazerManager {
     return null
   }
 
-  // Restore calibration data to WebGazer from database
-  async restoreCalibrationData(calibrationData: any): Promise<boolean> {
+  // Current screen, window and webcam (the camera label is known once the webcam is running)
+  getDeviceFingerprint(): DeviceFingerprint {
+    const videoElement = document.getElementById('webgazerVideoFeed') as HTMLVideoElement | null
+    const stream = videoElement?.srcObject as MediaStream | null
+    return captureDeviceFingerprint(stream?.getVideoTracks()[0]?.label || undefined)
+  }
+
+  private storeFingerprint(fingerprint: DeviceFingerprint | null): void {
+    if (fingerprint) {
+      localStorage.setItem(FINGERPRINT_STORAGE_KEY, JSON.stringify(fingerprint))
+    } else {
+      localStorage.removeItem(FINGERPRINT_STORAGE_KEY)
+    }
+  }
+
+  private getStoredFingerprint(): DeviceFingerprint | null {
+    try {
+      const stored = localStorage.getItem(FINGERPRINT_STORAGE_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
+  }
+
+  // Compare the setup a calibration was recorded on with the current one. Without an argument,
+  // checks the calibration WebGazer loaded from its own storage
+  checkCalibrationCompatibility(calibrationData?: any): FingerprintCheck {
+    const saved = calibrationData ? calibrationData.fingerprint : this.getStoredFingerprint()
+    return compareDeviceFingerprints(saved, this.getDeviceFingerprint())
+  }
+
+  // Build the record saved to the calibrations table from the current model and result
+  getCalibrationSnapshot(): CalibrationSnapshot | null {
+    const data = this.extractCalibrationData()
+    if (!data) return null
+
+    const { regressionBeta, regressionWeights, result, grid, fingerprint, ...trainingData } = data
+    const {
+      screenWidth, screenHeight, viewportWidth, viewportHeight, ...device
+    }: DeviceFingerprint = fingerprint
+    const calibrationResult: CalibrationResult | null = result || this.lastCalibrationResult
+
+    return {
+      regressionBeta,
+      ...(regressionWeights && regressionWeights.length > 0 ? { regressionWeights } : {}),
+      ...(Object.keys(trainingData).length > 0 ? { trainingData } : {}),
+      ...(grid ? { grid } : {}),
+      isValid: calibrationResult?.isValid ?? false,
+      pointsCollected: calibrationResult?.pointsCollected ?? 0,
+      averageConfidence: calibrationResult?.averageConfidence ?? 0,
+      ...(calibrationResult?.validation ? { validation: calibrationResult.validation } : {}),
+      ...(calibrationResult?.headPose ? { headPose: calibrationResult.headPose } : {}),
+      device,
+      screen: { screenWidth, screenHeight, viewportWidth, viewportHeight }
+    }
+  }
+
+  // Saved calibration record the current model came from (null for an unsaved calibration)
+  setCalibrationId(calibrationId: string | null): void {
+    if (calibrationId) {
+      localStorage.setItem(CALIBRATION_ID_STORAGE_KEY, calibrationId)
+    } else {
+      localStorage.removeItem(CALIBRATION_ID_STORAGE_KEY)
+    }
+  }
+
+  getCalibrationId(): string | null {
+    return localStorage.getItem(CALIBRATION_ID_STORAGE_KEY)
+  }
+
+  // Restore calibration data to WebGazer from database. Calibrations recorded on a different
+  // screen, pixel ratio or camera are refused unless allowDeviceMismatch is set
+  async restoreCalibrationData(
+    calibrationData: any,
+    options: { allowDeviceMismatch?: boolean } = {}
+  ): Promise<boolean> {
     if (!this.webgazer || !calibrationData) return false
+
+    const fingerprintCheck = this.checkCalibrationCompatibility(calibrationData)
+    if (fingerprintCheck.status === 'mismatch' && !options.allowDeviceMismatch) {
+      console.warn('⚠️ [WebGazerManager] Refusing to restore calibration from a different setup:', fingerprintCheck.mismatches)
+      return false
+    }
     
     try {
       const wgAny = this.webgazer as any
@@ -1546,6 +1957,12 @@ class WebGazerManager {
       if (calibrationData.result) {
         this.lastCalibrationResult = calibrationData.result
       }
+      this.headPoseBaseline = calibrationData.result?.headPose ?? null
+      if (calibrationData.grid) {
+        this.calibrationGrid = calibrationData.grid
+      }
+      // An accepted mismatch is accepted for this setup; legacy data without a fingerprint stays unknown
+      this.storeFingerprint(options.allowDeviceMismatch ? this.getDeviceFingerprint() : calibrationData.fingerprint ?? null)
       
       // Save to IndexedDB so WebGazer persists it
       if (this.webgazer.saveDataAcrossSessions) {
@@ -1620,6 +2037,8 @@ class WebGazerManager {
       // Clear internal calibration state
       this.calibrationData = []
       this.lastCalibrationResult = null
+      this.calibrationGrid = null
+      this.headPoseBaseline = null
       
       // Reset WebGazer's internal regression model if possible
       if (this.webgazer) {
@@ -1699,11 +2118,15 @@ class WebGazerManager {
     })
 
     this.gazeListeners = []
+    this.clearReplaySource()
+    this.sessionRecorder = null
     this.isInitialized = false
     this.isCalibrating = false
     this.isTracking = false
     this.isPaused = false
     this.lastCalibrationResult = null
+    this.calibrationGrid = null
+    this.headPoseBaseline = null
     console.log('✅ [WebGazerManager] Cleanup complete')
   }
 }
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -76,6 +77,12 @@ export default defineConfig({
     port: 3000,
     host: true
   },
+  test: {
+    alias: {
+      // Tests replay recorded predictions and never load WebGazer, which may not be checked out
+      'webgazer': path.resolve(__dirname, 'src/utils/__mocks__/webgazer.ts')
+    }
+  },
   resolve: {
     preserveSymlinks: false,
     alias: {